@@ -1,5 +1,14 @@
 import ShelvingUnitPro from "@/components/shelving-unit-pro"
+import { DESIGN_URL_PARAM, decodeDesign } from "@/lib/design-url"
 
-export default function Home() {
-  return <ShelvingUnitPro />
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}) {
+  // Hydrate the designer from a shared design link
+  const encoded = (await searchParams)[DESIGN_URL_PARAM]
+  const sharedDesign = typeof encoded === "string" ? decodeDesign(encoded) : undefined
+
+  return <ShelvingUnitPro sharedDesign={sharedDesign} />
 }
@@ -0,0 +1,151 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { HARDWARE_INFO, type HardwareKind } from "@/lib/hardware"
+import { formatPrice, type CostCatalog, type CostEstimate } from "@/lib/pricing"
+import { MATERIAL_INFO, type MaterialName } from "@/lib/shelving-unit"
+
+// Line items and total of a cost estimate
+export function CostBreakdown({ estimate }: { estimate: CostEstimate }) {
+  const price = (amount: number) => formatPrice(amount, estimate.currency)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between">
+        <span className="text-white font-medium">Estimated Cost</span>
+        <span className="text-white text-xl font-semibold">{price(estimate.total)}</span>
+      </div>
+      <table className="w-full text-sm">
+        <tbody>
+          {estimate.items.map((item) => (
+            <tr key={`${item.category}-${item.description}`} className="border-t border-gray-800">
+              <td className="py-1.5 text-gray-300">{item.description}</td>
+              <td className="py-1.5 text-gray-400 text-right whitespace-nowrap">
+                {item.quantity} {item.unit} × {price(item.unitPrice)}
+              </td>
+              <td className="py-1.5 text-white text-right whitespace-nowrap pl-3">{price(item.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+// Number field for a price in the catalog
+function PriceInput({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <Label htmlFor={id} className="text-gray-300 text-sm">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={0.01}
+        value={value}
+        onChange={(event) => {
+          const next = Number(event.target.value)
+          if (Number.isFinite(next) && next >= 0) onChange(next)
+        }}
+        className="h-8 w-24 bg-gray-800 border-gray-700 text-white text-right"
+      />
+    </div>
+  )
+}
+
+// Editor for the prices of a workshop's cost catalog
+export function CostCatalogEditor({
+  catalog,
+  onChange,
+}: {
+  catalog: CostCatalog
+  onChange: (catalog: CostCatalog) => void
+}) {
+  const setMaterial = (material: MaterialName, change: Partial<CostCatalog["materials"][MaterialName]>) => {
+    onChange({
+      ...catalog,
+      materials: { ...catalog.materials, [material]: { ...catalog.materials[material], ...change } },
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h4 className="text-white text-sm font-medium">Board ({catalog.currency})</h4>
+        {(Object.keys(MATERIAL_INFO) as MaterialName[]).map((material) => (
+          <div key={material} className="flex items-center justify-between gap-2">
+            <Label htmlFor={`price-${material}`} className="text-gray-300 text-sm flex-1">
+              {MATERIAL_INFO[material].label}
+            </Label>
+            <Input
+              id={`price-${material}`}
+              type="number"
+              min={0}
+              step={0.01}
+              value={catalog.materials[material].price}
+              onChange={(event) => {
+                const price = Number(event.target.value)
+                if (Number.isFinite(price) && price >= 0) setMaterial(material, { price })
+              }}
+              className="h-8 w-24 bg-gray-800 border-gray-700 text-white text-right"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-16"
+              onClick={() =>
+                setMaterial(material, { unit: catalog.materials[material].unit === "m2" ? "sheet" : "m2" })
+              }
+              title="Charge by area or by sheet"
+            >
+              {catalog.materials[material].unit === "m2" ? "/ m²" : "/ sheet"}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-white text-sm font-medium">Edge Banding and Labour</h4>
+        <PriceInput
+          id="price-edge-banding"
+          label="Edge banding per metre"
+          value={catalog.edgeBandingPerMetre}
+          onChange={(edgeBandingPerMetre) => onChange({ ...catalog, edgeBandingPerMetre })}
+        />
+        <PriceInput
+          id="price-labour"
+          label="Labour per cut"
+          value={catalog.labourPerCut}
+          onChange={(labourPerCut) => onChange({ ...catalog, labourPerCut })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-white text-sm font-medium">Hardware per Piece</h4>
+        {(Object.keys(HARDWARE_INFO) as HardwareKind[]).map((kind) => (
+          <PriceInput
+            key={kind}
+            id={`price-${kind}`}
+            label={HARDWARE_INFO[kind].label}
+            value={catalog.hardware[kind]}
+            onChange={(price) => onChange({ ...catalog, hardware: { ...catalog.hardware, [kind]: price } })}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,16 @@
 "use client"
 
-import { Text } from "@react-three/drei"
+import { Line, Text } from "@react-three/drei"
 import * as THREE from "three"
 import { useMemo, useRef } from "react"
+import type { Member } from "@/lib/compartments"
+import type { FrontPanel } from "@/lib/fronts"
+import type { HoleCircle } from "@/lib/drilling"
+import type { JointOutline } from "@/lib/joinery"
+import type { OpeningDimension } from "@/lib/opening-dimensions"
+import { SECTION_LABEL, hatchRectangle, type Section, type SectionPlane } from "@/lib/sections"
+import type { ViewName } from "@/lib/technical-drawing"
+import { formatLength, type UnitSystem } from "@/lib/units"
 
 // Conversion factor from abstract units to millimeters
 // This makes 1 unit = 1000mm (1 meter)
@@ -27,7 +35,7 @@ export function DimensionLine({
   offsetDirection?: [number, number, number]
   color?: string
   fontSize?: number
-  unit?: string
+  unit?: UnitSystem
   thickness?: number
   arrowSize?: number
   extensionLineOffset?: number
@@ -50,7 +58,6 @@ export function DimensionLine({
 
   // Calculate the length in mm
   const length = startPoint.distanceTo(endPoint) * UNIT_TO_MM
-  const displayValue = Math.round(length)
 
   // Calculate the direction for the dimension line
   const direction = new THREE.Vector3().subVectors(endPoint, startPoint).normalize()
@@ -199,23 +206,61 @@ export function DimensionLine({
         outlineColor="#000000"
         depthOffset={1}
       >
-        {`${displayValue}${unit}`}
+        {formatLength(length, unit)}
       </Text>
     </group>
   )
 }
 
+// Component for chain or clear opening dimensions in the front plane of the unit
+function OpeningDimensionLines({
+  dimensions,
+  z = 0,
+  color,
+  unit,
+}: {
+  dimensions: OpeningDimension[]
+  z?: number
+  color?: string
+  unit: UnitSystem
+}) {
+  return (
+    <group>
+      {dimensions.map(({ start, end, offset }) => {
+        const distance = Math.hypot(offset[0], offset[1])
+        return (
+          <DimensionLine
+            key={`${start.join(",")}-${end.join(",")}`}
+            start={[start[0], start[1], z]}
+            end={[end[0], end[1], z]}
+            offset={distance}
+            offsetDirection={distance > 0 ? [offset[0], offset[1], 0] : undefined}
+            color={color}
+            fontSize={0.04}
+            extensionLineOffset={0}
+            unit={unit}
+          />
+        )
+      })}
+    </group>
+  )
+}
+
 // Component to display all dimensions for the shelving unit
 export function DimensionLabels({
   width,
   height,
   depth,
   thickness,
+  openings = [],
+  unitSystem,
 }: {
   width: number
   height: number
   depth: number
   thickness: number
+  openings?: OpeningDimension[] // Chain or clear opening dimensions on the front of the unit
+  unitSystem: UnitSystem
 }) {
   // Calculate half dimensions
   const halfWidth = width / 2
@@ -230,6 +275,7 @@ export function DimensionLabels({
         end={[halfWidth, -halfHeight - 0.1, halfDepth]}
         offset={0.05}
         offsetDirection={[0, -1, 0]}
+        unit={unitSystem}
       />
 
       {/* Height dimension (front right) */}
@@ -238,6 +284,7 @@ export function DimensionLabels({
         end={[halfWidth + 0.1, halfHeight, halfDepth]}
         offset={0.05}
         offsetDirection={[1, 0, 0]}
+        unit={unitSystem}
       />
 
       {/* Depth dimension (top right) */}
@@ -246,6 +293,7 @@ export function DimensionLabels({
         end={[halfWidth, halfHeight + 0.1, -halfDepth]}
         offset={0.05}
         offsetDirection={[0, 1, 0]}
+        unit={unitSystem}
       />
 
       {/* Thickness dimension (front right) */}
@@ -255,7 +303,11 @@ export function DimensionLabels({
         offset={0.02}
         offsetDirection={[0, 1, 1]}
         fontSize={0.04}
+        unit={unitSystem}
       />
+
+      {/* Chain or clear opening dimensions */}
+      <OpeningDimensionLines dimensions={openings} z={halfDepth + 0.01} unit={unitSystem} />
     </group>
   )
 }
@@ -469,22 +521,238 @@ function LineWithThickness({
   )
 }
 
+// Component for the outline of a door, drawer or flap, with dashed lines meeting at its hinged edge
+function FrontOutline({
+  front,
+  color,
+  hiddenLineColor,
+}: {
+  front: FrontPanel
+  color: string
+  hiddenLineColor: string
+}) {
+  const { left, right, bottom, top } = front.box
+  const middleX = (left + right) / 2
+  const middleY = (bottom + top) / 2
+
+  const swing: Array<[number, number, number]> | null =
+    front.hinge === "left"
+      ? [
+          [right, bottom, 0],
+          [left, middleY, 0],
+          [right, top, 0],
+        ]
+      : front.hinge === "right"
+        ? [
+            [left, bottom, 0],
+            [right, middleY, 0],
+            [left, top, 0],
+          ]
+        : front.hinge === "bottom"
+          ? [
+              [left, top, 0],
+              [middleX, bottom, 0],
+              [right, top, 0],
+            ]
+          : null
+
+  return (
+    <group>
+      <Line
+        points={[
+          [left, bottom, 0],
+          [right, bottom, 0],
+          [right, top, 0],
+          [left, top, 0],
+          [left, bottom, 0],
+        ]}
+        color={color}
+        lineWidth={1}
+      />
+      {swing && <Line points={swing} color={hiddenLineColor} lineWidth={1} dashed dashSize={0.03} gapSize={0.02} />}
+    </group>
+  )
+}
+
+// Component for the section line across the front view, with arrows at both ends pointing the way the section looks
+function SectionLine({
+  plane,
+  width,
+  height,
+  color,
+}: {
+  plane: SectionPlane
+  width: number
+  height: number
+  color: string
+}) {
+  const overhang = 0.12
+  const arrowLength = 0.08
+  const arrowHead = 0.025
+
+  const vertical = plane.direction === "side"
+  const ends: Array<[number, number]> = vertical
+    ? [
+        [plane.at, -height / 2 - overhang],
+        [plane.at, height / 2 + overhang],
+      ]
+    : [
+        [-width / 2 - overhang, plane.at],
+        [width / 2 + overhang, plane.at],
+      ]
+  const [dx, dy] = vertical ? [-1, 0] : [0, -1]
+
+  return (
+    <group>
+      <Line
+        points={ends.map(([x, y]) => [x, y, 0] as [number, number, number])}
+        color={color}
+        lineWidth={1.5}
+        dashed
+        dashSize={0.06}
+        gapSize={0.02}
+      />
+      {ends.map(([x, y]) => {
+        const tipX = x + dx * arrowLength
+        const tipY = y + dy * arrowLength
+        return (
+          <group key={`${x},${y}`}>
+            <Line
+              points={[
+                [x, y, 0],
+                [tipX, tipY, 0],
+              ]}
+              color={color}
+              lineWidth={2}
+            />
+            <Line
+              points={[
+                [tipX - dx * arrowHead + dy * arrowHead, tipY - dy * arrowHead + dx * arrowHead, 0],
+                [tipX, tipY, 0],
+                [tipX - dx * arrowHead - dy * arrowHead, tipY - dy * arrowHead - dx * arrowHead, 0],
+              ]}
+              color={color}
+              lineWidth={2}
+            />
+            <Text
+              position={[x - dx * 0.06, y - dy * 0.06, 0]}
+              fontSize={0.07}
+              color={color}
+              anchorX="center"
+              anchorY="middle"
+            >
+              {SECTION_LABEL}
+            </Text>
+          </group>
+        )
+      })}
+    </group>
+  )
+}
+
+// Component for a section cut, centred on the origin: parts beyond the plane in outline, cut parts hatched
+function SectionParts({ section, color, hatchColor }: { section: Section; color: string; hatchColor: string }) {
+  // Section coordinates are mm from its lower left corner
+  const toView = ([u, v]: [number, number]): [number, number, number] => [
+    (u - section.width / 2) / UNIT_TO_MM,
+    (v - section.height / 2) / UNIT_TO_MM,
+    0,
+  ]
+
+  const outlines = section.parts.flatMap((part) => {
+    const [x1, y1] = part.min
+    const [x2, y2] = part.max
+    return [
+      [x1, y1],
+      [x2, y1],
+      [x2, y1],
+      [x2, y2],
+      [x2, y2],
+      [x1, y2],
+      [x1, y2],
+      [x1, y1],
+    ].map((point) => toView(point as [number, number]))
+  })
+  const hatching = section.parts
+    .filter((part) => part.cut)
+    .flatMap((part) => hatchRectangle(part.min, part.max, 15).flatMap(([start, end]) => [toView(start), toView(end)]))
+
+  return (
+    <group>
+      {hatching.length > 0 && <Line points={hatching} segments color={hatchColor} lineWidth={0.5} />}
+      <Line points={outlines} segments color={color} lineWidth={1} />
+    </group>
+  )
+}
+
+// Component for the grooves and holes of the joinery as hidden lines, from mm centred on the view
+function JointOutlines({ outlines, color }: { outlines: JointOutline[]; color: string }) {
+  if (outlines.length === 0) return null
+
+  const points = outlines.flatMap(({ min, max }) => {
+    const [x1, y1] = [min[0] / UNIT_TO_MM, min[1] / UNIT_TO_MM]
+    const [x2, y2] = [max[0] / UNIT_TO_MM, max[1] / UNIT_TO_MM]
+    return [
+      [x1, y1, 0],
+      [x2, y1, 0],
+      [x2, y1, 0],
+      [x2, y2, 0],
+      [x2, y2, 0],
+      [x1, y2, 0],
+      [x1, y2, 0],
+      [x1, y1, 0],
+    ] as Array<[number, number, number]>
+  })
+
+  return <Line points={points} segments color={color} lineWidth={0.75} dashed dashSize={0.01} gapSize={0.005} />
+}
+
+// Component for drilled holes seen end on, as hidden circles from mm centred on the view
+function HoleCircles({ circles, color }: { circles: HoleCircle[]; color: string }) {
+  if (circles.length === 0) return null
+
+  const segments = 12
+  const points = circles.flatMap(({ center, radius }) =>
+    Array.from({ length: segments * 2 }, (_, i) => {
+      const angle = (Math.floor((i + 1) / 2) / segments) * Math.PI * 2
+      return [
+        (center[0] + radius * Math.cos(angle)) / UNIT_TO_MM,
+        (center[1] + radius * Math.sin(angle)) / UNIT_TO_MM,
+        0,
+      ] as [number, number, number]
+    }),
+  )
+
+  return <Line points={points} segments color={color} lineWidth={0.75} />
+}
+
 // Component for orthographic views with dimensions
 export function OrthographicViews({
   width,
   height,
   depth,
   thickness,
-  shelves,
-  columns,
+  members,
+  fronts,
+  openings = [],
+  section,
+  joinery,
+  positions,
+  unitSystem,
   material,
 }: {
   width: number
   height: number
   depth: number
   thickness: number
-  shelves: Array<{ position: number; divisions: number }>
-  columns: Array<{ position: number; divisions: number }>
+  members: Member[]
+  fronts: FrontPanel[]
+  openings?: OpeningDimension[] // Chain or clear opening dimensions for the front view
+  section: Section // Cut along the section line on the front view
+  // Grooves and holes, with the holes drilled across the unit seen end on from the side, in mm centred on the unit
+  joinery: { front: JointOutline[]; side: JointOutline[]; sideHoles: HoleCircle[]; note: string }
+  positions: Record<ViewName, [number, number]> // Centre of every view, arranged for the projection
+  unitSystem: UnitSystem
   material: string
 }) {
   // Calculate half dimensions
@@ -492,12 +760,6 @@ export function OrthographicViews({
   const halfHeight = height / 2
   const halfDepth = depth / 2
 
-  // Calculate real-world dimensions in millimeters
-  const widthMM = Math.round(width * UNIT_TO_MM)
-  const heightMM = Math.round(height * UNIT_TO_MM)
-  const depthMM = Math.round(depth * UNIT_TO_MM)
-  const thicknessMM = Math.round(thickness * UNIT_TO_MM)
-
   // Colors for different views
   const viewColors = {
     outline: "#ffffff",
@@ -507,16 +769,18 @@ export function OrthographicViews({
     fill: "#333333",
   }
 
-  // Calculate shelf positions
-  const shelfPositions = shelves.map((shelf) => -halfHeight + shelf.position * height)
+  // Size of the section in abstract units
+  const sectionWidth = section.width / UNIT_TO_MM
+  const sectionHeight = section.height / UNIT_TO_MM
 
-  // Calculate column positions
-  const columnPositions = columns.map((column) => -halfWidth + column.position * width)
+  // Shelves and columns of the compartment tree
+  const shelves = members.filter((member) => member.kind === "shelf")
+  const columns = members.filter((member) => member.kind === "column")
 
   return (
     <group>
-      {/* Top View (looking down from top) - positioned at the top */}
-      <group position={[0, height + 0.5, 0]}>
+      {/* Top View (looking down from top) */}
+      <group position={[...positions.top, 0]}>
         <Text position={[0, 0.3, 0]} fontSize={0.1} color={viewColors.text} anchorX="center" anchorY="middle">
           Top View
         </Text>
@@ -531,12 +795,12 @@ export function OrthographicViews({
           hiddenLineColor={viewColors.hiddenLine}
         />
 
-        {/* Columns (vertical dividers) - now extending all the way from top to bottom */}
-        {columnPositions.map((x, i) => (
+        {/* Columns (vertical dividers) */}
+        {columns.map((column) => (
           <LineWithThickness
-            key={`top-column-${i}`}
-            start={[x, -halfDepth, 0]}
-            end={[x, halfDepth, 0]}
+            key={`top-column-${column.id}`}
+            start={[column.center, -halfDepth + thickness, 0]}
+            end={[column.center, halfDepth - thickness, 0]}
             thickness={thickness}
             color={viewColors.outline}
           />
@@ -549,6 +813,7 @@ export function OrthographicViews({
           offset={0.05}
           offsetDirection={[0, 1, 0]}
           color={viewColors.dimension}
+          unit={unitSystem}
         />
 
         {/* Depth dimension */}
@@ -558,6 +823,7 @@ export function OrthographicViews({
           offset={0.05}
           offsetDirection={[1, 0, 0]}
           color={viewColors.dimension}
+          unit={unitSystem}
         />
 
         {/* Thickness dimension */}
@@ -568,11 +834,12 @@ export function OrthographicViews({
           offsetDirection={[0, -1, 0]}
           color={viewColors.dimension}
           fontSize={0.04}
+          unit={unitSystem}
         />
       </group>
 
-      {/* Front View (looking from front) - positioned at the front */}
-      <group position={[0, 0, depth + 0.5]}>
+      {/* Front View (looking from front) */}
+      <group position={[...positions.front, 0]}>
         <Text
           position={[0, halfHeight + 0.3, 0]}
           fontSize={0.1}
@@ -593,28 +860,47 @@ export function OrthographicViews({
           hiddenLineColor={viewColors.hiddenLine}
         />
 
-        {/* Shelves (horizontal dividers) with thickness */}
-        {shelfPositions.map((y, i) => (
+        {/* Shelves (horizontal dividers) with thickness, spanning their compartment */}
+        {shelves.map((shelf) => (
           <LineWithThickness
-            key={`front-shelf-${i}`}
-            start={[-halfWidth + thickness, y, 0]}
-            end={[halfWidth - thickness, y, 0]}
+            key={`front-shelf-${shelf.id}`}
+            start={[shelf.start, shelf.center, 0]}
+            end={[shelf.start + shelf.span, shelf.center, 0]}
             thickness={thickness}
             color={viewColors.outline}
           />
         ))}
 
-        {/* Columns (vertical dividers) with thickness - now extending all the way from top to bottom */}
-        {columnPositions.map((x, i) => (
+        {/* Columns (vertical dividers) with thickness, spanning their compartment */}
+        {columns.map((column) => (
           <LineWithThickness
-            key={`front-column-${i}`}
-            start={[x, -halfHeight, 0]}
-            end={[x, halfHeight, 0]}
+            key={`front-column-${column.id}`}
+            start={[column.center, column.start, 0]}
+            end={[column.center, column.start + column.span, 0]}
             thickness={thickness}
             color={viewColors.outline}
           />
         ))}
 
+        {/* Doors, drawers and flaps in their openings */}
+        {fronts.map((front) => (
+          <FrontOutline
+            key={`front-${front.id}`}
+            front={front}
+            color={viewColors.outline}
+            hiddenLineColor={viewColors.hiddenLine}
+          />
+        ))}
+
+        {/* Grooves and holes of the joinery */}
+        <JointOutlines outlines={joinery.front} color={viewColors.hiddenLine} />
+
+        {/* Chain or clear opening dimensions */}
+        <OpeningDimensionLines dimensions={openings} color={viewColors.dimension} unit={unitSystem} />
+
+        {/* Section line */}
+        <SectionLine plane={section.plane} width={width} height={height} color={viewColors.dimension} />
+
         {/* Width dimension */}
         <DimensionLine
           start={[-halfWidth, -halfHeight - 0.2, 0]}
@@ -622,6 +908,7 @@ export function OrthographicViews({
           offset={0.05}
           offsetDirection={[0, -1, 0]}
           color={viewColors.dimension}
+          unit={unitSystem}
         />
 
         {/* Height dimension */}
@@ -631,6 +918,7 @@ export function OrthographicViews({
           offset={0.05}
           offsetDirection={[1, 0, 0]}
           color={viewColors.dimension}
+          unit={unitSystem}
         />
 
         {/* Thickness dimension */}
@@ -641,11 +929,23 @@ export function OrthographicViews({
           offsetDirection={[-1, 0, 0]}
           color={viewColors.dimension}
           fontSize={0.04}
+          unit={unitSystem}
         />
+
+        {/* Joint types */}
+        <Text
+          position={[0, -halfHeight - 0.35, 0]}
+          fontSize={0.05}
+          color={viewColors.text}
+          anchorX="center"
+          anchorY="middle"
+        >
+          {joinery.note}
+        </Text>
       </group>
 
-      {/* Side View (looking from right) - positioned at the right */}
-      <group position={[width + 0.5, 0, 0]}>
+      {/* Side View (looking from right) */}
+      <group position={[...positions.side, 0]}>
         <Text
           position={[0, halfHeight + 0.3, 0]}
           fontSize={0.1}
@@ -667,16 +967,20 @@ export function OrthographicViews({
         />
 
         {/* Shelves (horizontal dividers) with thickness */}
-        {shelfPositions.map((y, i) => (
+        {shelves.map((shelf) => (
           <LineWithThickness
-            key={`side-shelf-${i}`}
-            start={[-halfDepth + thickness, y, 0]}
-            end={[halfDepth - thickness, y, 0]}
+            key={`side-shelf-${shelf.id}`}
+            start={[-halfDepth + thickness, shelf.center, 0]}
+            end={[halfDepth - thickness, shelf.center, 0]}
             thickness={thickness}
             color={viewColors.outline}
           />
         ))}
 
+        {/* Grooves for an inset back, and holes for shelf pins and fittings */}
+        <JointOutlines outlines={joinery.side} color={viewColors.hiddenLine} />
+        <HoleCircles circles={joinery.sideHoles} color={viewColors.hiddenLine} />
+
         {/* Depth dimension */}
         <DimensionLine
           start={[-halfDepth, -halfHeight - 0.2, 0]}
@@ -684,6 +988,7 @@ export function OrthographicViews({
           offset={0.05}
           offsetDirection={[0, -1, 0]}
           color={viewColors.dimension}
+          unit={unitSystem}
         />
 
         {/* Height dimension */}
@@ -693,6 +998,7 @@ export function OrthographicViews({
           offset={0.05}
           offsetDirection={[1, 0, 0]}
           color={viewColors.dimension}
+          unit={unitSystem}
         />
 
         {/* Thickness dimension */}
@@ -703,6 +1009,42 @@ export function OrthographicViews({
           offsetDirection={[-1, 0, 0]}
           color={viewColors.dimension}
           fontSize={0.04}
+          unit={unitSystem}
+        />
+      </group>
+
+      {/* Section (cut along the section line) */}
+      <group position={[...positions.section, 0]}>
+        <Text
+          position={[0, sectionHeight / 2 + 0.3, 0]}
+          fontSize={0.1}
+          color={viewColors.text}
+          anchorX="center"
+          anchorY="middle"
+        >
+          {`Section ${SECTION_LABEL}-${SECTION_LABEL}`}
+        </Text>
+
+        <SectionParts section={section} color={viewColors.outline} hatchColor={viewColors.hiddenLine} />
+
+        {/* Width dimension */}
+        <DimensionLine
+          start={[-sectionWidth / 2, -sectionHeight / 2 - 0.2, 0]}
+          end={[sectionWidth / 2, -sectionHeight / 2 - 0.2, 0]}
+          offset={0.05}
+          offsetDirection={[0, -1, 0]}
+          color={viewColors.dimension}
+          unit={unitSystem}
+        />
+
+        {/* Height dimension */}
+        <DimensionLine
+          start={[sectionWidth / 2 + 0.2, -sectionHeight / 2, 0]}
+          end={[sectionWidth / 2 + 0.2, sectionHeight / 2, 0]}
+          offset={0.05}
+          offsetDirection={[1, 0, 0]}
+          color={viewColors.dimension}
+          unit={unitSystem}
         />
       </group>
     </group>
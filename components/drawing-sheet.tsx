@@ -0,0 +1,137 @@
+"use client"
+
+import { Line, OrthographicCamera, Text } from "@react-three/drei"
+import { useThree } from "@react-three/fiber"
+import {
+  PROJECTION_LABELS,
+  SHEET_MARGIN,
+  TITLE_BLOCK_ROW,
+  TITLE_BLOCK_WIDTH,
+  type PaperName,
+  type PaperSize,
+  type SheetLayout,
+} from "@/lib/drawing-sheet"
+import { UNIT_TO_MM } from "@/lib/shelving-unit"
+import type { Projection } from "@/lib/technical-drawing"
+
+// Colors for the sheet
+const sheetColors = {
+  paper: "#222222",
+  border: "#ffffff",
+  label: "#888888",
+  text: "#ffffff",
+}
+
+// Share of the canvas the sheet fills when fitted
+const FIT_MARGIN = 0.94
+
+// Camera that fits the whole sheet in the canvas, centred on the origin
+export function SheetCamera({ paper }: { paper: PaperSize }) {
+  const size = useThree((state) => state.size)
+  const zoom = Math.min(size.width / paper.width, size.height / paper.height) * FIT_MARGIN
+
+  return <OrthographicCamera makeDefault position={[0, 0, 10]} zoom={zoom} />
+}
+
+// Outline of a rectangle in sheet millimeters
+function SheetRect({ x, y, width, height }: { x: number; y: number; width: number; height: number }) {
+  return (
+    <Line
+      points={[
+        [x, y, 0],
+        [x + width, y, 0],
+        [x + width, y + height, 0],
+        [x, y + height, 0],
+        [x, y, 0],
+      ]}
+      color={sheetColors.border}
+      lineWidth={1}
+    />
+  )
+}
+
+// A sheet of paper, centred on the origin in millimeters, with the views drawn to scale on it.
+// The views are children in abstract units centred on the middle of the drawing area.
+export function DrawingSheet({
+  layout,
+  paperName,
+  projection,
+  projectName,
+  children,
+}: {
+  layout: SheetLayout
+  paperName: PaperName
+  projection: Projection
+  projectName: string
+  children: React.ReactNode
+}) {
+  const { paper, area, scale } = layout
+  const right = paper.width - SHEET_MARGIN
+  const left = right - TITLE_BLOCK_WIDTH
+  const row = TITLE_BLOCK_ROW
+
+  // A labelled cell of the title block starting at x
+  const cell = (label: string, value: string, x: number, y: number, size = 3.5) => (
+    <group key={label}>
+      <Text
+        position={[x + 2, y + row - 3.5, 0.01]}
+        fontSize={2}
+        color={sheetColors.label}
+        anchorX="left"
+        anchorY="bottom"
+      >
+        {label.toUpperCase()}
+      </Text>
+      <Text position={[x + 2, y + 2.5, 0.01]} fontSize={size} color={sheetColors.text} anchorX="left" anchorY="bottom">
+        {value}
+      </Text>
+    </group>
+  )
+
+  return (
+    <group position={[-paper.width / 2, -paper.height / 2, 0]}>
+      {/* Paper */}
+      <mesh position={[paper.width / 2, paper.height / 2, -0.01]}>
+        <planeGeometry args={[paper.width, paper.height]} />
+        <meshBasicMaterial color={sheetColors.paper} />
+      </mesh>
+
+      {/* Border */}
+      <SheetRect
+        x={SHEET_MARGIN}
+        y={SHEET_MARGIN}
+        width={paper.width - SHEET_MARGIN * 2}
+        height={paper.height - SHEET_MARGIN * 2}
+      />
+
+      {/* Title block */}
+      <SheetRect x={left} y={SHEET_MARGIN} width={TITLE_BLOCK_WIDTH} height={row * 3} />
+      <Line
+        points={[
+          [left, SHEET_MARGIN + row, 0],
+          [right, SHEET_MARGIN + row, 0],
+        ]}
+        color={sheetColors.border}
+        lineWidth={1}
+      />
+      <Line
+        points={[
+          [left, SHEET_MARGIN + row * 2, 0],
+          [right, SHEET_MARGIN + row * 2, 0],
+        ]}
+        color={sheetColors.border}
+        lineWidth={1}
+      />
+      {cell("Project", projectName.trim() || "Shelving Unit", left, SHEET_MARGIN + row * 2, 5)}
+      {cell("Drawing", "General arrangement", left, SHEET_MARGIN + row)}
+      {cell("Projection", PROJECTION_LABELS[projection], left + 100, SHEET_MARGIN + row)}
+      {cell("Scale", `1:${scale}`, left, SHEET_MARGIN)}
+      {cell("Paper", paperName, left + 45, SHEET_MARGIN)}
+
+      {/* Views, from abstract units to millimeters on paper */}
+      <group position={[area.x + area.width / 2, area.y + area.height / 2, 0]} scale={UNIT_TO_MM / scale}>
+        {children}
+      </group>
+    </group>
+  )
+}
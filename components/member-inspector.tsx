@@ -0,0 +1,317 @@
+"use client"
+
+import { Copy, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/hooks/use-toast"
+import {
+  duplicateDivider,
+  findCompartment,
+  layoutCompartments,
+  nameMembers,
+  positionDivider,
+  removeDivider,
+  setCompartmentFront,
+  setDividerAdjustable,
+  setDividerBanding,
+  setDividerMaterial,
+} from "@/lib/compartments"
+import { derivePanels, describeBanding, toCutListId } from "@/lib/cut-list"
+import { FITTING_LABELS, getDrillingMap, type DrillingMapHole } from "@/lib/drilling"
+import { MAX_DRAWERS, layoutFronts } from "@/lib/fronts"
+import { describePanelJoinery, getJointFeatures, getJoints } from "@/lib/joinery"
+import { getPanelBoxes } from "@/lib/panel-geometry"
+import {
+  MATERIAL_INFO,
+  UNIT_TO_MM,
+  toMM,
+  type CarcassPanel,
+  type EdgeBanding,
+  type MaterialName,
+  type ShelvingUnitState,
+} from "@/lib/shelving-unit"
+import { UNIT_SYSTEMS, formatLength } from "@/lib/units"
+import { LengthInput } from "./member-positions"
+import { MaterialSwatches } from "./role-materials"
+
+// Overall dimensions of the unit each carcass panel is sized by
+const CARCASS_DIMENSIONS: Record<CarcassPanel, Array<"width" | "height" | "depth">> = {
+  top: ["width", "depth"],
+  bottom: ["width", "depth"],
+  sides: ["height", "depth"],
+  back: ["width", "height"],
+}
+
+// Properties of the panel clicked in the 3D view: its size as cut, board, edge banding, holes and joinery,
+// with whatever of them can be changed, and buttons to delete or duplicate it
+export function MemberInspector({
+  unit,
+  panelId,
+  onChange,
+  onClose,
+}: {
+  unit: ShelvingUnitState
+  panelId: string
+  onChange: (label: string, unit: ShelvingUnitState) => void
+  onClose: () => void
+}) {
+  const { unitSystem, thickness } = unit
+  const box = getPanelBoxes(unit).find((candidate) => candidate.id === panelId)
+  const cutListId = toCutListId(panelId)
+  const panel = derivePanels(unit).find((candidate) => candidate.id === cutListId)
+  if (!box || !panel) return null
+
+  const showLength = (mm: number) => formatLength(mm, unitSystem)
+  const carcassPanel = (["top", "bottom", "sides", "back"] as const).find((id) => id === cutListId)
+  const member =
+    box.name === "shelf" || box.name === "column"
+      ? nameMembers(layoutCompartments(unit).members).find(
+          (candidate) => `${candidate.kind}-${candidate.id}` === panelId,
+        )
+      : undefined
+  const front = layoutFronts(unit).find((candidate) => candidate.id === panelId)
+  const compartmentFront = front && findCompartment(unit.layout, front.compartmentId)?.front
+
+  // Holes by fitting, and grooves, of this panel
+  const drilling = getDrillingMap(unit).find((candidate) => candidate.panelId === panelId)
+  const holeGroups = new Map<string, { hole: DrillingMapHole; count: number }>()
+  for (const hole of drilling?.holes ?? []) {
+    const key = `${hole.fitting}:${hole.diameter}:${hole.depth}`
+    holeGroups.set(key, { hole, count: (holeGroups.get(key)?.count ?? 0) + 1 })
+  }
+  const joinery = describePanelJoinery(getJointFeatures(unit), cutListId, unitSystem)
+
+  // Shelves that columns stand on or hang from have to stay joined in place
+  const carrying = member && getJoints(unit).some((joint) => joint.meeting.id === panelId)
+
+  // Change an overall dimension of the unit, as long as the board still fits
+  const resize = (dimension: "width" | "height" | "depth", valueMM: number) => {
+    const value = valueMM / UNIT_TO_MM
+    if (value <= thickness * 2) {
+      toast({
+        variant: "destructive",
+        title: `Couldn't change the ${dimension}`,
+        description: `It must be more than ${showLength(toMM(thickness * 2))}, twice the board thickness.`,
+      })
+      return
+    }
+    onChange(`Resize ${dimension}`, { ...unit, [dimension]: value })
+  }
+
+  // Move a shelf or column to the value typed in, or explain why it can't go there
+  const moveMember = (valueMM: number) => {
+    if (!member) return
+    const origin = member.kind === "shelf" ? unit.height / 2 : unit.width / 2
+    const result = positionDivider(unit, member.id, valueMM / UNIT_TO_MM - origin)
+    if (result.success) {
+      onChange(`Move ${member.name.toLowerCase()}`, result.unit)
+    } else {
+      toast({ variant: "destructive", title: `Couldn't move ${member.name}`, description: result.errors.join(" ") })
+    }
+  }
+
+  // Band the panel's edges, or band it the usual way again with null
+  const changeBanding = (banding: EdgeBanding | null) => {
+    const label = `Band ${box.label.toLowerCase()}`
+    if (member) {
+      onChange(label, setDividerBanding(unit, member.id, banding))
+    } else if (carcassPanel) {
+      const { [carcassPanel]: _, ...usual } = unit.edgeBanding
+      onChange(label, { ...unit, edgeBanding: banding ? { ...unit.edgeBanding, [carcassPanel]: banding } : usual })
+    }
+  }
+  const isBandingEditable = Boolean(member || carcassPanel)
+  const isBandingChanged = member ? Boolean(member.banding) : Boolean(carcassPanel && unit.edgeBanding[carcassPanel])
+
+  // Make the panel from another board, or from the board of its role again with null.
+  // Carcass panels are the only panels of their role, so they change the role's board.
+  const changeMaterial = (material: MaterialName | null) => {
+    const label = material
+      ? `Make ${box.label.toLowerCase()} from ${material}`
+      : `Reset ${box.label.toLowerCase()} board`
+    if (member) {
+      onChange(label, setDividerMaterial(unit, member.id, material))
+    } else if (front && compartmentFront) {
+      const { material: _, ...usual } = compartmentFront
+      onChange(label, setCompartmentFront(unit, front.compartmentId, material ? { ...usual, material } : usual))
+    } else {
+      const { [panel.role]: _, ...others } = unit.roleMaterials
+      onChange(label, { ...unit, roleMaterials: material ? { ...unit.roleMaterials, [panel.role]: material } : others })
+    }
+  }
+  const ownMaterial = member ? member.material : front ? compartmentFront?.material : unit.roleMaterials[panel.role]
+
+  // Delete or duplicate the panel, where the unit can do without it or take another
+  const drawers = compartmentFront?.type === "drawers" ? compartmentFront : null
+  const drawerCount = drawers?.count ?? 0
+  const deleteLabel = `Delete ${box.label.toLowerCase()}`
+  const deleted = member
+    ? removeDivider(unit, member.id)
+    : panelId === "back"
+      ? { ...unit, backPanel: "none" as const }
+      : front
+        ? setCompartmentFront(
+            unit,
+            front.compartmentId,
+            drawers && drawerCount > 1 ? { ...drawers, count: drawerCount - 1 } : null,
+          )
+        : null
+  const duplicated = member
+    ? duplicateDivider(unit, member.id)
+    : front && drawers && drawerCount < MAX_DRAWERS
+      ? setCompartmentFront(unit, front.compartmentId, { ...drawers, count: drawerCount + 1 })
+      : null
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-medium">{box.label}</h3>
+        <Button variant="ghost" size="icon" className="h-7 w-7 text-gray-400 hover:text-white" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1 text-gray-300">
+        <div>
+          Cut size: {showLength(panel.length)} × {showLength(panel.width)} × {showLength(panel.thickness)}
+        </div>
+        {panel.quantity > 1 && <div className="text-gray-400">Cut as a pair with the other side</div>}
+      </div>
+
+      {/* What the panel's size follows, and can be changed through */}
+      <div className="space-y-2">
+        {carcassPanel &&
+          CARCASS_DIMENSIONS[carcassPanel].map((dimension) => (
+            <div key={dimension} className="flex items-center justify-between">
+              <span className="text-gray-300">
+                Unit {dimension} ({UNIT_SYSTEMS[unitSystem].suffix})
+              </span>
+              <LengthInput
+                label={`Unit ${dimension} in ${UNIT_SYSTEMS[unitSystem].label.toLowerCase()}`}
+                value={toMM(unit[dimension])}
+                unitSystem={unitSystem}
+                onCommit={(value) => resize(dimension, value)}
+              />
+            </div>
+          ))}
+        {member && (
+          <div className="flex items-center justify-between">
+            <span className="text-gray-300">
+              Centre {member.kind === "shelf" ? "from floor" : "from left"} ({UNIT_SYSTEMS[unitSystem].suffix})
+            </span>
+            <LengthInput
+              label={`${member.name} position in ${UNIT_SYSTEMS[unitSystem].label.toLowerCase()}`}
+              value={toMM(member.center + (member.kind === "shelf" ? unit.height / 2 : unit.width / 2))}
+              unitSystem={unitSystem}
+              onCommit={moveMember}
+            />
+          </div>
+        )}
+        {front && <p className="text-gray-400">Fronts are sized by the opening they close.</p>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-300">Board: {MATERIAL_INFO[panel.material].label}</span>
+          {ownMaterial && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => changeMaterial(null)}>
+              Usual
+            </Button>
+          )}
+        </div>
+        <MaterialSwatches value={panel.material} onChange={changeMaterial} />
+        {front?.kind === "drawer-front" && (
+          <p className="text-gray-400">Drawers in the same opening share a board, their boxes follow Drawer boxes.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-300">Edge banding: {describeBanding(panel.banding)}</span>
+          {isBandingChanged && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => changeBanding(null)}>
+              Usual
+            </Button>
+          )}
+        </div>
+        {isBandingEditable ? (
+          (["long", "short"] as const).map((edges) => (
+            <div key={edges} className="flex items-center justify-between">
+              <span className="text-gray-400">{edges === "long" ? "Long" : "Short"} edges</span>
+              <div className="flex gap-1">
+                {([0, 1, 2] as const).map((count) => (
+                  <Button
+                    key={count}
+                    variant={panel.banding[edges] === count ? "default" : "outline"}
+                    size="sm"
+                    className="h-7 w-8 px-0"
+                    onClick={() => changeBanding({ ...panel.banding, [edges]: count })}
+                  >
+                    {count}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-gray-400">Fronts are banded all round.</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-gray-300">Holes and grooves</div>
+        {holeGroups.size === 0 && !joinery && <p className="text-gray-400">None</p>}
+        {Array.from(holeGroups, ([key, { hole, count }]) => (
+          <div key={key} className="text-gray-400">
+            {count} × {FITTING_LABELS[hole.fitting]}, Ø{showLength(hole.diameter)} × {showLength(hole.depth)} deep
+          </div>
+        ))}
+        {joinery && <div className="text-gray-400">{joinery}</div>}
+        {member?.kind === "shelf" && (
+          <Button
+            variant={member.adjustable ? "default" : "outline"}
+            size="sm"
+            className="h-7 mt-1"
+            disabled={!member.adjustable && carrying}
+            title={carrying ? "Columns meet this shelf, so it stays joined in place" : undefined}
+            onClick={() =>
+              onChange(
+                member.adjustable ? "Fix shelf in place" : "Make shelf adjustable",
+                setDividerAdjustable(unit, member.id, !member.adjustable),
+              )
+            }
+          >
+            {member.adjustable ? "Resting on pins" : "Rest on pins"}
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          disabled={!duplicated}
+          onClick={() => duplicated && onChange(`Duplicate ${box.label.toLowerCase()}`, duplicated)}
+        >
+          <Copy className="h-4 w-4 mr-1" />
+          Duplicate
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          disabled={!deleted}
+          title={deleted ? undefined : "The carcass can't stand without it"}
+          onClick={() => {
+            if (!deleted) return
+            onChange(deleteLabel, deleted)
+            onClose()
+          }}
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+      </div>
+    </div>
+  )
+}
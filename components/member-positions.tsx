@@ -0,0 +1,267 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Minus, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { toast } from "@/hooks/use-toast"
+import {
+  distributeDividers,
+  layoutCompartments,
+  nameMembers,
+  positionDivider,
+  setDividerAdjustable,
+  setOpeningCount,
+  type Compartment,
+  type NamedMember,
+} from "@/lib/compartments"
+import { getJoints } from "@/lib/joinery"
+import { UNIT_TO_MM, toMM, type ShelvingUnitState } from "@/lib/shelving-unit"
+import { UNIT_SYSTEMS, formatLengthValue, parseLength, type UnitSystem } from "@/lib/units"
+
+// Positions are measured to the member's centre from the floor or left of the unit,
+// or as the clear gap below or left of it
+type PositionMode = "centre" | "gap"
+
+// Length field in the chosen unit system that only applies its value on Enter or when it loses focus.
+// Values are in millimeters, inches can be typed with a fraction such as 23 7/16.
+export function LengthInput({
+  label,
+  value,
+  unitSystem,
+  onCommit,
+}: {
+  label: string
+  value: number
+  unitSystem: UnitSystem
+  onCommit: (value: number) => void
+}) {
+  const shown = formatLengthValue(value, unitSystem)
+  const [draft, setDraft] = useState(shown)
+
+  // Follow changes made elsewhere, such as dragging in 3D
+  useEffect(() => setDraft(shown), [shown])
+
+  const commit = () => {
+    const next = parseLength(draft, unitSystem)
+    if (next === null) {
+      setDraft(shown)
+    } else if (draft.trim() !== shown) {
+      onCommit(next)
+    }
+  }
+
+  return (
+    <Input
+      type="text"
+      inputMode="decimal"
+      value={draft}
+      aria-label={label}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") commit()
+        if (event.key === "Escape") setDraft(shown)
+      }}
+      className="h-8 w-24 bg-gray-800 border-gray-700 text-white text-right"
+    />
+  )
+}
+
+// Label every split compartment the way the compartment tree does
+function labelSplitCompartments(root: Compartment): Map<string, string> {
+  const labels = new Map<string, string>()
+  const visit = (compartment: Compartment, label: string) => {
+    if (!compartment.split) return
+    labels.set(compartment.id, label)
+    const childLabel = compartment.split === "horizontal" ? "Row" : "Bay"
+    compartment.children.forEach((child, i) =>
+      visit(child, label === "Whole unit" ? `${childLabel} ${i + 1}` : `${label} › ${childLabel} ${i + 1}`),
+    )
+  }
+  visit(root, "Whole unit")
+  return labels
+}
+
+// Table of every shelf and column with its exact position, grouped by the compartment it divides
+export function MemberPositions({
+  unit,
+  onChange,
+}: {
+  unit: ShelvingUnitState
+  onChange: (label: string, unit: ShelvingUnitState) => void
+}) {
+  const [mode, setMode] = useState<PositionMode>("centre")
+  const { thickness, unitSystem } = unit
+
+  const members = nameMembers(layoutCompartments(unit).members)
+  const labels = labelSplitCompartments(unit.layout)
+  const groups = Array.from(labels, ([id, label]) => ({
+    id,
+    label,
+    members: members.filter((member) => member.compartmentId === id).sort((a, b) => a.center - b.center),
+  })).filter((group) => group.members.length > 0)
+
+  // Where a member sits along its compartment, and the face of whatever comes before it
+  const origin = (member: NamedMember) => (member.kind === "shelf" ? unit.height / 2 : unit.width / 2)
+  const previousFace = (member: NamedMember, siblings: NamedMember[]) => {
+    const index = siblings.indexOf(member)
+    if (index > 0) return siblings[index - 1].center + thickness / 2
+    return member.kind === "shelf" ? member.parentBox.bottom : member.parentBox.left
+  }
+
+  const displayValue = (member: NamedMember, siblings: NamedMember[]) =>
+    mode === "centre"
+      ? toMM(member.center + origin(member))
+      : toMM(member.center - thickness / 2 - previousFace(member, siblings))
+
+  // Move a member to the value typed in, or explain why it can't go there
+  const moveMember = (member: NamedMember, siblings: NamedMember[], valueMM: number) => {
+    const value = valueMM / UNIT_TO_MM
+    const center = mode === "centre" ? value - origin(member) : previousFace(member, siblings) + value + thickness / 2
+
+    const result = positionDivider(unit, member.id, center)
+    if (result.success) {
+      onChange(`Move ${member.name.toLowerCase()}`, result.unit)
+    } else {
+      toast({ variant: "destructive", title: `Couldn't move ${member.name}`, description: result.errors.join(" ") })
+    }
+  }
+
+  // Shelves that columns stand on or hang from have to stay joined in place
+  const carrying = new Set(getJoints(unit).map((joint) => joint.meeting.id))
+
+  if (groups.length === 0) {
+    return <p className="text-sm text-gray-400">Add shelves or columns to edit their positions.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant={mode === "centre" ? "default" : "outline"}
+          size="sm"
+          className="h-8"
+          onClick={() => setMode("centre")}
+        >
+          Centre from floor / left
+        </Button>
+        <Button
+          variant={mode === "gap" ? "default" : "outline"}
+          size="sm"
+          className="h-8"
+          onClick={() => setMode("gap")}
+        >
+          Clear gap
+        </Button>
+      </div>
+
+      {groups.map((group) => {
+        const horizontal = group.members[0].kind === "shelf"
+        const openings = group.members.length + 1
+        const positionLabel =
+          mode === "centre" ? (horizontal ? "from floor" : "from left") : horizontal ? "gap below" : "gap left"
+
+        return (
+          <div key={group.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-300 text-sm">
+                {group.label}: {openings} {horizontal ? "rows" : "bays"}
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() =>
+                    onChange(`Remove ${horizontal ? "shelf" : "column"}`, setOpeningCount(unit, group.id, openings - 1))
+                  }
+                >
+                  <Minus className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() =>
+                    onChange(`Add ${horizontal ? "shelf" : "column"}`, setOpeningCount(unit, group.id, openings + 1))
+                  }
+                >
+                  <Plus className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <tbody>
+                {group.members.map((member) => (
+                  <tr key={member.id} className="border-t border-gray-800">
+                    <td className="py-1 text-gray-300">{member.name}</td>
+                    <td className="py-1 text-gray-400 text-right pr-2">{positionLabel}</td>
+                    <td className="py-1 text-right">
+                      <LengthInput
+                        label={`${member.name} position in ${UNIT_SYSTEMS[unitSystem].label.toLowerCase()}`}
+                        value={displayValue(member, group.members)}
+                        unitSystem={unitSystem}
+                        onCommit={(value) => moveMember(member, group.members, value)}
+                      />
+                    </td>
+                    {horizontal && (
+                      <td className="py-1 pl-2 text-right">
+                        <Button
+                          variant={member.adjustable ? "default" : "outline"}
+                          size="sm"
+                          className="h-7 px-2"
+                          disabled={!member.adjustable && carrying.has(`shelf-${member.id}`)}
+                          title={
+                            member.adjustable
+                              ? "Resting on shelf pins, click to join it in place"
+                              : carrying.has(`shelf-${member.id}`)
+                                ? "Columns meet this shelf, so it stays joined in place"
+                                : "Rest on shelf pins in rows of holes, so it can be moved"
+                          }
+                          onClick={() =>
+                            onChange(
+                              member.adjustable ? "Fix shelf in place" : "Make shelf adjustable",
+                              setDividerAdjustable(unit, member.id, !member.adjustable),
+                            )
+                          }
+                        >
+                          Pins
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() => onChange("Distribute evenly", distributeDividers(unit, group.id, "centres"))}
+              >
+                Distribute evenly
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() =>
+                  onChange(
+                    horizontal ? "Equal clear heights" : "Equal clear widths",
+                    distributeDividers(unit, group.id, "openings"),
+                  )
+                }
+              >
+                {horizontal ? "Equal clear height" : "Equal clear width"}
+              </Button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
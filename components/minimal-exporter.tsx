@@ -3,42 +3,85 @@
  * A very simple, reliable exporter for the shelving unit
  */
 
+import { layoutCompartments, nameMembers, type CompartmentFront } from "@/lib/compartments"
+import { derivePanels, describeBanding, summarizePanels, type CutListInput } from "@/lib/cut-list"
+import { FITTING_LABELS, getDrillingMap } from "@/lib/drilling"
+import { describeJoinery, describePanelJoinery, getJointFeatures } from "@/lib/joinery"
+import type { NestingResult } from "@/lib/nesting"
+import { MATERIAL_INFO, toMM } from "@/lib/shelving-unit"
+import { UNIT_SYSTEMS, formatLength, formatLengthValue, toUnitSystem, type UnitSystem } from "@/lib/units"
+
+// Format a length in millimeters as a plain number in the unit system, for CSV files
+function formatNumber(mm: number, unitSystem: UnitSystem): string {
+  return `${toUnitSystem(mm, unitSystem)}`
+}
+
+// Describe what closes a compartment
+function describeFront(front: CompartmentFront | undefined): string {
+  if (!front) return "open"
+  if (front.type === "door") return `door hinged on the ${front.hinge}`
+  if (front.type === "drawers") return `${front.count} ${front.count === 1 ? "drawer" : "drawers"}`
+  return "flap hinged at the bottom"
+}
+
 // Function to create a simple text representation of the shelving unit
-export function createDesignSpec(unit: {
-  width: number
-  height: number
-  depth: number
-  thickness: number
-  shelves: Array<{ position: number; divisions: number }>
-  columns: Array<{ position: number; divisions: number }>
-  material: string
-}): string {
-  const { width, height, depth, thickness, shelves, columns, material } = unit
+export function createDesignSpec(unit: CutListInput, unitSystem: UnitSystem = "mm"): string {
+  const { width, height, depth, thickness, material, backPanel } = unit
+  const length = (value: number) => formatLength(toMM(value), unitSystem)
+  const panels = derivePanels(unit)
+  const { pieces, area } = summarizePanels(panels)
+  const layout = layoutCompartments(unit)
+  const members = nameMembers(layout.members)
+  const shelves = members.filter((member) => member.kind === "shelf")
+  const columns = members.filter((member) => member.kind === "column")
+  const openings = layout.compartments.filter((laidOut) => !laidOut.compartment.split)
 
   // Create a simple text specification
   return `Shelving Unit Design Specifications
 =============================
 
 DIMENSIONS
-Width: ${width.toFixed(2)} units
-Height: ${height.toFixed(2)} units
-Depth: ${depth.toFixed(2)} units
-Material thickness: ${thickness.toFixed(2)} units
-Material: ${material}
+Width: ${length(width)}
+Height: ${length(height)}
+Depth: ${length(depth)}
+Material thickness: ${length(thickness)}
+Material: ${MATERIAL_INFO[material].label}
+Back panel: ${backPanel}
+Joinery: ${describeJoinery(unit)}
 
 SHELVES (${shelves.length})
 ${shelves
   .map(
-    (shelf, i) =>
-      `Shelf ${i + 1}: Position ${(shelf.position * 100).toFixed(0)}% from bottom, ${shelf.divisions} divisions`,
+    (shelf) =>
+      `${shelf.name}: ${length(shelf.center + height / 2)} from bottom (centre), ${length(shelf.start + width / 2)} from left, ${length(shelf.span)} long`,
   )
   .join("\n")}
 
 COLUMNS (${columns.length})
 ${columns
   .map(
-    (column, i) =>
-      `Column ${i + 1}: Position ${(column.position * 100).toFixed(0)}% from left, ${column.divisions} divisions`,
+    (column) =>
+      `${column.name}: ${length(column.center + width / 2)} from left (centre), ${length(column.start + height / 2)} from bottom, ${length(column.span)} tall`,
+  )
+  .join("\n")}
+
+COMPARTMENTS (${openings.length})
+${openings
+  .map(
+    ({ compartment, box }, i) =>
+      `Compartment ${i + 1}: ${length(box.right - box.left)} x ${length(box.top - box.bottom)} clear opening, ${length(box.left + width / 2)} from left, ${length(box.bottom + height / 2)} from bottom, ${describeFront(compartment.front)}`,
+  )
+  .join("\n")}
+
+CUT LIST (${pieces} pieces, ${area.toFixed(2)} m²)
+Qty  Length x Width x Thickness (${UNIT_SYSTEMS[unitSystem].suffix})  Grain   Material         Part
+${panels
+  .map(
+    (panel) =>
+      `${String(panel.quantity).padEnd(5)}${[panel.length, panel.width, panel.thickness]
+        .map((mm) => formatLengthValue(mm, unitSystem))
+        .join(" x ")
+        .padEnd(33)}${panel.grain.padEnd(8)}${MATERIAL_INFO[panel.material].label.padEnd(17)}${panel.name}`,
   )
   .join("\n")}
 
@@ -46,10 +89,113 @@ Generated: ${new Date().toLocaleString()}
 `
 }
 
+// Function to create a CSV cut list the workshop can cut from directly
+export function createCutListCsv(unit: CutListInput, unitSystem: UnitSystem = "mm"): string {
+  const suffix = UNIT_SYSTEMS[unitSystem].suffix
+  const header = [
+    "Part",
+    "Role",
+    "Quantity",
+    `Length (${suffix})`,
+    `Width (${suffix})`,
+    `Thickness (${suffix})`,
+    "Grain",
+    "Material",
+    "Edge banding",
+    "Joinery",
+  ]
+  const features = getJointFeatures(unit)
+  const rows = derivePanels(unit).map((panel) => [
+    panel.name,
+    panel.role,
+    String(panel.quantity),
+    formatNumber(panel.length, unitSystem),
+    formatNumber(panel.width, unitSystem),
+    formatNumber(panel.thickness, unitSystem),
+    panel.grain,
+    MATERIAL_INFO[panel.material].label,
+    describeBanding(panel.banding),
+    describePanelJoinery(features, panel.id, unitSystem),
+  ])
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n"
+}
+
+// Function to create a CSV drilling map, with every hole measured from the edges of its panel
+export function createDrillingCsv(unit: CutListInput, unitSystem: UnitSystem = "mm"): string {
+  const suffix = UNIT_SYSTEMS[unitSystem].suffix
+  const header = [
+    "Panel",
+    `Length (${suffix})`,
+    `Width (${suffix})`,
+    "Measured from",
+    "Fitting",
+    "Drilled from",
+    `Along length (${suffix})`,
+    `Across width (${suffix})`,
+    `Into thickness (${suffix})`,
+    `Diameter (${suffix})`,
+    `Depth (${suffix})`,
+  ]
+  const rows = getDrillingMap(unit).flatMap((panel) =>
+    panel.holes.map((hole) => [
+      panel.label,
+      formatNumber(panel.length, unitSystem),
+      formatNumber(panel.width, unitSystem),
+      panel.reference,
+      FITTING_LABELS[hole.fitting],
+      hole.face,
+      formatNumber(hole.along, unitSystem),
+      formatNumber(hole.across, unitSystem),
+      formatNumber(hole.into, unitSystem),
+      formatNumber(hole.diameter, unitSystem),
+      formatNumber(hole.depth, unitSystem),
+    ]),
+  )
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n"
+}
+
+// Function to create a CSV of the nested sheets for the panel saw
+export function createNestingCsv(result: NestingResult, unitSystem: UnitSystem = "mm"): string {
+  const suffix = UNIT_SYSTEMS[unitSystem].suffix
+  const header = [
+    "Sheet",
+    "Material",
+    `Thickness (${suffix})`,
+    "Part",
+    `Length (${suffix})`,
+    `Width (${suffix})`,
+    `X (${suffix})`,
+    `Y (${suffix})`,
+    "Rotated",
+  ]
+  const rows = result.sheets.flatMap((sheet, i) =>
+    sheet.pieces.map((piece) => [
+      String(i + 1),
+      MATERIAL_INFO[sheet.material].label,
+      formatNumber(sheet.thickness, unitSystem),
+      piece.name,
+      formatNumber(piece.length, unitSystem),
+      formatNumber(piece.width, unitSystem),
+      formatNumber(piece.x, unitSystem),
+      formatNumber(piece.y, unitSystem),
+      piece.rotated ? "yes" : "no",
+    ]),
+  )
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n"
+}
+
+// Quote a CSV field when it contains separators or quotes
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
 // Simple and reliable download function
-export function downloadAsFile(content: string, filename: string): void {
+export function downloadAsFile(content: BlobPart, filename: string, type = "text/plain"): void {
   // Create a blob with the content
-  const blob = new Blob([content], { type: "text/plain" })
+  const blob = new Blob([content], { type })
 
   // Create a URL for the blob
   const url = URL.createObjectURL(blob)
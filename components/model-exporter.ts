@@ -0,0 +1,111 @@
+/**
+ * Model Exporter
+ * Exports the 3D shelving unit to GLB, STL and OBJ files
+ *
+ * Only the physical panels of the `shelving-unit` group are exported, so the
+ * drag gizmos, dimension labels and compartment highlight are left out. Panel
+ * transforms are baked into each mesh so every format gets the same geometry,
+ * with doors, drawers and flaps exported open or closed as they are shown.
+ * Each panel is exported with the materials of the board it is made from, named
+ * in its userData, rather than whatever it is drawn with, such as warning colors,
+ * and keeps the texture coordinates that run its grain along its length.
+ * STL and OBJ files have no units of their own, so they are written in the
+ * chosen unit system: millimeters, centimeters or inches.
+ */
+
+import * as THREE from "three"
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js"
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter.js"
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js"
+import { UNIT_TO_MM } from "@/lib/shelving-unit"
+import { UNIT_SYSTEMS, type UnitSystem } from "@/lib/units"
+import { getPanelMaterials } from "./panel-materials"
+
+export type ModelFormat = "glb" | "stl" | "obj"
+
+// Names of the meshes that make up the physical unit
+const MODEL_PARTS = new Set([
+  "top",
+  "bottom",
+  "left-side",
+  "right-side",
+  "back",
+  "shelf",
+  "column",
+  "door",
+  "drawer-front",
+  "drawer-box",
+  "flap",
+])
+
+// Parts that occur more than once are numbered in the export
+const NUMBERED_PARTS = new Set(["shelf", "column", "door", "drawer-front", "drawer-box", "flap"])
+
+// Millimeters per exported unit: glTF is defined in meters, STL and OBJ follow the unit system
+const formatUnitInMM = (format: ModelFormat, unitSystem: UnitSystem) =>
+  format === "glb" ? 1000 : UNIT_SYSTEMS[unitSystem].mmPerUnit
+
+const MIME_TYPES: Record<ModelFormat, string> = {
+  glb: "model/gltf-binary",
+  stl: "model/stl",
+  obj: "model/obj",
+}
+
+// Copy the panels of the unit into a fresh group at real world scale, named by their role
+function createExportGroup(source: THREE.Object3D, format: ModelFormat, unitSystem: UnitSystem): THREE.Group {
+  source.updateWorldMatrix(true, true)
+
+  // Undo wherever the unit sits in the scene, then scale to the format's unit
+  const scale = UNIT_TO_MM / formatUnitInMM(format, unitSystem)
+  const toExportSpace = new THREE.Matrix4()
+    .makeScale(scale, scale, scale)
+    .multiply(source.matrixWorld.clone().invert())
+  const group = new THREE.Group()
+  group.name = "shelving-unit"
+  const counts = new Map<string, number>()
+
+  source.traverse((object: THREE.Object3D) => {
+    if (!(object as THREE.Mesh).isMesh || !MODEL_PARTS.has(object.name)) return
+
+    const count = (counts.get(object.name) ?? 0) + 1
+    counts.set(object.name, count)
+
+    const geometry = (object as THREE.Mesh).geometry.clone()
+    geometry.applyMatrix4(toExportSpace.clone().multiply(object.matrixWorld))
+
+    const { material, thicknessAxis } = object.userData
+    const mesh = new THREE.Mesh(geometry, getPanelMaterials(material, thicknessAxis))
+    mesh.name = NUMBERED_PARTS.has(object.name) ? `${object.name}-${count}` : object.name
+    group.add(mesh)
+  })
+
+  return group
+}
+
+// Export the panels of the unit in the given format, each with the materials of its board
+export async function exportModel(
+  source: THREE.Object3D,
+  format: ModelFormat,
+  unitSystem: UnitSystem = "mm",
+): Promise<{ content: BlobPart; filename: string; type: string }> {
+  const group = createExportGroup(source, format, unitSystem)
+  const filename = `shelving-unit.${format}`
+  const type = MIME_TYPES[format]
+
+  try {
+    if (format === "glb") {
+      const content = await new GLTFExporter().parseAsync(group, { binary: true })
+      if (!(content instanceof ArrayBuffer)) throw new Error("GLTFExporter returned glTF JSON instead of a binary GLB")
+      return { content, filename, type }
+    }
+
+    if (format === "stl") {
+      const content: DataView = new STLExporter().parse(group, { binary: true })
+      return { content, filename, type }
+    }
+
+    return { content: new OBJExporter().parse(group), filename, type }
+  } finally {
+    group.traverse((object: THREE.Object3D) => (object as THREE.Mesh).geometry?.dispose())
+  }
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import type { NestingResult } from "@/lib/nesting"
+import { MATERIAL_INFO } from "@/lib/shelving-unit"
+import { formatLength, formatLengthValue, type UnitSystem } from "@/lib/units"
+
+// Colors for the sheet layout drawing
+const layoutColors = {
+  sheet: "#2a2a2a",
+  sheetOutline: "#888888",
+  piece: "#4a9eff",
+  pieceFill: "rgba(74, 158, 255, 0.15)",
+  text: "#ffffff",
+}
+
+// 2D SVG drawing of the nested sheets, one drawing per sheet
+export function NestingLayout({ result, unitSystem }: { result: NestingResult; unitSystem: UnitSystem }) {
+  const { sheet } = result.options
+  const size = (length: number, width: number) =>
+    `${formatLengthValue(length, unitSystem)} × ${formatLength(width, unitSystem)}`
+
+  return (
+    <div className="space-y-4">
+      <div className="text-white text-sm space-y-1">
+        <div>Sheets: {result.sheetCount}</div>
+        <div>Waste: {result.wastePercent.toFixed(1)}%</div>
+        <div>
+          Sheet size: {size(sheet.length, sheet.width)}, kerf {formatLength(result.options.kerf, unitSystem)}
+        </div>
+        {result.unplaced.length > 0 && (
+          <div className="text-red-400">
+            Too large for the sheet: {result.unplaced.map((piece) => piece.name).join(", ")}
+          </div>
+        )}
+      </div>
+
+      {result.sheets.map((nestedSheet, i) => (
+        <div key={i} className="space-y-1">
+          <div className="text-gray-300 text-xs">
+            Sheet {i + 1} — {MATERIAL_INFO[nestedSheet.material].label},{" "}
+            {formatLength(nestedSheet.thickness, unitSystem)}
+          </div>
+          <svg
+            viewBox={`0 0 ${sheet.length} ${sheet.width}`}
+            className="w-full h-auto"
+            xmlns="http://www.w3.org/2000/svg"
+          >
+            <rect
+              x={0}
+              y={0}
+              width={sheet.length}
+              height={sheet.width}
+              fill={layoutColors.sheet}
+              stroke={layoutColors.sheetOutline}
+              strokeWidth={4}
+            />
+            {nestedSheet.pieces.map((piece, j) => {
+              // SVG y runs down, the layout y runs up from the sheet's bottom edge
+              const y = sheet.width - piece.y - piece.width
+              const fontSize = Math.min(60, piece.width / 3, piece.length / 8)
+
+              return (
+                <g key={`${piece.panelId}-${j}`}>
+                  <rect
+                    x={piece.x}
+                    y={y}
+                    width={piece.length}
+                    height={piece.width}
+                    fill={layoutColors.pieceFill}
+                    stroke={layoutColors.piece}
+                    strokeWidth={3}
+                  />
+                  <text
+                    x={piece.x + piece.length / 2}
+                    y={y + piece.width / 2}
+                    fill={layoutColors.text}
+                    fontSize={fontSize}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                  >
+                    {`${piece.name} ${formatLengthValue(piece.length, unitSystem)}×${formatLengthValue(piece.width, unitSystem)}${piece.rotated ? " ⟲" : ""}`}
+                  </text>
+                </g>
+              )
+            })}
+          </svg>
+        </div>
+      ))}
+    </div>
+  )
+}
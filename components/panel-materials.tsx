@@ -0,0 +1,112 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import * as THREE from "three"
+import { MATERIAL_INFO, type MaterialName } from "@/lib/shelving-unit"
+import {
+  createGrainTexture,
+  createPlyTexture,
+  getGrainUVs,
+  hasPlyEdges,
+  type GrainAxes,
+  type GrainTexture,
+} from "@/lib/wood-grain"
+
+// Finish of each board: veneers are satin, melamine a little glossier
+const FINISHES: Record<MaterialName, { roughness: number; metalness: number }> = {
+  wood: { roughness: 0.8, metalness: 0.1 },
+  white: { roughness: 0.5, metalness: 0.1 },
+  black: { roughness: 0.5, metalness: 0.2 },
+  walnut: { roughness: 0.7, metalness: 0.1 },
+  oak: { roughness: 0.8, metalness: 0.05 },
+}
+
+type BoardMaterials = { face: THREE.Material; edge: THREE.Material }
+
+const boards = new Map<MaterialName, BoardMaterials>()
+const panelMaterials = new Map<string, THREE.Material[]>()
+
+// Texture of generated pixels, repeating along the grain and, unless it's a ply edge, across it
+function createTexture(pixels: Uint8Array, texture: GrainTexture, repeatAcross: boolean, isColor: boolean) {
+  const map = new THREE.DataTexture(pixels, texture.width, texture.height, THREE.RGBAFormat)
+  map.wrapS = THREE.RepeatWrapping
+  map.wrapT = repeatAcross ? THREE.RepeatWrapping : THREE.ClampToEdgeWrapping
+  map.minFilter = THREE.LinearMipmapLinearFilter
+  map.magFilter = THREE.LinearFilter
+  map.generateMipmaps = true
+  map.anisotropy = 8
+  if (isColor) map.colorSpace = THREE.SRGBColorSpace
+  map.needsUpdate = true
+  return map
+}
+
+// Material of a board, flat colored or with a generated texture and the roughness that goes with it
+function createBoardMaterial(material: MaterialName, texture: GrainTexture | null, repeatAcross = true) {
+  const { roughness, metalness } = FINISHES[material]
+  return new THREE.MeshStandardMaterial({
+    color: texture ? "#ffffff" : MATERIAL_INFO[material].color,
+    map: texture ? createTexture(texture.color, texture, repeatAcross, true) : null,
+    roughnessMap: texture ? createTexture(texture.roughness, texture, repeatAcross, false) : null,
+    roughness: texture ? 1 : roughness, // The roughness map holds the roughness itself
+    metalness,
+    side: THREE.DoubleSide,
+  })
+}
+
+// Materials of the faces and edges of a board, its textures generated the first time it's used
+export function getBoardMaterials(material: MaterialName): BoardMaterials {
+  let board = boards.get(material)
+  if (!board) {
+    const face = createBoardMaterial(material, createGrainTexture(material))
+    const edge = hasPlyEdges(material) ? createBoardMaterial(material, createPlyTexture(material), false) : face
+    board = { face, edge }
+    boards.set(material, board)
+  }
+  return board
+}
+
+// Materials of the six sides of a panel box, in the order of three.js boxes: the faces square to its thickness,
+// the edges the rest
+export function getPanelMaterials(material: MaterialName, thicknessAxis: number): THREE.Material[] {
+  const key = `${material}:${thicknessAxis}`
+  let materials = panelMaterials.get(key)
+  if (!materials) {
+    const { face, edge } = getBoardMaterials(material)
+    materials = Array.from({ length: 6 }, (_, side) => (Math.floor(side / 2) === thicknessAxis ? face : edge))
+    panelMaterials.set(key, materials)
+  }
+  return materials
+}
+
+// Box geometry of a panel made from a board, in abstract units, with the grain along its length
+export function PanelGeometry({
+  size,
+  axes,
+  material,
+}: {
+  size: [number, number, number]
+  axes: GrainAxes
+  material: MaterialName
+}) {
+  const [x, y, z] = size
+  const { length, width, thickness } = axes
+  const plies = hasPlyEdges(material)
+
+  const geometry = useMemo(() => {
+    const box = new THREE.BoxGeometry(x, y, z)
+    const uvs = getGrainUVs(
+      box.attributes.position.array,
+      box.attributes.normal.array,
+      [x, y, z],
+      { length, width, thickness },
+      plies,
+    )
+    box.setAttribute("uv", new THREE.BufferAttribute(uvs, 2))
+    return box
+  }, [x, y, z, length, width, thickness, plies])
+
+  // Boxes are made again whenever the panel changes size, so free the old one
+  useEffect(() => () => geometry.dispose(), [geometry])
+
+  return <primitive object={geometry} attach="geometry" />
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { PANEL_ROLE_LABELS, type PanelRole } from "@/lib/cut-list"
+import { MATERIAL_INFO, type MaterialName, type ShelvingUnitState } from "@/lib/shelving-unit"
+import { cn } from "@/lib/utils"
+
+// Round color swatches for choosing a board, with the board in use ringed
+export function MaterialSwatches({
+  value,
+  onChange,
+}: {
+  value: MaterialName | undefined
+  onChange: (material: MaterialName) => void
+}) {
+  return (
+    <div className="flex gap-1">
+      {(Object.keys(MATERIAL_INFO) as MaterialName[]).map((material) => (
+        <button
+          key={material}
+          type="button"
+          title={MATERIAL_INFO[material].label}
+          aria-label={MATERIAL_INFO[material].label}
+          aria-pressed={value === material}
+          className={cn(
+            "w-5 h-5 rounded-full border border-gray-600",
+            value === material && "ring-2 ring-blue-400 ring-offset-1 ring-offset-gray-900",
+          )}
+          style={{ backgroundColor: MATERIAL_INFO[material].color }}
+          onClick={() => onChange(material)}
+        />
+      ))}
+    </div>
+  )
+}
+
+// Board of every panel role, each following the unit's material until another is chosen
+export function RoleMaterials({
+  unit,
+  onChange,
+}: {
+  unit: ShelvingUnitState
+  onChange: (label: string, roleMaterials: ShelvingUnitState["roleMaterials"]) => void
+}) {
+  const { roleMaterials } = unit
+
+  return (
+    <div className="space-y-2">
+      {(Object.keys(PANEL_ROLE_LABELS) as PanelRole[]).map((role) => {
+        const { [role]: material, ...others } = roleMaterials
+        const label = PANEL_ROLE_LABELS[role].toLowerCase()
+        return (
+          <div key={role} className="flex items-center justify-between gap-2">
+            <span className="text-gray-300 text-sm">{PANEL_ROLE_LABELS[role]}</span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant={material ? "outline" : "default"}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                title="Made from the unit's material"
+                onClick={() => material && onChange(`Make ${label} from the unit's material`, others)}
+              >
+                Unit
+              </Button>
+              <MaterialSwatches
+                value={material}
+                onChange={(next) => onChange(`Make ${label} from ${next}`, { ...roleMaterials, [role]: next })}
+              />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
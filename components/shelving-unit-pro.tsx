@@ -2,9 +2,9 @@
 
 import type React from "react"
 
-import { useState, useRef, useEffect } from "react"
-import { Canvas } from "@react-three/fiber"
-import { OrbitControls, TransformControls, Environment, PerspectiveCamera, OrthographicCamera } from "@react-three/drei"
+import { useState, useRef, useEffect, useMemo } from "react"
+import { Canvas, useFrame, type ThreeEvent } from "@react-three/fiber"
+import { OrbitControls, TransformControls, Environment, PerspectiveCamera } from "@react-three/drei"
 import * as THREE from "three"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
@@ -12,6 +12,7 @@ import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Separator } from "@/components/ui/separator"
+import { Input } from "@/components/ui/input"
 import {
   Menu,
   X,
@@ -25,449 +26,970 @@ import {
   Minimize2,
   View,
   CuboidIcon as Cube,
+  FileText,
+  Table,
+  LayoutGrid,
+  Save,
+  FolderOpen,
+  Undo2,
+  Redo2,
+  Share2,
+  Columns,
+  Merge,
+  AlertTriangle,
+  Box,
+  Ruler,
+  FileDown,
+  CircleDot,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { useHistory } from "@/hooks/use-history"
+import { toast } from "@/hooks/use-toast"
+import { derivePanels, getPanelMaterial } from "@/lib/cut-list"
+import {
+  loadDesignFromStorage,
+  parseDesignDocument,
+  saveDesignToStorage,
+  serializeDesign,
+  type ParseDesignResult,
+} from "@/lib/design-document"
+import {
+  DEFAULT_CNC_OPTIONS,
+  createSheetGcode,
+  createSheetToolpaths,
+  getRouterNestingOptions,
+  type CncOptions,
+} from "@/lib/cnc"
+import { DEFAULT_CLEARANCE_OPTIONS, constrainDividerMove, type ClearanceOptions } from "@/lib/constraints"
+import { createDesignUrl } from "@/lib/design-url"
+import { createDrawingDxf } from "@/lib/dxf"
+import { getDrilledHoles, getPanelAxes, getSideHoleCircles, type DrilledHole } from "@/lib/drilling"
+import { deriveHardware } from "@/lib/hardware"
+import { getPanelBoxes, type Vector3 } from "@/lib/panel-geometry"
+import {
+  DEFAULT_JOINERY,
+  JOINT_FAMILIES,
+  JOINT_INFO,
+  describeJoinery,
+  getJointFeatures,
+  getJointOutlines,
+} from "@/lib/joinery"
+import {
+  DEFAULT_COST_CATALOG,
+  estimateCost,
+  loadCostCatalogFromStorage,
+  parseCostCatalog,
+  saveCostCatalogToStorage,
+  serializeCostCatalog,
+  type CostCatalog,
+} from "@/lib/pricing"
+import { createDrawingSetPdf, type DrawingSetOptions } from "@/lib/drawing-pdf"
+import { PROJECTION_LABELS, layoutSheet, type PaperName, type PaperSize } from "@/lib/drawing-sheet"
+import { DEFAULT_SHELF_LOAD, DEFLECTION_LIMIT_RATIO, analyzeShelves, type ShelfLoad } from "@/lib/deflection"
+import { getOpeningDimensions } from "@/lib/opening-dimensions"
+import { MAX_DRAWERS, getDrawerBox, layoutFronts, type DrawerBox, type FrontPanel } from "@/lib/fronts"
+import {
+  MAX_SUBDIVISIONS,
+  addDivider,
+  countDividers,
+  createGridLayout,
+  findCompartment,
+  findSplitCompartment,
+  getSubdivision,
+  layoutCompartments,
+  mergeCompartment,
+  nameMembers,
+  removeDivider,
+  setCompartmentFront,
+  setSubdivision,
+  splitCompartment,
+  type Compartment,
+  type CompartmentBox,
+  type CompartmentFront,
+  type Member,
+  type SplitDirection,
+} from "@/lib/compartments"
+import { DEFAULT_NESTING_OPTIONS, SHEET_SIZES, nestPanels, type NestingOptions } from "@/lib/nesting"
+import { PAPER_SIZES } from "@/lib/pdf"
+import { createSection, getSectionPlane } from "@/lib/sections"
+import {
+  UNIT_TO_MM,
+  toMM,
+  type BackPanel,
+  type JointFamily,
+  type JointType,
+  type MaterialName,
+  type ShelvingUnitState,
+} from "@/lib/shelving-unit"
+import type { Projection, ViewName } from "@/lib/technical-drawing"
+import { UNIT_SYSTEMS, formatFeedRate, formatLength, getDragStep, type UnitSystem } from "@/lib/units"
+import type { GrainAxes } from "@/lib/wood-grain"
 
 // Import dimension labels
 import { DimensionLabels, OrthographicViews } from "./dimension-labels"
-
-// Conversion factor from abstract units to millimeters
-const UNIT_TO_MM = 1000
-
-// Types for our shelving unit
-type Shelf = {
-  id: string
-  position: number // 0-1 percentage of the container height
-  divisions: number // Number of vertical divisions
-}
-
-type Column = {
-  id: string
-  position: number // 0-1 percentage of the container width
-  divisions: number // Number of horizontal divisions
+import { DrawingSheet, SheetCamera } from "./drawing-sheet"
+import {
+  createCutListCsv,
+  createDesignSpec,
+  createDrillingCsv,
+  createNestingCsv,
+  downloadAsFile,
+} from "./minimal-exporter"
+import { exportModel, type ModelFormat } from "./model-exporter"
+import { NestingLayout } from "./nesting-layout"
+import { PanelGeometry, getPanelMaterials } from "./panel-materials"
+import { ToolpathPreview } from "./toolpath-preview"
+import { CostBreakdown, CostCatalogEditor } from "./cost-estimate"
+import { MemberInspector } from "./member-inspector"
+import { MemberPositions } from "./member-positions"
+import { RoleMaterials } from "./role-materials"
+
+// Predefined layouts, positions are percentages of the inner height and width
+const LAYOUTS: Record<"basic" | "bookshelf" | "display" | "grid", () => Compartment> = {
+  basic: () => createGridLayout([0.5], [0.5]),
+  bookshelf: () => createGridLayout([0.25, 0.5, 0.75], []),
+  display: () => {
+    // A tall open bay between two columns of shelves
+    const layout = createGridLayout([], [0.33, 0.66])
+    return {
+      ...layout,
+      children: [createGridLayout([0.33, 0.66], []), layout.children[1], createGridLayout([0.5], [])],
+    }
+  },
+  grid: () => createGridLayout([0.33, 0.66], [0.33, 0.66]),
 }
 
-type ShelvingUnitState = {
-  width: number
-  height: number
-  depth: number
-  thickness: number
-  shelves: Shelf[]
-  columns: Column[]
-  showWireframe: boolean
-  showDimensions: boolean
-  viewMode: "3d" | "orthographic"
-  material: "wood" | "white" | "black" | "walnut" | "oak"
+// Axes of the panels along their length, width and thickness, with the grain along their length
+const CARCASS_AXES = {
+  top: getPanelAxes("top"),
+  bottom: getPanelAxes("bottom"),
+  side: getPanelAxes("left-side"),
+  back: getPanelAxes("back"),
 }
-
-// Predefined layouts
-const LAYOUTS = {
-  basic: {
-    shelves: [{ id: "s1", position: 0.5, divisions: 2 }],
-    columns: [{ id: "c1", position: 0.5, divisions: 1 }],
-  },
-  bookshelf: {
-    shelves: [
-      { id: "s1", position: 0.25, divisions: 1 },
-      { id: "s2", position: 0.5, divisions: 3 },
-      { id: "s3", position: 0.75, divisions: 2 },
-    ],
-    columns: [],
-  },
-  display: {
-    shelves: [
-      { id: "s1", position: 0.33, divisions: 2 },
-      { id: "s2", position: 0.66, divisions: 4 },
-    ],
-    columns: [
-      { id: "c1", position: 0.33, divisions: 2 },
-      { id: "c2", position: 0.66, divisions: 2 },
-    ],
-  },
-  grid: {
-    shelves: [
-      { id: "s1", position: 0.33, divisions: 3 },
-      { id: "s2", position: 0.66, divisions: 3 },
-    ],
-    columns: [
-      { id: "c1", position: 0.33, divisions: 2 },
-      { id: "c2", position: 0.66, divisions: 2 },
-    ],
-  },
+const SHELF_AXES = getPanelAxes("shelf")
+const COLUMN_AXES = getPanelAxes("column")
+
+// Drawer box sides run front to back, its front, back and bottom across
+const DRAWER_BOX_AXES = {
+  side: { length: 2, width: 1, thickness: 0 },
+  end: { length: 0, width: 1, thickness: 2 },
+  bottom: { length: 0, width: 2, thickness: 1 },
 }
 
-// Material definitions
-const MATERIALS = {
-  wood: new THREE.MeshStandardMaterial({
-    color: "#A67C52",
-    roughness: 0.8,
-    metalness: 0.1,
-    side: THREE.DoubleSide,
-  }),
-  white: new THREE.MeshStandardMaterial({
-    color: "#F5F5F5",
-    roughness: 0.5,
-    metalness: 0.1,
-    side: THREE.DoubleSide,
-  }),
-  black: new THREE.MeshStandardMaterial({
-    color: "#333333",
-    roughness: 0.5,
-    metalness: 0.2,
-    side: THREE.DoubleSide,
-  }),
-  walnut: new THREE.MeshStandardMaterial({
-    color: "#5D4037",
-    roughness: 0.7,
-    metalness: 0.1,
-    side: THREE.DoubleSide,
-  }),
-  oak: new THREE.MeshStandardMaterial({
-    color: "#D7CCA1",
-    roughness: 0.8,
-    metalness: 0.05,
-    side: THREE.DoubleSide,
-  }),
+// Shelves that sag more than the deflection limit
+const OVERLOADED_MATERIAL = new THREE.MeshStandardMaterial({
+  color: "#E53935",
+  roughness: 0.6,
+  metalness: 0.1,
+  side: THREE.DoubleSide,
+})
+
+// A shelf or column dragged against the minimum gap to its neighbours
+const LIMITED_MATERIAL = new THREE.MeshStandardMaterial({
+  color: "#FFA04A",
+  emissive: "#FFA04A",
+  emissiveIntensity: 0.3,
+  roughness: 0.6,
+  metalness: 0.1,
+  side: THREE.DoubleSide,
+})
+
+// How far the highlight of the panel in the inspector stands proud of it, in mm
+const SELECTION_MARGIN = 2
+
+// Scrolling over a shelf or column with Shift held divides the opening it carries, instead of zooming
+function handleSubdivideWheel(event: ThreeEvent<WheelEvent>, onSubdivide: (delta: number) => void) {
+  if (!event.shiftKey) return
+  event.stopPropagation()
+  // Some browsers turn Shift+scroll into a sideways scroll
+  onSubdivide(event.deltaY || event.deltaX)
 }
 
-// Component for a single shelf with divisions
-function ShelfWithDivisions({
-  width,
-  height,
+// Component for a single shelf spanning its compartment
+function ShelfPanel({
+  shelf,
   depth,
-  position,
-  divisions,
   material,
+  overloaded,
+  limited,
   showWireframe,
   thickness,
+  snap,
   onDrag,
   onDragEnd,
+  onSubdivide,
+  onSelect,
 }: {
-  width: number
-  height: number
+  shelf: Member
   depth: number
-  position: [number, number, number]
-  divisions: number
-  material: keyof typeof MATERIALS
+  material: MaterialName
+  overloaded: boolean
+  limited: boolean // Held back by the minimum gap while dragged
   showWireframe: boolean
   thickness: number
+  snap: number // Step the drag moves by, in abstract units
   onDrag: (y: number) => void
   onDragEnd: () => void
+  onSubdivide: (delta: number) => void // Shift+scroll over the shelf
+  onSelect: () => void
 }) {
-  const shelfRef = useRef<THREE.Mesh>(null)
-  const transformRef = useRef<any>(null)
-  const divisionThickness = thickness
-
-  // Create division meshes
-  const divisionMeshes = []
-  if (divisions > 1) {
-    const divisionWidth = width / divisions
-    for (let i = 1; i < divisions; i++) {
-      const divisionX = -width / 2 + i * divisionWidth
-      divisionMeshes.push(
-        <mesh key={`div-${i}`} position={[divisionX, 0, 0]} material={MATERIALS[material]} castShadow receiveShadow>
-          <boxGeometry args={[divisionThickness, divisionThickness, depth]} />
-          {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
-        </mesh>,
-      )
-    }
-  }
+  // Kept in state rather than a ref, so the transform control attaches once the mesh is there
+  const [shelfMesh, setShelfMesh] = useState<THREE.Mesh | null>(null)
 
-  // Handle transform control events
+  // Hold the shelf where it stopped when it's dragged past a limit
   useEffect(() => {
-    if (transformRef.current) {
-      const controls = transformRef.current
-
-      const handleDrag = () => {
-        if (shelfRef.current) {
-          onDrag(shelfRef.current.position.y)
-        }
-      }
-
-      const handleDragEnd = () => {
-        onDragEnd()
-      }
-
-      controls.addEventListener("dragging-changed", (event: { value: boolean }) => {
-        if (event.value) {
-          controls.addEventListener("objectChange", handleDrag)
-        } else {
-          controls.removeEventListener("objectChange", handleDrag)
-          handleDragEnd()
-        }
-      })
-
-      return () => {
-        controls.removeEventListener("dragging-changed", handleDrag)
-      }
-    }
-  }, [onDrag, onDragEnd])
+    shelfMesh?.position.set(shelf.start + shelf.span / 2, shelf.center, 0)
+  })
 
   return (
-    <group position={position}>
+    <>
       {/* Main shelf */}
-      <mesh ref={shelfRef} material={MATERIALS[material]} castShadow receiveShadow name="shelf">
-        <boxGeometry args={[width, thickness, depth]} />
+      <mesh
+        ref={setShelfMesh}
+        position={[shelf.start + shelf.span / 2, shelf.center, 0]}
+        material={
+          limited
+            ? LIMITED_MATERIAL
+            : overloaded
+              ? OVERLOADED_MATERIAL
+              : getPanelMaterials(material, SHELF_AXES.thickness)
+        }
+        userData={{ material, thicknessAxis: SHELF_AXES.thickness }}
+        castShadow
+        receiveShadow
+        name="shelf"
+        onWheel={(event) => handleSubdivideWheel(event, onSubdivide)}
+        onClick={(event) => {
+          event.stopPropagation()
+          onSelect()
+        }}
+      >
+        <PanelGeometry size={[shelf.span, thickness, depth]} axes={SHELF_AXES} material={material} />
         {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
       </mesh>
 
-      {/* Division lines */}
-      {divisionMeshes}
-
       {/* Transform control for dragging */}
-      <TransformControls
-        ref={transformRef}
-        object={shelfRef}
-        mode="translate"
-        showX={false}
-        showZ={false}
-        size={0.5}
-        translationSnap={0.1}
-      />
-    </group>
+      {shelfMesh && (
+        <TransformControls
+          object={shelfMesh}
+          mode="translate"
+          showX={false}
+          showZ={false}
+          size={0.5}
+          translationSnap={snap}
+          onObjectChange={() => {
+            onDrag(shelfMesh.position.y)
+          }}
+          onMouseUp={onDragEnd}
+        />
+      )}
+    </>
   )
 }
 
-// Component for a single column with divisions
-function ColumnWithDivisions({
-  width,
-  height,
+// Component for a single column spanning its compartment
+function ColumnPanel({
+  column,
   depth,
-  position,
-  divisions,
   material,
+  limited,
   showWireframe,
   thickness,
+  snap,
   onDrag,
   onDragEnd,
+  onSubdivide,
+  onSelect,
 }: {
-  width: number
-  height: number
+  column: Member
   depth: number
-  position: [number, number, number]
-  divisions: number
-  material: keyof typeof MATERIALS
+  material: MaterialName
+  limited: boolean // Held back by the minimum gap while dragged
   showWireframe: boolean
   thickness: number
+  snap: number // Step the drag moves by, in abstract units
   onDrag: (x: number) => void
   onDragEnd: () => void
+  onSubdivide: (delta: number) => void // Shift+scroll over the column
+  onSelect: () => void
 }) {
-  const columnRef = useRef<THREE.Mesh>(null)
-  const transformRef = useRef<any>(null)
-  const divisionThickness = thickness
-
-  // Create division meshes
-  const divisionMeshes = []
-  if (divisions > 1) {
-    const divisionHeight = height / divisions
-    for (let i = 1; i < divisions; i++) {
-      const divisionY = -height / 2 + i * divisionHeight
-      divisionMeshes.push(
-        <mesh key={`div-${i}`} position={[0, divisionY, 0]} material={MATERIALS[material]} castShadow receiveShadow>
-          <boxGeometry args={[divisionThickness, divisionThickness, depth]} />
-          {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
-        </mesh>,
-      )
-    }
-  }
+  // Kept in state rather than a ref, so the transform control attaches once the mesh is there
+  const [columnMesh, setColumnMesh] = useState<THREE.Mesh | null>(null)
 
-  // Handle transform control events
+  // Hold the column where it stopped when it's dragged past a limit
   useEffect(() => {
-    if (transformRef.current) {
-      const controls = transformRef.current
+    columnMesh?.position.set(column.center, column.start + column.span / 2, 0)
+  })
 
-      const handleDrag = () => {
-        if (columnRef.current) {
-          onDrag(columnRef.current.position.x)
-        }
-      }
+  return (
+    <>
+      {/* Main column */}
+      <mesh
+        ref={setColumnMesh}
+        position={[column.center, column.start + column.span / 2, 0]}
+        material={limited ? LIMITED_MATERIAL : getPanelMaterials(material, COLUMN_AXES.thickness)}
+        userData={{ material, thicknessAxis: COLUMN_AXES.thickness }}
+        castShadow
+        receiveShadow
+        name="column"
+        onWheel={(event) => handleSubdivideWheel(event, onSubdivide)}
+        onClick={(event) => {
+          event.stopPropagation()
+          onSelect()
+        }}
+      >
+        <PanelGeometry size={[thickness, column.span, depth]} axes={COLUMN_AXES} material={material} />
+        {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
+      </mesh>
 
-      const handleDragEnd = () => {
-        onDragEnd()
-      }
+      {/* Transform control for dragging */}
+      {columnMesh && (
+        <TransformControls
+          object={columnMesh}
+          mode="translate"
+          showY={false}
+          showZ={false}
+          size={0.5}
+          translationSnap={snap}
+          onObjectChange={() => {
+            onDrag(columnMesh.position.x)
+          }}
+          onMouseUp={onDragEnd}
+        />
+      )}
+    </>
+  )
+}
 
-      controls.addEventListener("dragging-changed", (event: { value: boolean }) => {
-        if (event.value) {
-          controls.addEventListener("objectChange", handleDrag)
-        } else {
-          controls.removeEventListener("objectChange", handleDrag)
-          handleDragEnd()
-        }
-      })
+// How far hole markers stand off the panel face, and how thick they are, in mm
+const HOLE_MARKER_OFFSET = 0.3
+const HOLE_MARKER_THICKNESS = 0.2
+const HOLE_MATERIAL = new THREE.MeshBasicMaterial({ color: "#1a1a1a" })
 
-      return () => {
-        controls.removeEventListener("dragging-changed", handleDrag)
-      }
-    }
-  }, [onDrag, onDragEnd])
+// Component for the drilled holes as dark discs on the faces they are drilled from, one instance per hole
+function DrillHoles({ holes }: { holes: DrilledHole[] }) {
+  const meshRef = useRef<THREE.InstancedMesh>(null)
 
+  useEffect(() => {
+    const mesh = meshRef.current
+    if (!mesh) return
+
+    const marker = new THREE.Object3D()
+    const up = new THREE.Vector3(0, 1, 0)
+    holes.forEach((hole, i) => {
+      const direction = new THREE.Vector3(...hole.direction)
+      const radius = hole.diameter / 2 / UNIT_TO_MM
+      marker.position
+        .set(...hole.center)
+        .addScaledVector(direction, -HOLE_MARKER_OFFSET)
+        .divideScalar(UNIT_TO_MM)
+      marker.quaternion.setFromUnitVectors(up, direction)
+      marker.scale.set(radius, HOLE_MARKER_THICKNESS / UNIT_TO_MM, radius)
+      marker.updateMatrix()
+      mesh.setMatrixAt(i, marker.matrix)
+    })
+    mesh.instanceMatrix.needsUpdate = true
+  }, [holes])
+
+  if (holes.length === 0) return null
+
+  // Remounted when the count changes, as an instanced mesh can't grow
   return (
-    <group position={position}>
-      {/* Main column - FIXED: Using full height instead of height - thickness*2 */}
-      <mesh ref={columnRef} material={MATERIALS[material]} castShadow receiveShadow name="column">
-        <boxGeometry args={[thickness, height, depth]} />
-        {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
-      </mesh>
+    <instancedMesh key={holes.length} ref={meshRef} args={[undefined, HOLE_MATERIAL, holes.length]} name="drill-holes">
+      <cylinderGeometry args={[1, 1, 1, 16]} />
+    </instancedMesh>
+  )
+}
 
-      {/* Division lines */}
-      {divisionMeshes}
+// How far doors and flaps swing open, and how far drawers pull out of their box
+const DOOR_OPEN_ANGLE = (100 * Math.PI) / 180
+const FLAP_OPEN_ANGLE = Math.PI / 2
+const DRAWER_OPEN_RATIO = 0.75
 
-      {/* Transform control for dragging */}
-      <TransformControls
-        ref={transformRef}
-        object={columnRef}
-        mode="translate"
-        showY={false}
-        showZ={false}
-        size={0.5}
-        translationSnap={0.1}
-      />
+// Component for a door, drawer or flap, clicked to open or close it
+function FrontPanelMesh({
+  front,
+  depth,
+  drawerBox,
+  material,
+  boxMaterial,
+  showWireframe,
+  thickness,
+  onSelect,
+}: {
+  front: FrontPanel
+  depth: number
+  drawerBox: DrawerBox | null
+  material: MaterialName
+  boxMaterial: MaterialName // Board of the drawer box
+  showWireframe: boolean
+  thickness: number
+  onSelect: () => void
+}) {
+  const moveRef = useRef<THREE.Group>(null)
+  const openAmount = useRef(0)
+  const [isOpen, setIsOpen] = useState(false)
+
+  const { left, right, bottom, top } = front.box
+  const frontWidth = right - left
+  const frontHeight = top - bottom
+
+  // The front swings or slides from its hinged edge, or its centre for drawers, on the front of the carcass
+  const pivot: [number, number, number] =
+    front.hinge === "left"
+      ? [left, (bottom + top) / 2, depth / 2]
+      : front.hinge === "right"
+        ? [right, (bottom + top) / 2, depth / 2]
+        : front.hinge === "bottom"
+          ? [(left + right) / 2, bottom, depth / 2]
+          : [(left + right) / 2, (bottom + top) / 2, depth / 2]
+  const offset: [number, number, number] =
+    front.hinge === "left"
+      ? [frontWidth / 2, 0, -thickness / 2]
+      : front.hinge === "right"
+        ? [-frontWidth / 2, 0, -thickness / 2]
+        : front.hinge === "bottom"
+          ? [0, frontHeight / 2, -thickness / 2]
+          : [0, 0, -thickness / 2]
+
+  // Ease towards open or closed
+  useFrame((_, delta) => {
+    const group = moveRef.current
+    if (!group) return
+
+    openAmount.current += ((isOpen ? 1 : 0) - openAmount.current) * Math.min(1, delta * 6)
+    const amount = openAmount.current
+    if (front.hinge === "left") group.rotation.y = -amount * DOOR_OPEN_ANGLE
+    else if (front.hinge === "right") group.rotation.y = amount * DOOR_OPEN_ANGLE
+    else if (front.hinge === "bottom") group.rotation.x = amount * FLAP_OPEN_ANGLE
+    else if (drawerBox) group.position.z = (amount * DRAWER_OPEN_RATIO * drawerBox.depth) / UNIT_TO_MM
+  })
+
+  // Doors have the grain running up, drawer fronts and flaps across, as in the cut list
+  const axes = getPanelAxes(front.kind)
+
+  // Drawer box behind the front, in abstract units
+  const box = drawerBox && {
+    width: drawerBox.width / UNIT_TO_MM,
+    height: drawerBox.height / UNIT_TO_MM,
+    depth: drawerBox.depth / UNIT_TO_MM,
+  }
+
+  return (
+    <group position={pivot}>
+      <group
+        ref={moveRef}
+        onClick={(event) => {
+          event.stopPropagation()
+          setIsOpen((prev) => !prev)
+          onSelect()
+        }}
+      >
+        <mesh
+          position={offset}
+          material={getPanelMaterials(material, axes.thickness)}
+          userData={{ material, thicknessAxis: axes.thickness }}
+          castShadow
+          receiveShadow
+          name={front.kind}
+        >
+          <PanelGeometry size={[frontWidth, frontHeight, thickness]} axes={axes} material={material} />
+          {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
+        </mesh>
+
+        {/* Drawer box: sides, front and back between them, and the bottom */}
+        {box &&
+          (
+            [
+              [
+                [-box.width / 2 + thickness / 2, 0, -thickness - box.depth / 2],
+                [thickness, box.height, box.depth],
+                DRAWER_BOX_AXES.side,
+              ],
+              [
+                [box.width / 2 - thickness / 2, 0, -thickness - box.depth / 2],
+                [thickness, box.height, box.depth],
+                DRAWER_BOX_AXES.side,
+              ],
+              [[0, 0, -thickness * 1.5], [box.width - thickness * 2, box.height, thickness], DRAWER_BOX_AXES.end],
+              [
+                [0, 0, -thickness / 2 - box.depth],
+                [box.width - thickness * 2, box.height, thickness],
+                DRAWER_BOX_AXES.end,
+              ],
+              [
+                [0, -box.height / 2 + thickness / 2, -thickness - box.depth / 2],
+                [box.width - thickness * 2, thickness, box.depth - thickness * 2],
+                DRAWER_BOX_AXES.bottom,
+              ],
+            ] as Array<[[number, number, number], [number, number, number], GrainAxes]>
+          ).map(([position, size, boxAxes], i) => (
+            <mesh
+              key={i}
+              position={position}
+              material={getPanelMaterials(boxMaterial, boxAxes.thickness)}
+              userData={{ material: boxMaterial, thicknessAxis: boxAxes.thickness }}
+              castShadow
+              receiveShadow
+              name="drawer-box"
+            >
+              <PanelGeometry size={size} axes={boxAxes} material={boxMaterial} />
+            </mesh>
+          ))}
+      </group>
     </group>
   )
 }
 
-// Main shelving unit component with export capability
+// Main shelving unit component, exported to 3D model files by name
 function ShelvingUnitModel({
   unit,
+  sheet,
+  selectedCompartmentId,
+  subdividedCompartmentId,
+  limitedMemberId,
+  selectedPanelId,
+  overloadedShelfIds,
   onShelfDrag,
   onShelfDragEnd,
   onColumnDrag,
   onColumnDragEnd,
+  onSubdivide,
+  onSelectPanel,
 }: {
   unit: ShelvingUnitState
-  onShelfDrag: (id: string, y: number) => void
+  sheet: { paper: PaperName; projection: Projection; projectName: string } // Sheet the technical views are drawn on
+  selectedCompartmentId: string | null
+  subdividedCompartmentId: string | null // Opening being divided by a Shift+scroll
+  limitedMemberId: string | null // Shelf or column held back by the minimum gap while dragged
+  selectedPanelId: string | null // Panel shown in the inspector
+  overloadedShelfIds: Set<string>
+  onShelfDrag: (id: string, position: number) => void
   onShelfDragEnd: () => void
-  onColumnDrag: (id: string, x: number) => void
+  onColumnDrag: (id: string, position: number) => void
   onColumnDragEnd: () => void
+  onSubdivide: (id: string, delta: number) => void
+  onSelectPanel: (id: string) => void
 }) {
-  const { width, height, depth, thickness, shelves, columns, showWireframe, showDimensions, material, viewMode } = unit
+  const {
+    width,
+    height,
+    depth,
+    thickness,
+    showWireframe,
+    showDimensions,
+    showDrilling,
+    dimensionStyle,
+    viewMode,
+    unitSystem,
+    backPanel,
+  } = unit
   const modelRef = useRef<THREE.Group>(null)
 
-  // Create shelf components
-  const shelfComponents = shelves.map((shelf) => {
-    const yPosition = -height / 2 + shelf.position * height
-    return (
-      <ShelfWithDivisions
+  // Work out where every shelf, column and front sits in the compartment tree
+  const { compartments, members } = useMemo(() => layoutCompartments(unit), [unit])
+  const fronts = useMemo(() => layoutFronts(unit), [unit])
+  const openings = useMemo(() => getOpeningDimensions(unit, dimensionStyle), [unit, dimensionStyle])
+  const section = useMemo(() => createSection(unit, getSectionPlane(unit, unit.sectionMemberId)), [unit])
+
+  // Holes for shelf pins and fittings, drawn on the panels in 3D
+  const holes = useMemo(() => getDrilledHoles(unit), [unit])
+
+  // Grooves and holes of the joinery, seen as hidden lines in the technical views
+  const joinery = useMemo(() => {
+    const features = getJointFeatures(unit)
+    return {
+      front: getJointOutlines(features, "front"),
+      side: getJointOutlines(features, "side"),
+      sideHoles: getSideHoleCircles(holes),
+      note: `Joinery: ${describeJoinery(unit)}`,
+    }
+  }, [unit, holes])
+
+  // Arrange the technical views on the sheet, with centres converted back to abstract units
+  const sheetLayout = useMemo(
+    () =>
+      layoutSheet(
+        [
+          { name: "front", width: toMM(width), height: toMM(height) },
+          { name: "top", width: toMM(width), height: toMM(depth) },
+          { name: "side", width: toMM(depth), height: toMM(height) },
+          { name: "section", width: section.width, height: section.height },
+        ],
+        sheet.paper,
+        sheet.projection,
+        VIEW_ANNOTATION_MARGIN,
+      ),
+    [width, height, depth, section, sheet.paper, sheet.projection],
+  )
+  const viewPositions = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(sheetLayout.centers).map(([name, [x, y]]) => [name, [x / UNIT_TO_MM, y / UNIT_TO_MM]]),
+      ) as Record<ViewName, [number, number]>,
+    [sheetLayout],
+  )
+  const selectedBox = compartments.find((laidOut) => laidOut.compartment.id === selectedCompartmentId)?.box
+  const subdividedBox = compartments.find((laidOut) => laidOut.compartment.id === subdividedCompartmentId)?.box
+  const selectedPanel = useMemo(
+    () => getPanelBoxes(unit).find((box) => box.id === selectedPanelId),
+    [unit, selectedPanelId],
+  )
+
+  // Clicking a panel shows it in the inspector, without reaching whatever is behind it
+  const selectPanel = (id: string) => (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation()
+    onSelectPanel(id)
+  }
+
+  // Board of each carcass panel, by its role
+  const carcassMaterials = {
+    top: getPanelMaterial(unit, "top"),
+    bottom: getPanelMaterial(unit, "bottom"),
+    side: getPanelMaterial(unit, "side"),
+    back: getPanelMaterial(unit, "back"),
+  }
+
+  // A full back covers the back of the carcass, which is one thickness shallower to make room for it
+  const carcassDepth = backPanel === "full" ? depth - thickness : depth
+  const carcassZ = backPanel === "full" ? thickness / 2 : 0
+
+  // Shelves and columns are dragged a millimeter, or a sixteenth of an inch, at a time
+  const dragSnap = getDragStep(unitSystem) / UNIT_TO_MM
+
+  // Create shelf components, dragged within the compartment they divide
+  const shelfComponents = members
+    .filter((member) => member.kind === "shelf")
+    .map((shelf) => (
+      <ShelfPanel
         key={shelf.id}
-        width={width - thickness * 2}
-        height={height}
+        shelf={shelf}
         depth={depth - thickness * 2}
-        position={[0, yPosition, 0]}
-        divisions={shelf.divisions}
-        material={material}
+        material={getPanelMaterial(unit, "shelf", shelf.material)}
+        overloaded={overloadedShelfIds.has(shelf.id)}
+        limited={limitedMemberId === shelf.id}
         showWireframe={showWireframe}
         thickness={thickness}
+        snap={dragSnap}
         onDrag={(y) => {
-          const normalizedY = (y + height / 2) / height
-          onShelfDrag(shelf.id, normalizedY)
+          const { bottom, top } = shelf.parentBox
+          onShelfDrag(shelf.id, (y - bottom) / (top - bottom))
         }}
         onDragEnd={onShelfDragEnd}
+        onSubdivide={(delta) => onSubdivide(shelf.id, delta)}
+        onSelect={() => onSelectPanel(`shelf-${shelf.id}`)}
       />
-    )
-  })
+    ))
 
-  // Create column components
-  const columnComponents = columns.map((column) => {
-    const xPosition = -width / 2 + column.position * width
-    return (
-      <ColumnWithDivisions
+  // Create column components, dragged within the compartment they divide
+  const columnComponents = members
+    .filter((member) => member.kind === "column")
+    .map((column) => (
+      <ColumnPanel
         key={column.id}
-        width={width}
-        height={height} // FIXED: Using full height instead of height - thickness*2
+        column={column}
         depth={depth - thickness * 2}
-        position={[xPosition, 0, 0]} // FIXED: Centered vertically
-        divisions={column.divisions}
-        material={material}
+        material={getPanelMaterial(unit, "column", column.material)}
+        limited={limitedMemberId === column.id}
         showWireframe={showWireframe}
         thickness={thickness}
+        snap={dragSnap}
         onDrag={(x) => {
-          const normalizedX = (x + width / 2) / width
-          onColumnDrag(column.id, normalizedX)
+          const { left, right } = column.parentBox
+          onColumnDrag(column.id, (x - left) / (right - left))
         }}
         onDragEnd={onColumnDragEnd}
+        onSubdivide={(delta) => onSubdivide(column.id, delta)}
+        onSelect={() => onSelectPanel(`column-${column.id}`)}
       />
-    )
-  })
+    ))
 
   return (
     <group ref={modelRef} name="shelving-unit">
       {viewMode === "3d" ? (
         <>
           {/* Bottom */}
-          <mesh position={[0, -height / 2, 0]} material={MATERIALS[material]} castShadow receiveShadow name="bottom">
-            <boxGeometry args={[width, thickness, depth]} />
+          <mesh
+            position={[0, -height / 2 + thickness / 2, carcassZ]}
+            material={getPanelMaterials(carcassMaterials.bottom, CARCASS_AXES.bottom.thickness)}
+            userData={{ material: carcassMaterials.bottom, thicknessAxis: CARCASS_AXES.bottom.thickness }}
+            castShadow
+            receiveShadow
+            name="bottom"
+            onClick={selectPanel("bottom")}
+          >
+            <PanelGeometry
+              size={[width, thickness, carcassDepth]}
+              axes={CARCASS_AXES.bottom}
+              material={carcassMaterials.bottom}
+            />
             {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
           </mesh>
 
           {/* Top */}
-          <mesh position={[0, height / 2, 0]} material={MATERIALS[material]} castShadow receiveShadow name="top">
-            <boxGeometry args={[width, thickness, depth]} />
-            {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
-          </mesh>
-
-          {/* Left side */}
           <mesh
-            position={[-width / 2 + thickness / 2, 0, 0]}
-            material={MATERIALS[material]}
+            position={[0, height / 2 - thickness / 2, carcassZ]}
+            material={getPanelMaterials(carcassMaterials.top, CARCASS_AXES.top.thickness)}
+            userData={{ material: carcassMaterials.top, thicknessAxis: CARCASS_AXES.top.thickness }}
             castShadow
             receiveShadow
-            name="left-side"
+            name="top"
+            onClick={selectPanel("top")}
           >
-            <boxGeometry args={[thickness, height, depth]} />
+            <PanelGeometry
+              size={[width, thickness, carcassDepth]}
+              axes={CARCASS_AXES.top}
+              material={carcassMaterials.top}
+            />
             {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
           </mesh>
 
-          {/* Right side */}
+          {/* Left side, between the top and bottom */}
           <mesh
-            position={[width / 2 - thickness / 2, 0, 0]}
-            material={MATERIALS[material]}
+            position={[-width / 2 + thickness / 2, 0, carcassZ]}
+            material={getPanelMaterials(carcassMaterials.side, CARCASS_AXES.side.thickness)}
+            userData={{ material: carcassMaterials.side, thicknessAxis: CARCASS_AXES.side.thickness }}
             castShadow
             receiveShadow
-            name="right-side"
+            name="left-side"
+            onClick={selectPanel("left-side")}
           >
-            <boxGeometry args={[thickness, height, depth]} />
+            <PanelGeometry
+              size={[thickness, height - thickness * 2, carcassDepth]}
+              axes={CARCASS_AXES.side}
+              material={carcassMaterials.side}
+            />
             {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
           </mesh>
 
-          {/* Back */}
+          {/* Right side, between the top and bottom */}
           <mesh
-            position={[0, 0, -depth / 2 + thickness / 2]}
-            material={MATERIALS[material]}
+            position={[width / 2 - thickness / 2, 0, carcassZ]}
+            material={getPanelMaterials(carcassMaterials.side, CARCASS_AXES.side.thickness)}
+            userData={{ material: carcassMaterials.side, thicknessAxis: CARCASS_AXES.side.thickness }}
             castShadow
             receiveShadow
-            name="back"
+            name="right-side"
+            onClick={selectPanel("right-side")}
           >
-            <boxGeometry args={[width, height, thickness]} />
+            <PanelGeometry
+              size={[thickness, height - thickness * 2, carcassDepth]}
+              axes={CARCASS_AXES.side}
+              material={carcassMaterials.side}
+            />
             {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
           </mesh>
 
-          {/* Shelves with divisions */}
+          {/* Back, inset between the sides, top and bottom or covering the whole carcass */}
+          {backPanel !== "none" && (
+            <mesh
+              position={[0, 0, -depth / 2 + thickness / 2]}
+              material={getPanelMaterials(carcassMaterials.back, CARCASS_AXES.back.thickness)}
+              userData={{ material: carcassMaterials.back, thicknessAxis: CARCASS_AXES.back.thickness }}
+              castShadow
+              receiveShadow
+              name="back"
+              onClick={selectPanel("back")}
+            >
+              <PanelGeometry
+                size={
+                  backPanel === "full"
+                    ? [width, height, thickness]
+                    : [width - thickness * 2, height - thickness * 2, thickness]
+                }
+                axes={CARCASS_AXES.back}
+                material={carcassMaterials.back}
+              />
+              {showWireframe && <meshBasicMaterial wireframe color="white" transparent opacity={0.3} />}
+            </mesh>
+          )}
+
+          {/* Shelves */}
           {shelfComponents}
 
-          {/* Columns with divisions */}
+          {/* Columns */}
           {columnComponents}
 
+          {/* Holes for shelf pins and fittings */}
+          {showDrilling && <DrillHoles holes={holes} />}
+
+          {/* Doors, drawers and flaps */}
+          {fronts.map((front) => (
+            <FrontPanelMesh
+              key={front.id}
+              front={front}
+              depth={depth}
+              drawerBox={front.kind === "drawer-front" ? getDrawerBox(front, unit) : null}
+              material={getPanelMaterial(unit, front.kind, front.material)}
+              boxMaterial={getPanelMaterial(unit, "drawer-box")}
+              showWireframe={showWireframe}
+              thickness={thickness}
+              onSelect={() => onSelectPanel(front.id)}
+            />
+          ))}
+
+          {/* Highlight of the selected compartment */}
+          {selectedBox && (
+            <mesh
+              position={[(selectedBox.left + selectedBox.right) / 2, (selectedBox.bottom + selectedBox.top) / 2, 0]}
+              name="selection"
+            >
+              <boxGeometry
+                args={[
+                  selectedBox.right - selectedBox.left,
+                  selectedBox.top - selectedBox.bottom,
+                  depth - thickness * 2,
+                ]}
+              />
+              <meshBasicMaterial color="#4a9eff" transparent opacity={0.15} depthWrite={false} />
+            </mesh>
+          )}
+
+          {/* Highlight of the panel in the inspector */}
+          {selectedPanel && (
+            <mesh
+              position={selectedPanel.min.map((min, i) => (min + selectedPanel.max[i]) / 2 / UNIT_TO_MM) as Vector3}
+              name="panel-selection"
+            >
+              <boxGeometry
+                args={
+                  selectedPanel.max.map(
+                    (max, i) => (max - selectedPanel.min[i] + SELECTION_MARGIN * 2) / UNIT_TO_MM,
+                  ) as Vector3
+                }
+              />
+              <meshBasicMaterial color="#4a9eff" transparent opacity={0.4} depthWrite={false} />
+            </mesh>
+          )}
+
+          {/* Opening being divided, while Shift is held */}
+          {subdividedBox && (
+            <mesh
+              position={[
+                (subdividedBox.left + subdividedBox.right) / 2,
+                (subdividedBox.bottom + subdividedBox.top) / 2,
+                0,
+              ]}
+              name="subdivision"
+            >
+              <boxGeometry
+                args={[
+                  subdividedBox.right - subdividedBox.left,
+                  subdividedBox.top - subdividedBox.bottom,
+                  depth - thickness * 2,
+                ]}
+              />
+              <meshBasicMaterial color="#ffa04a" transparent opacity={0.2} depthWrite={false} />
+            </mesh>
+          )}
+
           {/* Dimension labels */}
-          {showDimensions && <DimensionLabels width={width} height={height} depth={depth} thickness={thickness} />}
+          {showDimensions && (
+            <DimensionLabels
+              width={width}
+              height={height}
+              depth={depth}
+              thickness={thickness}
+              openings={openings}
+              unitSystem={unitSystem}
+            />
+          )}
         </>
       ) : (
-        // Orthographic views mode
-        <OrthographicViews
-          width={width}
-          height={height}
-          depth={depth}
-          thickness={thickness}
-          shelves={shelves}
-          columns={columns}
-          material={material}
-        />
+        // Orthographic views mode, drawn to scale on a sheet
+        <DrawingSheet
+          layout={sheetLayout}
+          paperName={sheet.paper}
+          projection={sheet.projection}
+          projectName={sheet.projectName}
+        >
+          <OrthographicViews
+            width={width}
+            height={height}
+            depth={depth}
+            thickness={thickness}
+            members={members}
+            fronts={fronts}
+            openings={showDimensions ? openings : []}
+            section={section}
+            joinery={joinery}
+            positions={viewPositions}
+            unitSystem={unitSystem}
+            material={unit.material}
+          />
+        </DrawingSheet>
       )}
     </group>
   )
 }
 
+// Nested list of the compartment tree, for choosing the compartment to edit
+function CompartmentTree({
+  compartment,
+  label,
+  boxes,
+  selectedId,
+  unitSystem,
+  onSelect,
+}: {
+  compartment: Compartment
+  label: string
+  boxes: Map<string, CompartmentBox>
+  selectedId: string
+  unitSystem: UnitSystem
+  onSelect: (id: string) => void
+}) {
+  const box = boxes.get(compartment.id)
+  const childLabel = compartment.split === "horizontal" ? "Row" : "Bay"
+
+  return (
+    <div>
+      <button
+        className={cn(
+          "w-full flex justify-between text-left text-sm px-3 py-1.5 rounded",
+          compartment.id === selectedId ? "bg-gray-700 text-white" : "text-gray-300 hover:bg-gray-800",
+        )}
+        onClick={() => onSelect(compartment.id)}
+      >
+        <span>{label}</span>
+        {box && (
+          <span className="text-gray-400">
+            {formatLength(toMM(box.right - box.left), unitSystem)} ×{" "}
+            {formatLength(toMM(box.top - box.bottom), unitSystem)}
+          </span>
+        )}
+      </button>
+      {compartment.children.length > 0 && (
+        <div className="pl-4 border-l border-gray-800 ml-2">
+          {compartment.children.map((child, i) => (
+            <CompartmentTree
+              key={child.id}
+              compartment={child}
+              label={`${childLabel} ${i + 1}`}
+              boxes={boxes}
+              selectedId={selectedId}
+              unitSystem={unitSystem}
+              onSelect={onSelect}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Scene setup with lighting and camera
-function Scene({ children, viewMode }: { children: React.ReactNode; viewMode: "3d" | "orthographic" }) {
+function Scene({
+  children,
+  viewMode,
+  paper,
+  enableZoom,
+}: {
+  children: React.ReactNode
+  viewMode: "3d" | "orthographic"
+  paper: PaperSize // Sheet the orthographic camera is fitted to
+  enableZoom: boolean // Off while Shift+scroll divides openings
+}) {
   return (
     <>
       <color attach="background" args={["#1a1a1a"]} />
@@ -482,48 +1004,156 @@ function Scene({ children, viewMode }: { children: React.ReactNode; viewMode: "3
           <gridHelper args={[20, 20, "#444444", "#222222"]} />
           <Environment preset="warehouse" />
           {children}
-          <OrbitControls makeDefault enableDamping dampingFactor={0.1} />
+          <OrbitControls makeDefault enableDamping dampingFactor={0.1} enableZoom={enableZoom} />
         </>
       ) : (
-        // Orthographic technical drawing view
+        // Orthographic technical drawing view, fitted to the sheet
         <>
-          <OrthographicCamera makeDefault position={[0, 0, 10]} zoom={50} />
+          <SheetCamera paper={paper} />
           <ambientLight intensity={0.8} />
           <directionalLight position={[0, 0, 5]} intensity={0.5} />
           {children}
-          <OrbitControls makeDefault enableRotate={false} enablePan={true} enableZoom={true} />
+          <OrbitControls makeDefault enableRotate={false} enablePan={true} enableZoom={enableZoom} />
         </>
       )}
     </>
   )
 }
 
-// Thickness presets in inches and mm
+// Scroll distance for one more or one fewer opening when dividing with Shift+scroll
+const WHEEL_STEP = 100
+
+// Room around every technical view for its dimensions and title, in full size mm
+const VIEW_ANNOTATION_MARGIN = 400
+
+// Thickness presets in inches and mm, as abstract units
 const THICKNESS_PRESETS = [
-  { name: '1/4" (6mm)', value: 0.06 },
-  { name: '1/2" (12mm)', value: 0.12 },
-  { name: '3/4" (19mm)', value: 0.19 },
-  { name: '1" (25mm)', value: 0.25 },
+  { name: '1/4" (6mm)', value: 6 / UNIT_TO_MM },
+  { name: '1/2" (12mm)', value: 12 / UNIT_TO_MM },
+  { name: '3/4" (19mm)', value: 19 / UNIT_TO_MM },
+  { name: '1" (25mm)', value: 25 / UNIT_TO_MM },
 ]
 
+// View settings are kept as they are when stepping through the undo history
+const keepViewSettings = (restored: ShelvingUnitState, current: ShelvingUnitState): ShelvingUnitState => ({
+  ...restored,
+  showWireframe: current.showWireframe,
+  showDimensions: current.showDimensions,
+  showDrilling: current.showDrilling,
+  dimensionStyle: current.dimensionStyle,
+  viewMode: current.viewMode,
+  sectionMemberId: current.sectionMemberId,
+  unitSystem: current.unitSystem,
+})
+
 // Main component
-export default function ShelvingUnitPro() {
-  // State for the shelving unit
-  const [unit, setUnit] = useState<ShelvingUnitState>({
-    width: 3,
-    height: 2,
-    depth: 1,
-    thickness: 0.05,
-    shelves: LAYOUTS.basic.shelves,
-    columns: LAYOUTS.basic.columns,
-    showWireframe: false,
-    showDimensions: true,
-    viewMode: "3d",
-    material: "wood",
-  })
+export default function ShelvingUnitPro({ sharedDesign }: { sharedDesign?: ParseDesignResult }) {
+  // State for the shelving unit, with undo/redo history
+  // A design opened from a shared link takes the place of the defaults
+  const history = useHistory<ShelvingUnitState>(
+    sharedDesign?.success
+      ? sharedDesign.unit
+      : {
+          width: 3,
+          height: 2,
+          depth: 1,
+          thickness: 0.05,
+          layout: LAYOUTS.basic(),
+          backPanel: "inset",
+          joinery: DEFAULT_JOINERY,
+          edgeBanding: {},
+          showWireframe: false,
+          showDimensions: true,
+          showDrilling: true,
+          dimensionStyle: "overall",
+          viewMode: "3d",
+          sectionMemberId: null,
+          unitSystem: "mm",
+          material: "wood",
+          roleMaterials: {},
+        },
+    keepViewSettings,
+  )
+  const {
+    present: unit,
+    commit: setUnit,
+    preview: previewUnit,
+    commitPreview,
+    cancelPreview,
+    replace: setViewSettings,
+    undo,
+    redo,
+  } = history
+
+  // Stock sheet and saw settings for nesting the cut list
+  const [nestingOptions, setNestingOptions] = useState<NestingOptions>(DEFAULT_NESTING_OPTIONS)
+  const [showSheetLayout, setShowSheetLayout] = useState(true)
+
+  // Nest the panels onto stock sheets whenever the design or the settings change
+  const panels = useMemo(() => derivePanels(unit), [unit])
+  const nesting = useMemo(() => nestPanels(panels, nestingOptions), [panels, nestingOptions])
+
+  // Router settings, the sheets nested again with room for the bit between the pieces, and the toolpaths of
+  // every one of them, worked out only while they are previewed
+  const [cncOptions, setCncOptions] = useState<CncOptions>(DEFAULT_CNC_OPTIONS)
+  const [showToolpaths, setShowToolpaths] = useState(false)
+  const routerNesting = useMemo(
+    () => nestPanels(panels, getRouterNestingOptions(nestingOptions, cncOptions)),
+    [panels, nestingOptions, cncOptions],
+  )
+  const toolpaths = useMemo(
+    () => (showToolpaths ? createSheetToolpaths(unit, routerNesting, cncOptions) : []),
+    [showToolpaths, unit, routerNesting, cncOptions],
+  )
 
-  // Track drag distance for subdivision calculation
-  const [dragStartPosition, setDragStartPosition] = useState<Record<string, number>>({})
+  // Workshop prices, and the live cost of the design
+  const [costCatalog, setCostCatalog] = useState<CostCatalog>(DEFAULT_COST_CATALOG)
+  const hasLoadedCostCatalog = useRef(false)
+  const catalogInputRef = useRef<HTMLInputElement>(null)
+  const costEstimate = useMemo(
+    () => estimateCost({ panels, nesting, hardware: deriveHardware(unit) }, costCatalog),
+    [panels, nesting, unit, costCatalog],
+  )
+
+  // Compartment that shelves and columns are added to, and split or merged
+  const [selectedCompartmentId, setSelectedCompartmentId] = useState(unit.layout.id)
+  const selectedCompartment = findCompartment(unit.layout, selectedCompartmentId) ?? unit.layout
+  const drawerCount = selectedCompartment.front?.type === "drawers" ? selectedCompartment.front.count : 0
+
+  // Panel clicked in the 3D view, shown in the inspector
+  const [selectedPanelId, setSelectedPanelId] = useState<string | null>(null)
+
+  // Minimum gap kept between shelves and columns while dragging, and the member last held back by it
+  const [clearanceOptions, setClearanceOptions] = useState<ClearanceOptions>(DEFAULT_CLEARANCE_OPTIONS)
+  const [limitedMemberId, setLimitedMemberId] = useState<string | null>(null)
+
+  // Opening being divided by Shift+scroll over a shelf or column, previewed from the design as it was before
+  const [subdivision, setSubdivisionGesture] = useState<{
+    dividerId: string
+    base: ShelvingUnitState
+    count: number
+  } | null>(null)
+  const [isShiftHeld, setIsShiftHeld] = useState(false)
+  const wheelDelta = useRef(0)
+
+  // Clear boxes of every compartment, and shelf and column counts
+  const compartmentBoxes = useMemo(
+    () => new Map(layoutCompartments(unit).compartments.map(({ compartment, box }) => [compartment.id, box])),
+    [unit],
+  )
+  const dividerCounts = countDividers(unit.layout)
+
+  // Shelves and columns the section line can be drawn through
+  const sectionMembers = useMemo(() => nameMembers(layoutCompartments(unit).members), [unit])
+
+  // Load carried by every shelf, and how far each shelf sags under it
+  const [shelfLoad, setShelfLoad] = useState<ShelfLoad>(DEFAULT_SHELF_LOAD)
+  const shelfAnalysis = useMemo(() => analyzeShelves(unit, shelfLoad), [unit, shelfLoad])
+  const overloadedShelves = shelfAnalysis.filter((result) => result.overloaded)
+  const overloadedShelfIds = useMemo(
+    () => new Set(shelfAnalysis.filter((result) => result.overloaded).map((result) => result.shelf.id)),
+    [shelfAnalysis],
+  )
 
   // UI states
   const [showControls, setShowControls] = useState(false)
@@ -532,6 +1162,103 @@ export default function ShelvingUnitPro() {
   // Check if we're on mobile
   const [isMobile, setIsMobile] = useState(false)
 
+  // Whether the stored design has been restored, so autosave can't overwrite it first
+  const hasRestoredDesign = useRef(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Project name and paper size printed on the PDF drawing set
+  const [projectName, setProjectName] = useState("Shelving Unit")
+  const [drawingPaper, setDrawingPaper] = useState<DrawingSetOptions["paper"]>("A3")
+  const [drawingProjection, setDrawingProjection] = useState<Projection>("third-angle")
+  const sceneRef = useRef<THREE.Scene>(null)
+
+  // Show why a design couldn't be opened
+  const reportInvalidDesign = (result: ParseDesignResult, source: string) => {
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: `Couldn't open design from ${source}`,
+        description: (
+          <ul className="list-disc pl-4">
+            {result.errors.slice(0, 5).map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        ),
+      })
+    }
+  }
+
+  // Restore the last design from localStorage on mount, unless the page was opened from a shared link
+  useEffect(() => {
+    if (sharedDesign) {
+      reportInvalidDesign(sharedDesign, "link")
+      hasRestoredDesign.current = true
+      return
+    }
+
+    const result = loadDesignFromStorage()
+    if (result) {
+      if (result.success) {
+        history.reset(result.unit, "Restored design")
+      } else {
+        reportInvalidDesign(result, "browser storage")
+      }
+    }
+    hasRestoredDesign.current = true
+  }, [])
+
+  // Restore the workshop's cost catalog
+  useEffect(() => {
+    const catalog = loadCostCatalogFromStorage()
+    if (catalog) setCostCatalog(catalog)
+    hasLoadedCostCatalog.current = true
+  }, [])
+
+  // Keep the cost catalog in localStorage whenever it changes
+  useEffect(() => {
+    if (hasLoadedCostCatalog.current) {
+      saveCostCatalogToStorage(costCatalog)
+    }
+  }, [costCatalog])
+
+  // Autosave the design to localStorage whenever it changes
+  useEffect(() => {
+    if (hasRestoredDesign.current) {
+      saveDesignToStorage(unit)
+    }
+  }, [unit])
+
+  // Keep the address bar in sync with the design so it can be shared at any time
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      window.history.replaceState(window.history.state, "", createDesignUrl(unit, window.location.href))
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [unit])
+
+  // Undo with Ctrl+Z, redo with Ctrl+Shift+Z or Ctrl+Y
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return
+      if (!event.ctrlKey && !event.metaKey) return
+
+      const key = event.key.toLowerCase()
+      if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault()
+        redo()
+      } else if (key === "z") {
+        event.preventDefault()
+        undo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
+
   // Check screen size on mount and resize
   useEffect(() => {
     const checkMobile = () => {
@@ -548,235 +1275,228 @@ export default function ShelvingUnitPro() {
     return () => window.removeEventListener("resize", checkMobile)
   }, [])
 
-  // Handle shelf drag
-  const handleShelfDrag = (id: string, normalizedY: number) => {
-    // Store initial position if this is the start of the drag
-    if (!dragStartPosition[id]) {
-      setDragStartPosition((prev) => ({
-        ...prev,
-        [id]: unit.shelves.find((s) => s.id === id)?.position || 0,
-      }))
-    }
-
-    // Update shelf position
-    setUnit((prev) => ({
-      ...prev,
-      shelves: prev.shelves.map((shelf) => {
-        if (shelf.id === id) {
-          // Calculate drag distance as percentage of height
-          const startPos = dragStartPosition[id] || shelf.position
-          const dragDistance = Math.abs(normalizedY - startPos)
-
-          // Calculate divisions based on drag distance
-          // The further the drag, the more divisions
-          let newDivisions = 1
-          if (dragDistance > 0.05) newDivisions = 2
-          if (dragDistance > 0.1) newDivisions = 3
-          if (dragDistance > 0.15) newDivisions = 4
-          if (dragDistance > 0.2) newDivisions = 5
-
-          return {
-            ...shelf,
-            position: normalizedY,
-            divisions: newDivisions,
-          }
-        }
-        return shelf
-      }),
-    }))
+  // Handle shelf drag, with the position as a percentage of the compartment it divides
+  const handleShelfDrag = (id: string, position: number) => {
+    // Update shelf position within the minimum gaps, recorded in the history when the drag ends
+    const move = constrainDividerMove(unit, id, position, clearanceOptions)
+    previewUnit(move.unit)
+    setLimitedMemberId(move.limited ? id : null)
   }
 
-  // Handle column drag
-  const handleColumnDrag = (id: string, normalizedX: number) => {
-    // Store initial position if this is the start of the drag
-    if (!dragStartPosition[id]) {
-      setDragStartPosition((prev) => ({
-        ...prev,
-        [id]: unit.columns.find((c) => c.id === id)?.position || 0,
-      }))
-    }
-
-    // Update column position
-    setUnit((prev) => ({
-      ...prev,
-      columns: prev.columns.map((column) => {
-        if (column.id === id) {
-          // Calculate drag distance as percentage of width
-          const startPos = dragStartPosition[id] || column.position
-          const dragDistance = Math.abs(normalizedX - startPos)
-
-          // Calculate divisions based on drag distance
-          let newDivisions = 1
-          if (dragDistance > 0.05) newDivisions = 2
-          if (dragDistance > 0.1) newDivisions = 3
-          if (dragDistance > 0.15) newDivisions = 4
-          if (dragDistance > 0.2) newDivisions = 5
-
-          return {
-            ...column,
-            position: normalizedX,
-            divisions: newDivisions,
-          }
-        }
-        return column
-      }),
-    }))
+  // Handle column drag, with the position as a percentage of the compartment it divides
+  const handleColumnDrag = (id: string, position: number) => {
+    // Update column position within the minimum gaps, recorded in the history when the drag ends
+    const move = constrainDividerMove(unit, id, position, clearanceOptions)
+    previewUnit(move.unit)
+    setLimitedMemberId(move.limited ? id : null)
   }
 
-  // Handle end of drag
-  const handleDragEnd = () => {
-    // Reset drag start positions
-    setDragStartPosition({})
+  // Handle end of shelf drag
+  const handleShelfDragEnd = () => {
+    commitPreview("Move shelf")
+    setLimitedMemberId(null)
   }
 
-  // Add a new shelf
-  const addShelf = () => {
-    // Find a good position for the new shelf
-    const existingPositions = unit.shelves.map((s) => s.position).sort((a, b) => a - b)
-    let newPosition = 0.5 // Default to middle
-
-    if (existingPositions.length > 0) {
-      // Find the largest gap between shelves
-      let maxGap = 0
-      let gapPosition = 0.5
-
-      // Check gap from bottom to first shelf
-      if (existingPositions[0] > 0) {
-        maxGap = existingPositions[0]
-        gapPosition = existingPositions[0] / 2
-      }
+  // Handle end of column drag
+  const handleColumnDragEnd = () => {
+    commitPreview("Move column")
+    setLimitedMemberId(null)
+  }
 
-      // Check gaps between shelves
-      for (let i = 0; i < existingPositions.length - 1; i++) {
-        const gap = existingPositions[i + 1] - existingPositions[i]
-        if (gap > maxGap) {
-          maxGap = gap
-          gapPosition = existingPositions[i] + gap / 2
-        }
-      }
+  // Divide the opening above a shelf into bays, or right of a column into rows, one step per notch of Shift+scroll.
+  // Every step is worked out from the design as it was when the gesture started.
+  const handleSubdivide = (id: string, delta: number) => {
+    wheelDelta.current += delta
+    if (Math.abs(wheelDelta.current) < WHEEL_STEP) return
+    const step = wheelDelta.current < 0 ? 1 : -1
+    wheelDelta.current = 0
+
+    // Scrolling over another shelf or column keeps what was done to the last one and starts again
+    const isSame = subdivision?.dividerId === id
+    if (subdivision && !isSame) commitSubdivision()
+    const base = isSame ? subdivision.base : unit
+
+    const current = getSubdivision(base, id)
+    if (!current) {
+      toast({
+        title: "Can't divide this opening",
+        description: "It is already divided the other way. Merge it in the Elements tab first.",
+      })
+      return
+    }
 
-      // Check gap from last shelf to top
-      if (existingPositions[existingPositions.length - 1] < 1) {
-        const gap = 1 - existingPositions[existingPositions.length - 1]
-        if (gap > maxGap) {
-          maxGap = gap
-          gapPosition = existingPositions[existingPositions.length - 1] + gap / 2
-        }
-      }
+    const count = Math.min(Math.max((isSame ? subdivision.count : current.count) + step, 1), MAX_SUBDIVISIONS)
+    previewUnit(setSubdivision(base, id, count))
+    setSubdivisionGesture({ dividerId: id, base, count })
+  }
 
-      newPosition = gapPosition
+  // Keep the previewed division, when Shift is let go
+  const commitSubdivision = () => {
+    if (!subdivision) return
+    const current = getSubdivision(subdivision.base, subdivision.dividerId)
+    if (!current || current.count === subdivision.count) {
+      cancelPreview()
+    } else {
+      commitPreview(`Divide into ${subdivision.count} ${current.direction === "vertical" ? "bays" : "rows"}`)
     }
+    setSubdivisionGesture(null)
+  }
+
+  // Drop the previewed division, with Escape
+  const cancelSubdivision = () => {
+    if (!subdivision) return
+    cancelPreview()
+    setSubdivisionGesture(null)
+    wheelDelta.current = 0
+  }
 
-    const newShelf = {
-      id: `s${Date.now()}`,
-      position: newPosition,
-      divisions: 2,
+  // Hold Shift to scroll over shelves and columns instead of zooming, and let go of it to keep the division.
+  // Leaving the window cancels, since Shift may be let go where the page can't see it.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Shift") setIsShiftHeld(true)
+      if (event.key === "Escape") cancelSubdivision()
+    }
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key !== "Shift") return
+      setIsShiftHeld(false)
+      commitSubdivision()
+    }
+    const handleBlur = () => {
+      setIsShiftHeld(false)
+      cancelSubdivision()
     }
 
-    setUnit((prev) => ({
-      ...prev,
-      shelves: [...prev.shelves, newShelf],
-    }))
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", handleBlur)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", handleBlur)
+    }
+  }, [subdivision, commitPreview, cancelPreview])
+
+  // What the live label over the canvas says while dividing
+  const subdivisionTarget = subdivision && getSubdivision(subdivision.base, subdivision.dividerId)
+  const subdivisionLabel =
+    subdivision &&
+    subdivisionTarget &&
+    `${sectionMembers.find((member) => member.id === subdivision.dividerId)?.name ?? "Opening"}: ${
+      subdivision.count === 1
+        ? "not divided"
+        : `${subdivision.count} ${subdivisionTarget.direction === "vertical" ? "bays" : "rows"}`
+    }`
+
+  // Add a new shelf to the selected compartment, in its largest opening
+  const addShelf = () => {
+    setUnit("Add shelf", (prev) => addDivider(prev, selectedCompartment.id, "horizontal"))
   }
 
-  // Add a new column
+  // Add a new column to the selected compartment, in its largest opening
   const addColumn = () => {
-    // Find a good position for the new column
-    const existingPositions = unit.columns.map((c) => c.position).sort((a, b) => a - b)
-    let newPosition = 0.5 // Default to middle
-
-    if (existingPositions.length > 0) {
-      // Find the largest gap between columns
-      let maxGap = 0
-      let gapPosition = 0.5
-
-      // Check gap from left to first column
-      if (existingPositions[0] > 0) {
-        maxGap = existingPositions[0]
-        gapPosition = existingPositions[0] / 2
-      }
+    setUnit("Add column", (prev) => addDivider(prev, selectedCompartment.id, "vertical"))
+  }
 
-      // Check gaps between columns
-      for (let i = 0; i < existingPositions.length - 1; i++) {
-        const gap = existingPositions[i + 1] - existingPositions[i]
-        if (gap > maxGap) {
-          maxGap = gap
-          gapPosition = existingPositions[i] + gap / 2
-        }
-      }
+  // Add a column under a sagging shelf, in the compartment below it
+  const supportShelf = (shelf: Member) => {
+    setUnit("Add column", (prev) => {
+      const owner = findCompartment(prev.layout, shelf.compartmentId)
+      const index = owner ? owner.dividers.findIndex((divider) => divider.id === shelf.id) : -1
+      return owner && index >= 0 ? addDivider(prev, owner.children[index].id, "vertical") : prev
+    })
+  }
 
-      // Check gap from last column to right
-      if (existingPositions[existingPositions.length - 1] < 1) {
-        const gap = 1 - existingPositions[existingPositions.length - 1]
-        if (gap > maxGap) {
-          maxGap = gap
-          gapPosition = existingPositions[existingPositions.length - 1] + gap / 2
-        }
-      }
+  // Switch to a thicker board so that sagging shelves stay within the limit
+  const thickenBoards = (thicknessMM: number) => {
+    setUnit("Change thickness", (prev) => ({ ...prev, thickness: thicknessMM / UNIT_TO_MM }))
+  }
 
-      newPosition = gapPosition
+  // Remove the last shelf of the selected compartment, or of the nearest compartment inside it with shelves
+  const removeShelf = () => {
+    const owner = findSplitCompartment(selectedCompartment, "horizontal")
+    if (owner) {
+      const last = owner.dividers[owner.dividers.length - 1]
+      setUnit("Remove shelf", (prev) => removeDivider(prev, last.id))
     }
+  }
 
-    const newColumn = {
-      id: `c${Date.now()}`,
-      position: newPosition,
-      divisions: 2,
+  // Remove the last column of the selected compartment, or of the nearest compartment inside it with columns
+  const removeColumn = () => {
+    const owner = findSplitCompartment(selectedCompartment, "vertical")
+    if (owner) {
+      const last = owner.dividers[owner.dividers.length - 1]
+      setUnit("Remove column", (prev) => removeDivider(prev, last.id))
     }
+  }
 
-    setUnit((prev) => ({
-      ...prev,
-      columns: [...prev.columns, newColumn],
-    }))
+  // Split the selected compartment into equal rows or side-by-side compartments
+  const splitSelectedCompartment = (direction: SplitDirection, count: number) => {
+    setUnit(`Split into ${count} ${direction === "horizontal" ? "rows" : "columns"}`, (prev) =>
+      splitCompartment(prev, selectedCompartment.id, direction, count),
+    )
   }
 
-  // Remove the last added shelf
-  const removeShelf = () => {
-    if (unit.shelves.length > 0) {
-      setUnit((prev) => ({
-        ...prev,
-        shelves: prev.shelves.slice(0, -1),
-      }))
-    }
+  // Remove everything inside the selected compartment
+  const mergeSelectedCompartment = () => {
+    setUnit("Merge compartment", (prev) => mergeCompartment(prev, selectedCompartment.id))
   }
 
-  // Remove the last added column
-  const removeColumn = () => {
-    if (unit.columns.length > 0) {
-      setUnit((prev) => ({
+  // Close the selected compartment with a door, drawers or a flap, or open it up again
+  const setSelectedFront = (front: CompartmentFront | null, label: string) => {
+    setUnit(label, (prev) => setCompartmentFront(prev, selectedCompartment.id, front))
+  }
+
+  // Choose the back panel of the unit
+  const changeBackPanel = (backPanel: BackPanel) => {
+    setUnit(`Change back to ${backPanel}`, (prev) => ({ ...prev, backPanel }))
+  }
+
+  // Choose how one family of joints is made
+  const changeJoinery = (family: JointFamily, type: JointType) => {
+    setUnit(
+      `Change ${JOINT_FAMILIES[family].label.toLowerCase()} to ${JOINT_INFO[type].label.toLowerCase()}`,
+      (prev) => ({
         ...prev,
-        columns: prev.columns.slice(0, -1),
-      }))
-    }
+        joinery: { ...prev.joinery, [family]: type },
+      }),
+    )
   }
 
   // Apply a predefined layout
   const applyLayout = (layout: keyof typeof LAYOUTS) => {
-    setUnit((prev) => ({
+    setUnit(`Apply ${layout} layout`, (prev) => ({
       ...prev,
-      shelves: LAYOUTS[layout].shelves,
-      columns: LAYOUTS[layout].columns,
+      layout: LAYOUTS[layout](),
     }))
   }
 
   // Reset to default size
   const resetUnit = () => {
-    setUnit({
+    setUnit("Reset", {
       width: 3,
       height: 2,
       depth: 1,
       thickness: unit.thickness, // Preserve current thickness
-      shelves: LAYOUTS.basic.shelves,
-      columns: LAYOUTS.basic.columns,
+      layout: LAYOUTS.basic(),
+      backPanel: "inset",
+      joinery: DEFAULT_JOINERY,
+      edgeBanding: {},
       showWireframe: unit.showWireframe,
       showDimensions: unit.showDimensions,
+      showDrilling: unit.showDrilling,
+      dimensionStyle: unit.dimensionStyle,
       viewMode: unit.viewMode,
+      sectionMemberId: null,
+      unitSystem: unit.unitSystem,
       material: unit.material,
+      roleMaterials: unit.roleMaterials,
     })
   }
 
   // Toggle wireframe
   const toggleWireframe = () => {
-    setUnit((prev) => ({
+    setViewSettings((prev) => ({
       ...prev,
       showWireframe: !prev.showWireframe,
     }))
@@ -784,15 +1504,38 @@ export default function ShelvingUnitPro() {
 
   // Toggle dimensions
   const toggleDimensions = () => {
-    setUnit((prev) => ({
+    setViewSettings((prev) => ({
       ...prev,
       showDimensions: !prev.showDimensions,
     }))
   }
 
+  // Toggle the holes for shelf pins and fittings
+  const toggleDrilling = () => {
+    setViewSettings((prev) => ({
+      ...prev,
+      showDrilling: !prev.showDrilling,
+    }))
+  }
+
+  // Choose how lengths are shown and typed
+  const changeUnitSystem = (unitSystem: UnitSystem) => {
+    setViewSettings((prev) => ({ ...prev, unitSystem }))
+  }
+
+  // Choose the shelf or column the section is cut through, or null for the middle of the unit
+  const changeSectionMember = (sectionMemberId: string | null) => {
+    setViewSettings((prev) => ({ ...prev, sectionMemberId }))
+  }
+
+  // Choose between overall, chain and clear opening dimensions
+  const changeDimensionStyle = (dimensionStyle: ShelvingUnitState["dimensionStyle"]) => {
+    setViewSettings((prev) => ({ ...prev, dimensionStyle }))
+  }
+
   // Toggle view mode
   const toggleViewMode = () => {
-    setUnit((prev) => ({
+    setViewSettings((prev) => ({
       ...prev,
       viewMode: prev.viewMode === "3d" ? "orthographic" : "3d",
     }))
@@ -800,7 +1543,7 @@ export default function ShelvingUnitPro() {
 
   // Change material
   const changeMaterial = (material: ShelvingUnitState["material"]) => {
-    setUnit((prev) => ({
+    setUnit(`Change material to ${material}`, (prev) => ({
       ...prev,
       material,
     }))
@@ -808,7 +1551,7 @@ export default function ShelvingUnitPro() {
 
   // Apply thickness preset
   const applyThicknessPreset = (thickness: number) => {
-    setUnit((prev) => ({
+    setUnit("Change thickness", (prev) => ({
       ...prev,
       thickness,
     }))
@@ -829,16 +1572,150 @@ export default function ShelvingUnitPro() {
     }
   }
 
+  // Download the design specification with the full cut list
+  const exportDesignSpec = () => {
+    downloadAsFile(createDesignSpec(unit, unit.unitSystem), "shelving-unit-spec.txt")
+  }
+
+  // Download the cut list as CSV for the workshop
+  const exportCutList = () => {
+    downloadAsFile(createCutListCsv(unit, unit.unitSystem), "shelving-unit-cut-list.csv", "text/csv")
+  }
+
+  // Download the holes of every panel as CSV for the drilling machine
+  const exportDrilling = () => {
+    downloadAsFile(createDrillingCsv(unit, unit.unitSystem), "shelving-unit-drilling.csv", "text/csv")
+  }
+
+  // Download the orthographic views as a DXF drawing for CAD and CNC software
+  const exportDrawingDxf = () => {
+    downloadAsFile(createDrawingDxf(unit, unit.unitSystem), "shelving-unit-drawing.dxf", "application/dxf")
+  }
+
+  // Download a print-ready PDF with the views, an isometric view and the bill of materials
+  const exportDrawingSet = () => {
+    const pdf = createDrawingSetPdf(unit, {
+      projectName,
+      paper: drawingPaper,
+      projection: drawingProjection,
+      date: new Date(),
+      unitSystem: unit.unitSystem,
+    })
+    downloadAsFile(pdf, "shelving-unit-drawings.pdf", "application/pdf")
+  }
+
+  // Download the design as a versioned JSON document
+  const saveDesignFile = () => {
+    downloadAsFile(serializeDesign(unit), "shelving-unit.json", "application/json")
+  }
+
+  // Open a previously saved design file
+  const openDesignFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const result = parseDesignDocument(await file.text())
+    if (result.success) {
+      setUnit(`Open ${file.name}`, result.unit)
+    } else {
+      reportInvalidDesign(result, file.name)
+    }
+  }
+
+  // Download the cost catalog so it can be kept or shared with another workshop
+  const exportCostCatalog = () => {
+    downloadAsFile(serializeCostCatalog(costCatalog), "cost-catalog.json", "application/json")
+  }
+
+  // Replace the cost catalog with one from a JSON file
+  const importCostCatalog = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const result = parseCostCatalog(await file.text())
+    if (result.success) {
+      setCostCatalog(result.catalog)
+      toast({ title: "Cost catalog imported", description: file.name })
+    } else {
+      toast({
+        variant: "destructive",
+        title: `Couldn't import cost catalog from ${file.name}`,
+        description: (
+          <ul className="list-disc pl-4">
+            {result.errors.slice(0, 5).map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        ),
+      })
+    }
+  }
+
+  // Copy a link that opens exactly this design
+  const shareDesign = async () => {
+    const url = createDesignUrl(unit, window.location.href)
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: "Link copied", description: "Anyone with the link can open this design." })
+    } catch (e) {
+      console.error(`Error copying link: ${(e as Error).message}`)
+      toast({ variant: "destructive", title: "Couldn't copy link", description: url })
+    }
+  }
+
+  // Download the nested sheet layout as CSV for the panel saw
+  const exportNesting = () => {
+    downloadAsFile(createNestingCsv(nesting, unit.unitSystem), "shelving-unit-sheets.csv", "text/csv")
+  }
+
+  // Download the G-code program of one nested sheet for the CNC router, each sheet from its own button so the
+  // browser never has to allow several downloads at once
+  const exportGcode = (index: number) => {
+    const programs = createSheetToolpaths(unit, routerNesting, cncOptions)
+    downloadAsFile(
+      createSheetGcode(programs[index], programs.length, cncOptions),
+      `shelving-unit-sheet-${index + 1}.nc`,
+    )
+  }
+
+  // Download the 3D model at real world scale
+  const exportModelFile = async (format: ModelFormat) => {
+    const model = sceneRef.current?.getObjectByName("shelving-unit")
+    if (!model || unit.viewMode !== "3d") {
+      toast({ title: "Switch to the 3D view to export the model" })
+      return
+    }
+
+    try {
+      const { content, filename, type } = await exportModel(model, format, unit.unitSystem)
+      downloadAsFile(content, filename, type)
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: `Couldn't export ${format.toUpperCase()} model`,
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
   // Toggle menu
   const toggleMenu = () => {
     setShowControls(!showControls)
   }
 
-  // Calculate real-world dimensions in millimeters
-  const widthMM = Math.round(unit.width * UNIT_TO_MM)
-  const heightMM = Math.round(unit.height * UNIT_TO_MM)
-  const depthMM = Math.round(unit.depth * UNIT_TO_MM)
-  const thicknessMM = Math.round(unit.thickness * UNIT_TO_MM)
+  // Real-world dimensions in the chosen unit system
+  const showLength = (mm: number) => formatLength(mm, unit.unitSystem)
+  const widthLabel = showLength(toMM(unit.width))
+  const heightLabel = showLength(toMM(unit.height))
+  const depthLabel = showLength(toMM(unit.depth))
+  const thicknessLabel = showLength(toMM(unit.thickness))
+
+  // Overall sizes move by a millimeter, or a sixteenth of an inch, between limits on that step so whole sizes
+  // in the unit system can be reached
+  const sizeStep = getDragStep(unit.unitSystem) / UNIT_TO_MM
+  const sizeLimit = (value: number) => Math.round(value / sizeStep) * sizeStep
 
   return (
     <div className="relative w-full h-screen bg-gray-900 overflow-hidden flex">
@@ -868,82 +1745,112 @@ export default function ShelvingUnitPro() {
             </div>
 
             <Tabs defaultValue="dimensions" className="flex-1 flex flex-col">
-              <TabsList className="grid w-full grid-cols-3 mb-6">
-                <TabsTrigger value="dimensions" className="py-2">
+              <TabsList className="flex w-full h-auto justify-start overflow-x-auto mb-6">
+                <TabsTrigger value="dimensions" className="flex-1 py-2">
                   Dimensions
                 </TabsTrigger>
-                <TabsTrigger value="elements" className="py-2">
+                <TabsTrigger value="elements" className="flex-1 py-2">
                   Elements
                 </TabsTrigger>
-                <TabsTrigger value="appearance" className="py-2">
+                <TabsTrigger value="appearance" className="flex-1 py-2">
                   Appearance
                 </TabsTrigger>
+                <TabsTrigger value="cutting" className="flex-1 py-2">
+                  Cutting
+                </TabsTrigger>
+                <TabsTrigger value="cost" className="flex-1 py-2">
+                  Cost
+                </TabsTrigger>
+                <TabsTrigger value="history" className="flex-1 py-2">
+                  History
+                </TabsTrigger>
               </TabsList>
 
               <div className="flex-1 overflow-y-auto pr-4">
                 <TabsContent value="dimensions" className="space-y-6 mt-0">
                   <div className="space-y-4">
+                    <div>
+                      <Label className="text-white mb-2 block">Units</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {(Object.keys(UNIT_SYSTEMS) as UnitSystem[]).map((system) => (
+                          <Button
+                            key={system}
+                            variant={unit.unitSystem === system ? "default" : "outline"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => changeUnitSystem(system)}
+                          >
+                            {UNIT_SYSTEMS[system].label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <Label htmlFor="width" className="text-white">
-                          Width: {widthMM} mm
+                          Width: {widthLabel}
                         </Label>
                       </div>
                       <Slider
                         id="width"
-                        min={1}
-                        max={5}
-                        step={0.1}
+                        min={sizeLimit(1)}
+                        max={sizeLimit(5)}
+                        step={sizeStep}
                         value={[unit.width]}
-                        onValueChange={(value) => setUnit((prev) => ({ ...prev, width: value[0] }))}
+                        onValueChange={(value) => previewUnit((prev) => ({ ...prev, width: value[0] }))}
+                        onValueCommit={() => commitPreview("Resize width")}
                       />
                     </div>
 
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <Label htmlFor="height" className="text-white">
-                          Height: {heightMM} mm
+                          Height: {heightLabel}
                         </Label>
                       </div>
                       <Slider
                         id="height"
-                        min={1}
-                        max={4}
-                        step={0.1}
+                        min={sizeLimit(1)}
+                        max={sizeLimit(4)}
+                        step={sizeStep}
                         value={[unit.height]}
-                        onValueChange={(value) => setUnit((prev) => ({ ...prev, height: value[0] }))}
+                        onValueChange={(value) => previewUnit((prev) => ({ ...prev, height: value[0] }))}
+                        onValueCommit={() => commitPreview("Resize height")}
                       />
                     </div>
 
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <Label htmlFor="depth" className="text-white">
-                          Depth: {depthMM} mm
+                          Depth: {depthLabel}
                         </Label>
                       </div>
                       <Slider
                         id="depth"
-                        min={0.5}
-                        max={2}
-                        step={0.1}
+                        min={sizeLimit(0.5)}
+                        max={sizeLimit(2)}
+                        step={sizeStep}
                         value={[unit.depth]}
-                        onValueChange={(value) => setUnit((prev) => ({ ...prev, depth: value[0] }))}
+                        onValueChange={(value) => previewUnit((prev) => ({ ...prev, depth: value[0] }))}
+                        onValueCommit={() => commitPreview("Resize depth")}
                       />
                     </div>
 
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <Label htmlFor="thickness" className="text-white">
-                          Thickness: {thicknessMM} mm
+                          Thickness: {thicknessLabel}
                         </Label>
                       </div>
                       <Slider
                         id="thickness"
-                        min={0.01}
+                        min={THICKNESS_PRESETS[0].value}
                         max={0.2}
-                        step={0.01}
+                        step={1 / UNIT_TO_MM}
                         value={[unit.thickness]}
-                        onValueChange={(value) => setUnit((prev) => ({ ...prev, thickness: value[0] }))}
+                        onValueChange={(value) => previewUnit((prev) => ({ ...prev, thickness: value[0] }))}
+                        onValueCommit={() => commitPreview("Change thickness")}
                       />
                     </div>
 
@@ -970,13 +1877,215 @@ export default function ShelvingUnitPro() {
                         Show Dimensions
                       </Label>
                     </div>
+
+                    <div className="grid grid-cols-3 gap-2">
+                      {(
+                        [
+                          ["overall", "Overall"],
+                          ["chain", "Chain"],
+                          ["clear", "Clear openings"],
+                        ] as const
+                      ).map(([style, name]) => (
+                        <Button
+                          key={style}
+                          variant={unit.dimensionStyle === style ? "default" : "outline"}
+                          size="sm"
+                          className="h-8"
+                          disabled={!unit.showDimensions}
+                          onClick={() => changeDimensionStyle(style)}
+                        >
+                          {name}
+                        </Button>
+                      ))}
+                    </div>
+
+                    <div>
+                      <Label className="text-white mb-2 block">Drawing Sheet</Label>
+                      <div className="grid grid-cols-4 gap-2">
+                        {(Object.keys(PAPER_SIZES) as PaperName[]).map((paper) => (
+                          <Button
+                            key={paper}
+                            variant={drawingPaper === paper ? "default" : "outline"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setDrawingPaper(paper)}
+                          >
+                            {paper}
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="grid grid-cols-2 gap-2 mt-2">
+                        {(Object.keys(PROJECTION_LABELS) as Projection[]).map((projection) => (
+                          <Button
+                            key={projection}
+                            variant={drawingProjection === projection ? "default" : "outline"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setDrawingProjection(projection)}
+                          >
+                            {PROJECTION_LABELS[projection]} projection
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label className="text-white mb-2 block">Section Line</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        <Button
+                          variant={
+                            sectionMembers.some((member) => member.id === unit.sectionMemberId) ? "outline" : "default"
+                          }
+                          size="sm"
+                          className="h-8"
+                          onClick={() => changeSectionMember(null)}
+                        >
+                          Middle
+                        </Button>
+                        {sectionMembers.map((member) => (
+                          <Button
+                            key={member.id}
+                            variant={unit.sectionMemberId === member.id ? "default" : "outline"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => changeSectionMember(member.id)}
+                          >
+                            {member.name}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
                   </div>
                 </TabsContent>
 
                 <TabsContent value="elements" className="space-y-6 mt-0">
                   <div className="space-y-4">
+                    <div className="space-y-3">
+                      <h3 className="text-white font-medium">Compartments</h3>
+                      <CompartmentTree
+                        compartment={unit.layout}
+                        label="Whole unit"
+                        boxes={compartmentBoxes}
+                        selectedId={selectedCompartment.id}
+                        unitSystem={unit.unitSystem}
+                        onSelect={setSelectedCompartmentId}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-white block">Split Selected Compartment</Label>
+                      <div className="flex items-center gap-2">
+                        <Rows className="h-4 w-4 text-gray-400" />
+                        {[2, 3, 4, 5].map((count) => (
+                          <Button
+                            key={`rows-${count}`}
+                            variant="outline"
+                            size="sm"
+                            className="h-8 flex-1"
+                            onClick={() => splitSelectedCompartment("horizontal", count)}
+                          >
+                            {count} rows
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Columns className="h-4 w-4 text-gray-400" />
+                        {[2, 3, 4, 5].map((count) => (
+                          <Button
+                            key={`columns-${count}`}
+                            variant="outline"
+                            size="sm"
+                            className="h-8 flex-1"
+                            onClick={() => splitSelectedCompartment("vertical", count)}
+                          >
+                            {count} bays
+                          </Button>
+                        ))}
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8 w-full"
+                        onClick={mergeSelectedCompartment}
+                        disabled={!selectedCompartment.split}
+                      >
+                        <Merge className="h-3 w-3 mr-1" />
+                        Merge Compartment
+                      </Button>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-white block">Front of Selected Compartment</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {(
+                          [
+                            ["Open", null, "Remove front"],
+                            ["Door left", { type: "door", hinge: "left" }, "Add door"],
+                            ["Door right", { type: "door", hinge: "right" }, "Add door"],
+                            ["Drawers", { type: "drawers", count: 3 }, "Add drawers"],
+                            ["Flap", { type: "flap" }, "Add flap"],
+                          ] as Array<[string, CompartmentFront | null, string]>
+                        ).map(([name, front, label]) => {
+                          const current = selectedCompartment.front
+                          const isCurrent =
+                            front === null
+                              ? !current
+                              : current?.type === front.type &&
+                                (front.type !== "door" || (current.type === "door" && current.hinge === front.hinge))
+                          return (
+                            <Button
+                              key={name}
+                              variant={isCurrent && !selectedCompartment.split ? "default" : "outline"}
+                              size="sm"
+                              className="h-8"
+                              disabled={!!selectedCompartment.split}
+                              onClick={() => !isCurrent && setSelectedFront(front, label)}
+                            >
+                              {name}
+                            </Button>
+                          )
+                        })}
+                      </div>
+                      {drawerCount > 0 && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-gray-300 text-sm">Drawers: {drawerCount}</span>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-8"
+                              disabled={drawerCount <= 1}
+                              onClick={() =>
+                                setSelectedFront({ type: "drawers", count: drawerCount - 1 }, "Remove drawer")
+                              }
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-8"
+                              disabled={drawerCount >= MAX_DRAWERS}
+                              onClick={() =>
+                                setSelectedFront({ type: "drawers", count: drawerCount + 1 }, "Add drawer")
+                              }
+                            >
+                              <Plus className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                      {selectedCompartment.split && (
+                        <p className="text-sm text-gray-400">
+                          Pick a compartment that isn&apos;t split to add a front.
+                        </p>
+                      )}
+                    </div>
+
+                    <Separator className="bg-gray-800" />
+
                     <div className="flex items-center justify-between">
-                      <span className="text-white">Shelves: {unit.shelves.length}</span>
+                      <span className="text-white">Shelves: {dividerCounts.shelves}</span>
                       <div className="flex gap-2">
                         <Button variant="outline" size="sm" onClick={addShelf} className="h-8">
                           <Plus className="h-3 w-3 mr-1" />
@@ -986,7 +2095,7 @@ export default function ShelvingUnitPro() {
                           variant="outline"
                           size="sm"
                           onClick={removeShelf}
-                          disabled={unit.shelves.length === 0}
+                          disabled={!findSplitCompartment(selectedCompartment, "horizontal")}
                           className="h-8"
                         >
                           <Minus className="h-3 w-3 mr-1" />
@@ -998,7 +2107,7 @@ export default function ShelvingUnitPro() {
                     <Separator className="bg-gray-800" />
 
                     <div className="flex items-center justify-between">
-                      <span className="text-white">Columns: {unit.columns.length}</span>
+                      <span className="text-white">Columns: {dividerCounts.columns}</span>
                       <div className="flex gap-2">
                         <Button variant="outline" size="sm" onClick={addColumn} className="h-8">
                           <Plus className="h-3 w-3 mr-1" />
@@ -1008,7 +2117,7 @@ export default function ShelvingUnitPro() {
                           variant="outline"
                           size="sm"
                           onClick={removeColumn}
-                          disabled={unit.columns.length === 0}
+                          disabled={!findSplitCompartment(selectedCompartment, "vertical")}
                           className="h-8"
                         >
                           <Minus className="h-3 w-3 mr-1" />
@@ -1017,6 +2126,163 @@ export default function ShelvingUnitPro() {
                       </div>
                     </div>
 
+                    <Separator className="bg-gray-800" />
+
+                    <div className="space-y-3">
+                      <h3 className="text-white font-medium">Positions ({UNIT_SYSTEMS[unit.unitSystem].suffix})</h3>
+                      <MemberPositions unit={unit} onChange={setUnit} />
+                    </div>
+
+                    <div className="space-y-3">
+                      <h3 className="text-white font-medium">Drag Limits</h3>
+                      <div className="space-y-2">
+                        <Label htmlFor="minGap" className="text-white">
+                          Minimum gap: {showLength(clearanceOptions.minGap)}
+                        </Label>
+                        <Slider
+                          id="minGap"
+                          min={0}
+                          max={400}
+                          step={10}
+                          value={[clearanceOptions.minGap]}
+                          onValueChange={(value) => setClearanceOptions((prev) => ({ ...prev, minGap: value[0] }))}
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          variant={clearanceOptions.mode === "clamp" ? "default" : "outline"}
+                          size="sm"
+                          className="h-8"
+                          onClick={() => setClearanceOptions((prev) => ({ ...prev, mode: "clamp" }))}
+                        >
+                          Stop at neighbours
+                        </Button>
+                        <Button
+                          variant={clearanceOptions.mode === "push" ? "default" : "outline"}
+                          size="sm"
+                          className="h-8"
+                          onClick={() => setClearanceOptions((prev) => ({ ...prev, mode: "push" }))}
+                        >
+                          Push neighbours
+                        </Button>
+                      </div>
+                    </div>
+                    <Separator className="bg-gray-800" />
+
+                    <div className="space-y-2">
+                      <Label className="text-white block">Back Panel</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {(["none", "full", "inset"] as const).map((backPanel) => (
+                          <Button
+                            key={backPanel}
+                            variant={unit.backPanel === backPanel ? "default" : "outline"}
+                            size="sm"
+                            className="h-8 capitalize"
+                            onClick={() => changeBackPanel(backPanel)}
+                          >
+                            {backPanel}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <Separator className="bg-gray-800" />
+
+                    <div className="space-y-3">
+                      <h3 className="text-white font-medium">Joinery</h3>
+                      {(Object.keys(JOINT_FAMILIES) as JointFamily[])
+                        .filter((family) => family !== "back" || unit.backPanel === "inset")
+                        .map((family) => (
+                          <div key={family}>
+                            <Label className="text-white mb-2 block">{JOINT_FAMILIES[family].label}</Label>
+                            <div className="grid grid-cols-4 gap-2">
+                              {JOINT_FAMILIES[family].types.map((type) => (
+                                <Button
+                                  key={type}
+                                  variant={unit.joinery[family] === type ? "default" : "outline"}
+                                  size="sm"
+                                  className="h-8 px-1 text-xs"
+                                  onClick={() => changeJoinery(family, type)}
+                                >
+                                  {JOINT_INFO[type].label}
+                                </Button>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+                    <Separator className="bg-gray-800" />
+
+                    <div className="space-y-3">
+                      <h3 className="text-white font-medium">Shelf Load</h3>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          variant={shelfLoad.mode === "per-shelf" ? "default" : "outline"}
+                          size="sm"
+                          className="h-8"
+                          onClick={() => setShelfLoad((prev) => ({ ...prev, mode: "per-shelf" }))}
+                        >
+                          kg per shelf
+                        </Button>
+                        <Button
+                          variant={shelfLoad.mode === "per-metre" ? "default" : "outline"}
+                          size="sm"
+                          className="h-8"
+                          onClick={() => setShelfLoad((prev) => ({ ...prev, mode: "per-metre" }))}
+                        >
+                          kg per metre
+                        </Button>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="shelfLoad" className="text-white">
+                          Load: {shelfLoad.value} {shelfLoad.mode === "per-shelf" ? "kg" : "kg/m"}
+                        </Label>
+                        <Slider
+                          id="shelfLoad"
+                          min={0}
+                          max={100}
+                          step={5}
+                          value={[shelfLoad.value]}
+                          onValueChange={(value) => setShelfLoad((prev) => ({ ...prev, value: value[0] }))}
+                        />
+                      </div>
+
+                      {overloadedShelves.length === 0 ? (
+                        <p className="text-sm text-gray-400">
+                          Every shelf sags less than 1/{DEFLECTION_LIMIT_RATIO} of its span.
+                        </p>
+                      ) : (
+                        overloadedShelves.map(({ shelf, deflection, limit, columnFixes, suggestedThickness }) => (
+                          <div key={shelf.id} className="rounded border border-red-900 bg-red-950/40 p-3 space-y-2">
+                            <div className="flex items-center gap-2 text-sm text-red-300">
+                              <AlertTriangle className="h-4 w-4" />
+                              {shelf.name} sags {showLength(deflection)} (limit {showLength(limit)})
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                              {columnFixes && (
+                                <Button variant="outline" size="sm" className="h-7" onClick={() => supportShelf(shelf)}>
+                                  <Plus className="h-3 w-3 mr-1" />
+                                  Add column below
+                                </Button>
+                              )}
+                              {suggestedThickness !== null && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-7"
+                                  onClick={() => thickenBoards(suggestedThickness)}
+                                >
+                                  Use {showLength(suggestedThickness)} boards
+                                </Button>
+                              )}
+                              {!columnFixes && suggestedThickness === null && (
+                                <span className="text-xs text-gray-400">Add columns or shorten the span</span>
+                              )}
+                            </div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+
                     <div className="pt-4">
                       <h3 className="text-white mb-3 font-medium">Preset Layouts</h3>
                       <div className="grid grid-cols-2 gap-2">
@@ -1050,6 +2316,13 @@ export default function ShelvingUnitPro() {
                       </Label>
                     </div>
 
+                    <div className="flex items-center space-x-2 pt-2">
+                      <Switch id="showDrilling" checked={unit.showDrilling} onCheckedChange={toggleDrilling} />
+                      <Label htmlFor="showDrilling" className="text-white">
+                        Show Drilling
+                      </Label>
+                    </div>
+
                     <div className="flex items-center space-x-2 pt-2">
                       <Switch
                         id="viewMode"
@@ -1120,6 +2393,262 @@ export default function ShelvingUnitPro() {
                         </Button>
                       </div>
                     </div>
+
+                    <div className="pt-4">
+                      <h3 className="text-white mb-1 font-medium">Materials by Part</h3>
+                      <p className="text-gray-400 text-xs mb-3">
+                        Parts follow the material above unless another is chosen. Single shelves, columns and fronts can
+                        be changed in the inspector.
+                      </p>
+                      <RoleMaterials
+                        unit={unit}
+                        onChange={(label, roleMaterials) => setUnit(label, (prev) => ({ ...prev, roleMaterials }))}
+                      />
+                    </div>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="cutting" className="space-y-6 mt-0">
+                  <div className="space-y-4">
+                    <div>
+                      <Label className="text-white mb-2 block">Sheet Size</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {SHEET_SIZES.map((sheet) => (
+                          <Button
+                            key={sheet.name}
+                            variant={nestingOptions.sheet.name === sheet.name ? "default" : "outline"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setNestingOptions((prev) => ({ ...prev, sheet }))}
+                          >
+                            {sheet.name}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="kerf" className="text-white">
+                        Saw Kerf: {showLength(nestingOptions.kerf)}
+                      </Label>
+                      <Slider
+                        id="kerf"
+                        min={0}
+                        max={8}
+                        step={0.5}
+                        value={[nestingOptions.kerf]}
+                        onValueChange={(value) => setNestingOptions((prev) => ({ ...prev, kerf: value[0] }))}
+                      />
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Switch id="showSheetLayout" checked={showSheetLayout} onCheckedChange={setShowSheetLayout} />
+                      <Label htmlFor="showSheetLayout" className="text-white">
+                        Show Sheet Layout in Technical View
+                      </Label>
+                    </div>
+
+                    <Separator className="bg-gray-800" />
+
+                    <div className="flex items-center justify-between">
+                      <span className="text-white">
+                        {nesting.sheetCount} sheets, {nesting.wastePercent.toFixed(1)}% waste
+                      </span>
+                      <Button variant="outline" size="sm" onClick={exportNesting} className="h-8">
+                        <LayoutGrid className="h-3 w-3 mr-1" />
+                        Export CSV
+                      </Button>
+                    </div>
+
+                    <Separator className="bg-gray-800" />
+
+                    <h3 className="text-white font-medium">CNC Router</h3>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="toolDiameter" className="text-white">
+                        Bit Diameter: {showLength(cncOptions.toolDiameter)}
+                      </Label>
+                      <Slider
+                        id="toolDiameter"
+                        min={3}
+                        max={12}
+                        step={0.5}
+                        value={[cncOptions.toolDiameter]}
+                        onValueChange={(value) => setCncOptions((prev) => ({ ...prev, toolDiameter: value[0] }))}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="feedRate" className="text-white">
+                        Feed Rate: {formatFeedRate(cncOptions.feedRate, unit.unitSystem)}
+                      </Label>
+                      <Slider
+                        id="feedRate"
+                        min={1000}
+                        max={10000}
+                        step={100}
+                        value={[cncOptions.feedRate]}
+                        onValueChange={(value) => setCncOptions((prev) => ({ ...prev, feedRate: value[0] }))}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="plungeRate" className="text-white">
+                        Plunge Rate: {formatFeedRate(cncOptions.plungeRate, unit.unitSystem)}
+                      </Label>
+                      <Slider
+                        id="plungeRate"
+                        min={200}
+                        max={3000}
+                        step={50}
+                        value={[cncOptions.plungeRate]}
+                        onValueChange={(value) => setCncOptions((prev) => ({ ...prev, plungeRate: value[0] }))}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="passDepth" className="text-white">
+                        Depth per Pass: {showLength(cncOptions.passDepth)}
+                      </Label>
+                      <Slider
+                        id="passDepth"
+                        min={1}
+                        max={12}
+                        step={0.5}
+                        value={[cncOptions.passDepth]}
+                        onValueChange={(value) => setCncOptions((prev) => ({ ...prev, passDepth: value[0] }))}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="sheetThickness" className="text-white">
+                          Sheet Thickness: {showLength(cncOptions.sheetThickness ?? toMM(unit.thickness))}
+                          {cncOptions.sheetThickness === null && " (nominal)"}
+                        </Label>
+                        {cncOptions.sheetThickness !== null && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2"
+                            onClick={() => setCncOptions((prev) => ({ ...prev, sheetThickness: null }))}
+                          >
+                            Nominal
+                          </Button>
+                        )}
+                      </div>
+                      <Slider
+                        id="sheetThickness"
+                        min={toMM(unit.thickness) - 2}
+                        max={toMM(unit.thickness) + 2}
+                        step={0.1}
+                        value={[cncOptions.sheetThickness ?? toMM(unit.thickness)]}
+                        onValueChange={(value) => setCncOptions((prev) => ({ ...prev, sheetThickness: value[0] }))}
+                      />
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Switch id="showToolpaths" checked={showToolpaths} onCheckedChange={setShowToolpaths} />
+                      <Label htmlFor="showToolpaths" className="text-white">
+                        Show Toolpaths in Technical View
+                      </Label>
+                    </div>
+
+                    <div className="pt-2">
+                      <Label className="text-white mb-2 block">
+                        Export G-code: {routerNesting.sheetCount}{" "}
+                        {routerNesting.sheetCount === 1 ? "program" : "programs"}
+                      </Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {routerNesting.sheets.map((_, index) => (
+                          <Button
+                            key={index}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => exportGcode(index)}
+                            className="h-8"
+                          >
+                            <FileDown className="h-3 w-3 mr-1" />
+                            Sheet {index + 1}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="cost" className="space-y-6 mt-0">
+                  <CostBreakdown estimate={costEstimate} />
+
+                  <Separator className="bg-gray-800" />
+
+                  <CostCatalogEditor catalog={costCatalog} onChange={setCostCatalog} />
+
+                  <div className="grid grid-cols-3 gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8"
+                      onClick={() => catalogInputRef.current?.click()}
+                    >
+                      <FolderOpen className="h-3 w-3 mr-1" />
+                      Import
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-8" onClick={exportCostCatalog}>
+                      <Save className="h-3 w-3 mr-1" />
+                      Export
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8"
+                      onClick={() => setCostCatalog(DEFAULT_COST_CATALOG)}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Defaults
+                    </Button>
+                    <input
+                      ref={catalogInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={importCostCatalog}
+                    />
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="history" className="space-y-6 mt-0">
+                  <div className="space-y-4">
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={undo} disabled={!history.canUndo} className="h-8">
+                        <Undo2 className="h-3 w-3 mr-1" />
+                        Undo
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={redo} disabled={!history.canRedo} className="h-8">
+                        <Redo2 className="h-3 w-3 mr-1" />
+                        Redo
+                      </Button>
+                    </div>
+
+                    <ol className="space-y-1">
+                      {history.entries.map((entry, i) => (
+                        <li key={entry.id}>
+                          <button
+                            className={cn(
+                              "w-full text-left text-sm px-3 py-1.5 rounded",
+                              i === history.index
+                                ? "bg-gray-700 text-white"
+                                : i > history.index
+                                  ? "text-gray-500 hover:bg-gray-800"
+                                  : "text-gray-300 hover:bg-gray-800",
+                            )}
+                            onClick={() => history.jumpTo(i)}
+                          >
+                            {entry.label}
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
                   </div>
                 </TabsContent>
               </div>
@@ -1130,6 +2659,81 @@ export default function ShelvingUnitPro() {
                     <RotateCcw className="h-4 w-4" />
                     Reset
                   </Button>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={saveDesignFile} className="flex items-center gap-1">
+                      <Save className="h-4 w-4" />
+                      Save
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fileInputRef.current?.click()}
+                      className="flex items-center gap-1"
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                      Open
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={shareDesign} className="flex items-center gap-1">
+                      <Share2 className="h-4 w-4" />
+                      Share
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={openDesignFile}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 mt-3">
+                  <Input
+                    value={projectName}
+                    onChange={(event) => setProjectName(event.target.value)}
+                    placeholder="Project name"
+                    aria-label="Project name"
+                    className="h-8 bg-gray-800 border-gray-700 text-white"
+                  />
+                  <Button variant="outline" size="sm" onClick={exportDrawingSet} className="flex items-center gap-1">
+                    <FileDown className="h-4 w-4" />
+                    PDF
+                  </Button>
+                </div>
+                <div className="flex justify-end mt-3">
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={exportDesignSpec} className="flex items-center gap-1">
+                      <FileText className="h-4 w-4" />
+                      Spec
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={exportCutList} className="flex items-center gap-1">
+                      <Table className="h-4 w-4" />
+                      Cut List
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={exportDrilling} className="flex items-center gap-1">
+                      <CircleDot className="h-4 w-4" />
+                      Drilling
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={exportDrawingDxf} className="flex items-center gap-1">
+                      <Ruler className="h-4 w-4" />
+                      DXF
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex justify-end mt-2">
+                  <div className="flex gap-2">
+                    {(["glb", "stl", "obj"] as const).map((format) => (
+                      <Button
+                        key={format}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => exportModelFile(format)}
+                        className="flex items-center gap-1"
+                      >
+                        <Box className="h-4 w-4" />
+                        {format.toUpperCase()}
+                      </Button>
+                    ))}
+                  </div>
                 </div>
               </div>
               {/* Instructions inside menu */}
@@ -1138,9 +2742,29 @@ export default function ShelvingUnitPro() {
                 <ul className="text-sm space-y-1 text-gray-300">
                   <li>• Drag shelves up/down to reposition</li>
                   <li>• Drag columns left/right to reposition</li>
-                  <li>• The further you drag, the more divisions appear</li>
+                  <li>• Set the minimum gap under Drag Limits, and whether dragging stops at or pushes neighbours</li>
+                  <li>
+                    • Hold Shift and scroll over a shelf to divide the opening above it into bays, or over a column to
+                    divide the opening to its right into rows; let go of Shift to keep, Esc to cancel
+                  </li>
+                  <li>• Pick a compartment in the Elements tab to split it into rows or bays, or add a front</li>
+                  <li>• Click a door, drawer or flap to open or close it</li>
+                  <li>
+                    • Click any panel to inspect it: change its size, board, edge banding and pins, or delete or
+                    duplicate it
+                  </li>
+                  <li>• Mix boards under Materials by Part, such as white carcass panels with oak fronts</li>
+                  <li>• Veneers show their grain running along each panel as the cut list has it, plywood its plies</li>
                   <li>• Orbit: Left-click + drag, Zoom: Scroll, Pan: Right-click + drag</li>
                   <li>• Switch to Technical Drawing view to see orthographic projections</li>
+                  <li>• Pick a shelf or column under Section Line to cut the section view through it</li>
+                  <li>• Choose the paper and projection under Drawing Sheet to lay the views out to scale</li>
+                  <li>
+                    • Choose the joints under Joinery: housed panels are cut longer and every groove and hole is listed
+                  </li>
+                  <li>• Turn on Pins for a shelf under Positions to rest it on a 32 mm row of shelf pin holes</li>
+                  <li>• Set up the router under CNC Router and download the G-code program of each sheet</li>
+                  <li>• Undo: Ctrl+Z, Redo: Ctrl+Shift+Z</li>
                 </ul>
               </div>
             </Tabs>
@@ -1151,14 +2775,27 @@ export default function ShelvingUnitPro() {
       {/* Canvas container */}
       <div className="w-full h-full">
         {/* Full-screen 3D canvas */}
-        <Canvas shadows className="w-full h-full">
-          <Scene viewMode={unit.viewMode}>
+        <Canvas
+          shadows
+          className="w-full h-full"
+          onCreated={({ scene }) => (sceneRef.current = scene)}
+          onPointerMissed={() => setSelectedPanelId(null)}
+        >
+          <Scene viewMode={unit.viewMode} paper={PAPER_SIZES[drawingPaper]} enableZoom={!isShiftHeld}>
             <ShelvingUnitModel
               unit={unit}
+              sheet={{ paper: drawingPaper, projection: drawingProjection, projectName }}
+              selectedCompartmentId={selectedCompartment.id}
+              subdividedCompartmentId={subdivisionTarget?.compartmentId ?? null}
+              limitedMemberId={limitedMemberId}
+              selectedPanelId={selectedPanelId}
+              overloadedShelfIds={overloadedShelfIds}
               onShelfDrag={handleShelfDrag}
-              onShelfDragEnd={handleDragEnd}
+              onShelfDragEnd={handleShelfDragEnd}
               onColumnDrag={handleColumnDrag}
-              onColumnDragEnd={handleDragEnd}
+              onColumnDragEnd={handleColumnDragEnd}
+              onSubdivide={handleSubdivide}
+              onSelectPanel={setSelectedPanelId}
             />
           </Scene>
         </Canvas>
@@ -1177,6 +2814,24 @@ export default function ShelvingUnitPro() {
 
         {/* Floating action buttons */}
         <div className="absolute top-4 right-4 z-10 flex gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="bg-gray-900/80 border-gray-700 hover:bg-gray-800"
+            onClick={undo}
+            disabled={!history.canUndo}
+          >
+            <Undo2 className="h-5 w-5 text-white" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="bg-gray-900/80 border-gray-700 hover:bg-gray-800"
+            onClick={redo}
+            disabled={!history.canRedo}
+          >
+            <Redo2 className="h-5 w-5 text-white" />
+          </Button>
           <Button
             variant="outline"
             size="icon"
@@ -1199,13 +2854,62 @@ export default function ShelvingUnitPro() {
           </Button>
         </div>
 
+        {/* Banners above the model, stacked when several show at once */}
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-10 flex flex-col items-center gap-2 pointer-events-none">
+          {/* Live label while Shift+scroll divides an opening */}
+          {subdivisionLabel && (
+            <div className="bg-gray-900/80 px-3 py-2 rounded-lg border border-amber-500 text-white text-sm">
+              {subdivisionLabel} — let go of Shift to keep, Esc to cancel
+            </div>
+          )}
+
+          {/* Warning while a dragged shelf or column is held back */}
+          {limitedMemberId && (
+            <div className="flex items-center gap-2 bg-gray-900/80 px-3 py-2 rounded-lg border border-amber-500 text-amber-300 text-sm">
+              <AlertTriangle className="h-4 w-4" />
+              {sectionMembers.find((member) => member.id === limitedMemberId)?.name ?? "Member"} keeps openings at least{" "}
+              {showLength(clearanceOptions.minGap)} clear
+            </div>
+          )}
+        </div>
+
+        {/* Inspector of the panel clicked in 3D */}
+        {unit.viewMode === "3d" && selectedPanelId && (
+          <div className="absolute top-20 right-4 z-10 w-[320px] max-h-[calc(100%-6rem)] overflow-y-auto bg-gray-900/80 p-3 rounded-lg border border-gray-700">
+            <MemberInspector
+              unit={unit}
+              panelId={selectedPanelId}
+              onChange={setUnit}
+              onClose={() => setSelectedPanelId(null)}
+            />
+          </div>
+        )}
+
+        {/* Sheet layout next to the orthographic views */}
+        {unit.viewMode === "orthographic" && (showSheetLayout || showToolpaths) && (
+          <div className="absolute top-20 right-4 bottom-4 z-10 w-[360px] overflow-y-auto bg-gray-900/80 p-3 rounded-lg border border-gray-700 space-y-4">
+            {showSheetLayout && (
+              <div>
+                <h3 className="text-white font-medium mb-3">Sheet Layout</h3>
+                <NestingLayout result={nesting} unitSystem={unit.unitSystem} />
+              </div>
+            )}
+            {showToolpaths && (
+              <div>
+                <h3 className="text-white font-medium mb-3">Toolpaths</h3>
+                <ToolpathPreview toolpaths={toolpaths} sheet={nestingOptions.sheet} unitSystem={unit.unitSystem} />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Dimensions display */}
         <div className="absolute bottom-4 left-4 z-10 bg-gray-900/80 p-3 rounded-lg border border-gray-700">
           <div className="text-white text-sm space-y-1">
-            <div>Width: {widthMM} mm</div>
-            <div>Height: {heightMM} mm</div>
-            <div>Depth: {depthMM} mm</div>
-            <div>Thickness: {thicknessMM} mm</div>
+            <div>Width: {widthLabel}</div>
+            <div>Height: {heightLabel}</div>
+            <div>Depth: {depthLabel}</div>
+            <div>Thickness: {thicknessLabel}</div>
           </div>
         </div>
       </div>
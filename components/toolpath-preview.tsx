@@ -0,0 +1,153 @@
+"use client"
+
+import type { SheetToolpaths, ToolpathOperation, ToolpathPoint } from "@/lib/cnc"
+import type { SheetSize } from "@/lib/nesting"
+import { MATERIAL_INFO } from "@/lib/shelving-unit"
+import { formatLength, type UnitSystem } from "@/lib/units"
+
+// Colors for the toolpath drawing
+const toolpathColors = {
+  sheet: "#2a2a2a",
+  sheetOutline: "#888888",
+  rapid: "#666666",
+  tab: "#ff4a4a",
+  drill: "#ffd84a",
+  helix: "#ffa04a",
+  pocket: "#4aff9e",
+  profile: "#4a9eff",
+}
+
+const ARC_SEGMENTS = 24
+
+// Points along the moves of an operation seen from above, with arcs split into short lines
+function flattenMoves(operation: ToolpathOperation, start: ToolpathPoint) {
+  const cuts: Array<{ points: Array<[number, number]>; rapid: boolean; tab: boolean }> = []
+  let position = start
+
+  for (const move of operation.moves) {
+    if (move.type === "arc") {
+      // A full circle when it ends where it starts, otherwise the way round it turns
+      const [cx, cy] = move.center
+      const radius = Math.hypot(position[0] - cx, position[1] - cy)
+      const from = Math.atan2(position[1] - cy, position[0] - cx)
+      let sweep = Math.atan2(move.to[1] - cy, move.to[0] - cx) - from
+      if (move.clockwise ? sweep >= 0 : sweep <= 0) sweep += move.clockwise ? -Math.PI * 2 : Math.PI * 2
+      cuts.push({
+        points: Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) => {
+          const angle = from + (sweep * i) / ARC_SEGMENTS
+          return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)] as [number, number]
+        }),
+        rapid: false,
+        tab: false,
+      })
+    } else if (move.to[0] !== position[0] || move.to[1] !== position[1]) {
+      cuts.push({
+        points: [
+          [position[0], position[1]],
+          [move.to[0], move.to[1]],
+        ],
+        rapid: move.type === "rapid",
+        tab: Boolean(move.tab),
+      })
+    } else if (move.type === "line" && move.to[2] < position[2] && operation.kind === "drill") {
+      // Plunges show as a dot
+      cuts.push({ points: [[move.to[0], move.to[1]]], rapid: false, tab: false })
+    }
+    position = move.to
+  }
+
+  return { cuts, end: position }
+}
+
+// 2D SVG drawing of the toolpaths of every nested sheet, seen from above
+export function ToolpathPreview({
+  toolpaths,
+  sheet,
+  unitSystem,
+}: {
+  toolpaths: SheetToolpaths[]
+  sheet: SheetSize
+  unitSystem: UnitSystem
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-300">
+        {(["drill", "helix", "pocket", "profile", "tab", "rapid"] as const).map((kind) => (
+          <span key={kind} className="flex items-center gap-1 capitalize">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: toolpathColors[kind] }} />
+            {kind}
+          </span>
+        ))}
+      </div>
+
+      {toolpaths.map((sheetToolpaths) => {
+        let position: ToolpathPoint = [0, 0, 0]
+        const paths = sheetToolpaths.operations.map((operation) => {
+          const { cuts, end } = flattenMoves(operation, position)
+          position = end
+          return { operation, cuts }
+        })
+
+        return (
+          <div key={sheetToolpaths.index} className="space-y-1">
+            <div className="text-gray-300 text-xs">
+              Sheet {sheetToolpaths.index + 1} — {MATERIAL_INFO[sheetToolpaths.sheet.material].label}, cut through{" "}
+              {formatLength(sheetToolpaths.thickness, unitSystem)}, {sheetToolpaths.operations.length} operations
+            </div>
+            <svg
+              viewBox={`0 0 ${sheet.length} ${sheet.width}`}
+              className="w-full h-auto"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              {/* SVG y runs down, the toolpaths' y runs up from the sheet's bottom edge */}
+              <g transform={`translate(0 ${sheet.width}) scale(1 -1)`}>
+                <rect
+                  x={0}
+                  y={0}
+                  width={sheet.length}
+                  height={sheet.width}
+                  fill={toolpathColors.sheet}
+                  stroke={toolpathColors.sheetOutline}
+                  strokeWidth={4}
+                />
+                {paths.flatMap(({ operation, cuts }, i) =>
+                  cuts.map((cut, j) =>
+                    cut.points.length === 1 ? (
+                      <circle
+                        key={`${i}-${j}`}
+                        cx={cut.points[0][0]}
+                        cy={cut.points[0][1]}
+                        r={Math.max(4, operation.tool.diameter / 2)}
+                        fill={toolpathColors[operation.kind]}
+                      />
+                    ) : (
+                      <polyline
+                        key={`${i}-${j}`}
+                        points={cut.points.map(([x, y]) => `${x},${y}`).join(" ")}
+                        fill="none"
+                        stroke={
+                          cut.rapid
+                            ? toolpathColors.rapid
+                            : cut.tab
+                              ? toolpathColors.tab
+                              : toolpathColors[operation.kind]
+                        }
+                        strokeWidth={cut.rapid ? 1.5 : 3}
+                        strokeDasharray={cut.rapid ? "12 8" : undefined}
+                      />
+                    ),
+                  ),
+                )}
+              </g>
+            </svg>
+            {sheetToolpaths.notes.map((note, i) => (
+              <div key={i} className="text-amber-400 text-xs">
+                {note}
+              </div>
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
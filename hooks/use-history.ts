@@ -0,0 +1,144 @@
+"use client"
+
+import { useCallback, useState } from "react"
+
+// Maximum number of entries kept in the history
+const HISTORY_LIMIT = 100
+
+export type HistoryEntry<T> = {
+  id: number
+  label: string
+  value: T
+}
+
+type HistoryState<T> = {
+  entries: HistoryEntry<T>[]
+  index: number // Entry currently shown
+  draft: T | null // Uncommitted value while a drag is in progress
+  nextId: number
+}
+
+type Updater<T> = T | ((prev: T) => T)
+
+function resolve<T>(updater: Updater<T>, prev: T): T {
+  return typeof updater === "function" ? (updater as (prev: T) => T)(prev) : updater
+}
+
+// Undo/redo history for a value
+// `merge` lets undo and redo keep parts of the current value, such as view settings
+export function useHistory<T>(initial: T, merge?: (restored: T, current: T) => T) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    entries: [{ id: 0, label: "Initial design", value: initial }],
+    index: 0,
+    draft: null,
+    nextId: 1,
+  })
+
+  const present = history.draft ?? history.entries[history.index].value
+
+  // Record a change as a new history entry
+  const commit = useCallback((label: string, updater: Updater<T>) => {
+    setHistory((prev) => {
+      const current = prev.draft ?? prev.entries[prev.index].value
+      const value = resolve(updater, current)
+      const entries = [...prev.entries.slice(0, prev.index + 1), { id: prev.nextId, label, value }].slice(
+        -HISTORY_LIMIT,
+      )
+
+      return { entries, index: entries.length - 1, draft: null, nextId: prev.nextId + 1 }
+    })
+  }, [])
+
+  // Change the value without recording an entry, e.g. on every frame of a drag
+  const preview = useCallback((updater: Updater<T>) => {
+    setHistory((prev) => ({
+      ...prev,
+      draft: resolve(updater, prev.draft ?? prev.entries[prev.index].value),
+    }))
+  }, [])
+
+  // Record the previewed value as a single entry, e.g. at the end of a drag
+  const commitPreview = useCallback(
+    (label: string) => {
+      setHistory((prev) => {
+        if (prev.draft === null) return prev
+
+        const entries = [
+          ...prev.entries.slice(0, prev.index + 1),
+          { id: prev.nextId, label, value: prev.draft },
+        ].slice(-HISTORY_LIMIT)
+
+        return { entries, index: entries.length - 1, draft: null, nextId: prev.nextId + 1 }
+      })
+    },
+    [],
+  )
+
+  // Drop the previewed value without recording it, e.g. when a gesture is cancelled
+  const cancelPreview = useCallback(() => {
+    setHistory((prev) => (prev.draft === null ? prev : { ...prev, draft: null }))
+  }, [])
+
+  // Change the current entry in place, for settings that shouldn't be undone
+  const replace = useCallback((updater: Updater<T>) => {
+    setHistory((prev) => {
+      if (prev.draft !== null) {
+        return { ...prev, draft: resolve(updater, prev.draft) }
+      }
+
+      const entries = [...prev.entries]
+      entries[prev.index] = { ...entries[prev.index], value: resolve(updater, entries[prev.index].value) }
+      return { ...prev, entries }
+    })
+  }, [])
+
+  // Start a fresh history from a value
+  const reset = useCallback((value: T, label = "Initial design") => {
+    setHistory((prev) => ({
+      entries: [{ id: prev.nextId, label, value }],
+      index: 0,
+      draft: null,
+      nextId: prev.nextId + 1,
+    }))
+  }, [])
+
+  // Show a given entry, keeping whatever `merge` preserves from the current value
+  const jumpTo = useCallback(
+    (index: number) => {
+      setHistory((prev) => {
+        if (index < 0 || index >= prev.entries.length || (index === prev.index && prev.draft === null)) {
+          return prev
+        }
+
+        const current = prev.draft ?? prev.entries[prev.index].value
+        const entries = [...prev.entries]
+        if (merge) {
+          entries[index] = { ...entries[index], value: merge(entries[index].value, current) }
+        }
+
+        return { ...prev, entries, index, draft: null }
+      })
+    },
+    [merge],
+  )
+
+  const undo = useCallback(() => jumpTo(history.index - 1), [jumpTo, history.index])
+  const redo = useCallback(() => jumpTo(history.index + 1), [jumpTo, history.index])
+
+  return {
+    present,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    commit,
+    preview,
+    commitPreview,
+    cancelPreview,
+    replace,
+    reset,
+    jumpTo,
+    undo,
+    redo,
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import { createGridLayout } from "./compartments"
+import { DEFAULT_CNC_OPTIONS, createSheetGcode, createSheetToolpaths, getRouterNestingOptions } from "./cnc"
+import { derivePanels } from "./cut-list"
+import { DEFAULT_NESTING_OPTIONS, nestPanels, type PlacedPiece } from "./nesting"
+import type { ShelvingUnitState } from "./shelving-unit"
+
+// A dowelled unit two bays wide with a shelf in each, its shelves on pins
+const unit: ShelvingUnitState = {
+  width: 1.2,
+  height: 1.6,
+  depth: 0.4,
+  thickness: 0.018,
+  layout: createGridLayout([0.5], [0.5]),
+  backPanel: "inset",
+  joinery: { carcass: "dowel", members: "dado", back: "dado" },
+  edgeBanding: {},
+  showWireframe: false,
+  showDimensions: true,
+  showDrilling: true,
+  dimensionStyle: "overall",
+  viewMode: "3d",
+  sectionMemberId: null,
+  unitSystem: "mm",
+  material: "wood",
+  roleMaterials: {},
+}
+
+// Distance in mm from a point to the nearest edge of a piece, 0 inside it
+function distanceToPiece([x, y]: [number, number], piece: PlacedPiece): number {
+  const dx = Math.max(piece.x - x, 0, x - (piece.x + piece.length))
+  const dy = Math.max(piece.y - y, 0, y - (piece.y + piece.width))
+  return Math.hypot(dx, dy)
+}
+
+describe("createSheetToolpaths", () => {
+  it("turns down sheets nested closer together than the bit is wide", () => {
+    const nesting = nestPanels(derivePanels(unit), { ...DEFAULT_NESTING_OPTIONS, kerf: 4 })
+
+    expect(() => createSheetToolpaths(unit, nesting, { ...DEFAULT_CNC_OPTIONS, toolDiameter: 6 })).toThrow()
+  })
+
+  it("cuts every piece out without the bit reaching into any other piece", () => {
+    const options = DEFAULT_CNC_OPTIONS
+    const nesting = nestPanels(derivePanels(unit), getRouterNestingOptions(DEFAULT_NESTING_OPTIONS, options))
+    const toolpaths = createSheetToolpaths(unit, nesting, options)
+
+    expect(toolpaths).toHaveLength(nesting.sheetCount)
+    for (const { sheet, operations } of toolpaths) {
+      const profiles = operations.filter((operation) => operation.kind === "profile")
+      expect(profiles).toHaveLength(sheet.pieces.length)
+
+      for (const profile of profiles) {
+        const radius = profile.tool.diameter / 2
+        for (const move of profile.moves) {
+          if (move.type === "rapid") continue
+          for (const piece of sheet.pieces) {
+            expect(distanceToPiece([move.to[0], move.to[1]], piece)).toBeGreaterThanOrEqual(radius - 1e-6)
+          }
+        }
+      }
+    }
+  })
+})
+
+describe("createSheetGcode", () => {
+  it("writes a metric program for each sheet that ends with the spindle off and back at the origin", () => {
+    const options = DEFAULT_CNC_OPTIONS
+    const nesting = nestPanels(derivePanels(unit), getRouterNestingOptions(DEFAULT_NESTING_OPTIONS, options))
+    const [first] = createSheetToolpaths(unit, nesting, options)
+    const lines = createSheetGcode(first, nesting.sheetCount, options).trim().split("\n")
+
+    expect(lines[0]).toBe(`(Shelving unit - sheet 1 of ${nesting.sheetCount})`)
+    expect(lines).toContain("G21 G90 G17")
+    expect(lines).toContain("T1 M6")
+    expect(lines.slice(-4)).toEqual(["M5", "G0 Z10", "G0 X0 Y0", "M30"])
+    expect(lines.filter((line) => /^G1 .*Z-/.test(line)).every((line) => /F\d+$/.test(line))).toBe(true)
+  })
+})
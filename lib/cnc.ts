@@ -0,0 +1,483 @@
+/**
+ * CNC
+ * Toolpaths and G-code for cutting the nested sheets on a 3-axis router
+ *
+ * Every nested sheet gets its own program, with the origin at the lower left
+ * corner of the sheet and Z0 on its top face. Holes smaller than the router
+ * bit are drilled first, each size with its own drill, then the bit mills the
+ * larger holes as helixes, clears the grooves as pockets and cuts every piece
+ * out along its profile, last so the pieces stay put while they are machined.
+ * Profiles run clockwise around the outside of the piece, down to just below
+ * the sheet, and leave small tabs holding the piece to the sheet on the final
+ * passes. Sheets for the router are nested with the pieces at least a bit's
+ * width apart, however fine the saw kerf, so a profile never cuts into the
+ * piece next to it.
+ *
+ * Pieces lie on the sheet with the face that has the most holes and grooves
+ * up. Holes and grooves on the other face, and holes in the edges and ends,
+ * are left for a second setup and noted in the program.
+ */
+
+import { getDrilledHoles, getPanelFrames, toPanelPoint, type PanelFrame } from "./drilling"
+import { getJointFeatures, type JoineryInput } from "./joinery"
+import type { NestedSheet, NestingOptions, NestingResult, PlacedPiece } from "./nesting"
+import { MATERIAL_INFO } from "./shelving-unit"
+
+export type CncOptions = {
+  toolDiameter: number // mm, router bit for profiles, pockets and large holes
+  feedRate: number // mm/min
+  plungeRate: number // mm/min
+  passDepth: number // mm cut on every pass
+  sheetThickness: number | null // mm as measured, or null for the nominal thickness of the panels
+}
+
+export const DEFAULT_CNC_OPTIONS: CncOptions = {
+  toolDiameter: 6,
+  feedRate: 4000,
+  plungeRate: 1000,
+  passDepth: 6,
+  sheetThickness: null,
+}
+
+// Nesting settings for cutting the sheets on the router, with room for the bit between every two pieces
+export function getRouterNestingOptions(nesting: NestingOptions, options: CncOptions): NestingOptions {
+  return { ...nesting, kerf: Math.max(nesting.kerf, options.toolDiameter) }
+}
+
+export type ToolpathPoint = [number, number, number] // mm, from the sheet's lower left corner and its top face
+
+export type ToolpathMove =
+  | { type: "rapid" | "line"; to: ToolpathPoint; tab?: boolean }
+  | { type: "arc"; to: ToolpathPoint; center: [number, number]; clockwise: boolean }
+
+export type Tool = {
+  number: number
+  kind: "end-mill" | "drill"
+  diameter: number // mm
+}
+
+export type ToolpathOperation = {
+  kind: "drill" | "helix" | "pocket" | "profile"
+  label: string
+  tool: Tool
+  moves: ToolpathMove[]
+}
+
+export type SheetToolpaths = {
+  index: number // 0 based, in the order of the nesting result
+  sheet: NestedSheet
+  thickness: number // mm cut through
+  operations: ToolpathOperation[]
+  notes: string[] // Work left for a second setup, and anything else the operator should know
+}
+
+export const SAFE_HEIGHT = 10 // mm above the sheet for rapid moves
+export const TAB_WIDTH = 8 // mm of material left in a tab
+export const TAB_HEIGHT = 3 // mm
+const BREAKTHROUGH = 0.3 // mm into the spoilboard so profiles cut clean through
+const CLEARANCE = 1 // mm above the sheet to start plunging from
+const STEPOVER = 0.8 // Share of the bit's diameter between pocket passes
+const LONG_SIDE = 600 // mm, profile sides longer than this get two tabs
+const SPINDLE_SPEED = 18000 // rpm
+const DRILL_SPEED = 6000 // rpm
+
+// A groove or hole on the face of a piece, in mm from the piece's lower left corner as it lies on the sheet
+type FaceFeature =
+  | { type: "groove"; min: [number, number]; max: [number, number]; depth: number }
+  | { type: "hole"; center: [number, number]; diameter: number; depth: number; fitting: string }
+
+// Depths of the passes down to a final depth, never more than a pass depth apart
+function passDepths(depth: number, passDepth: number): number[] {
+  const count = Math.max(1, Math.ceil(depth / passDepth - 1e-9))
+  return Array.from({ length: count }, (_, i) => -Math.min(depth, ((i + 1) * depth) / count))
+}
+
+// Grooves and holes of a panel on the face it is machined from, and what is left for a second setup
+function getFaceFeatures(
+  frame: PanelFrame,
+  features: ReturnType<typeof getJointFeatures>,
+  holes: ReturnType<typeof getDrilledHoles>,
+): { features: FaceFeature[]; otherFace: number; edges: number } {
+  const { box, axes } = frame
+
+  // Which face each groove and hole is on: -1 for the front, bottom or left face, 1 for the other
+  const faceOf = (value: number) => (Math.abs(value - box.min[axes.thickness]) < 1e-6 ? -1 : 1)
+  const faced = [
+    ...features.flatMap((feature) =>
+      feature.type === "groove" && feature.panelId === box.id
+        ? [{ face: faceOf(feature.min[axes.thickness]), feature }]
+        : [],
+    ),
+    ...holes.flatMap((hole) =>
+      hole.panelId === box.id && hole.direction[axes.thickness] !== 0
+        ? [{ face: -hole.direction[axes.thickness], hole }]
+        : [],
+    ),
+  ]
+  const edges = holes.filter((hole) => hole.panelId === box.id && hole.direction[axes.thickness] === 0).length
+
+  // The face with the most work goes up
+  const lower = faced.filter((item) => item.face < 0).length
+  const face = lower > faced.length - lower ? -1 : 1
+
+  // Looking at the face, length runs to the right and width up only when the face is on the right-handed side
+  const sign = (axis: number) => (axis === 2 ? -1 : 1)
+  const cyclic = (axes.width - axes.length + 3) % 3 === 1 ? 1 : -1
+  const mirrored = sign(axes.length) * sign(axes.width) * cyclic !== face
+  const onFace = ([along, across]: number[]): [number, number] => [along, mirrored ? frame.width - across : across]
+
+  return {
+    features: faced.flatMap((item): FaceFeature[] => {
+      if (item.face !== face) return []
+      if ("hole" in item) {
+        return [
+          {
+            type: "hole",
+            center: onFace(toPanelPoint(frame, item.hole.center)),
+            diameter: item.hole.diameter,
+            depth: item.hole.depth,
+            fitting: item.hole.fitting,
+          },
+        ]
+      }
+      if (item.feature.type !== "groove") return []
+      const [a, b] = [onFace(toPanelPoint(frame, item.feature.min)), onFace(toPanelPoint(frame, item.feature.max))]
+      return [
+        {
+          type: "groove",
+          min: [Math.min(a[0], b[0]), Math.min(a[1], b[1])],
+          max: [Math.max(a[0], b[0]), Math.max(a[1], b[1])],
+          depth: item.feature.depth,
+        },
+      ]
+    }),
+    otherFace: faced.filter((item) => item.face !== face).length,
+    edges,
+  }
+}
+
+// Convert a point on a piece, measured along its panel's length and width, to the sheet
+function toSheet(piece: PlacedPiece, [along, across]: [number, number]): [number, number] {
+  // A turned piece has its length running up the sheet, and its width from right to left
+  return piece.rotated ? [piece.x + piece.length - across, piece.y + along] : [piece.x + along, piece.y + across]
+}
+
+// Drill a hole straight down with a drill of its size, in pecks of at most a pass depth
+function drillMoves([x, y]: [number, number], depth: number, passDepth: number): ToolpathMove[] {
+  return [
+    { type: "rapid", to: [x, y, SAFE_HEIGHT] },
+    { type: "rapid", to: [x, y, CLEARANCE] },
+    ...passDepths(depth, passDepth).flatMap((z): ToolpathMove[] => [
+      { type: "line", to: [x, y, z] },
+      { type: "rapid", to: [x, y, CLEARANCE] },
+    ]),
+    { type: "rapid", to: [x, y, SAFE_HEIGHT] },
+  ]
+}
+
+// Mill a hole larger than the bit as a helix down its side, clearing the rings inside it on every pass
+function helixMoves([x, y]: [number, number], diameter: number, depth: number, options: CncOptions): ToolpathMove[] {
+  const radius = (diameter - options.toolDiameter) / 2
+  if (radius <= 0.01) return drillMoves([x, y], depth, options.passDepth)
+
+  // Rings from the side in to the middle, close enough that the bit leaves nothing standing between them
+  const step = options.toolDiameter * STEPOVER
+  const rings = Array.from({ length: Math.ceil(radius / step) }, (_, i) => radius - (i + 1) * step).filter(
+    (ring) => ring > 0.01,
+  )
+  const start: [number, number] = [x + radius, y]
+
+  return [
+    { type: "rapid", to: [...start, SAFE_HEIGHT] },
+    { type: "rapid", to: [...start, CLEARANCE] },
+    { type: "line", to: [...start, 0] },
+    ...passDepths(depth, options.passDepth).flatMap((z): ToolpathMove[] => [
+      { type: "arc", to: [...start, z], center: [x, y], clockwise: false },
+      ...rings.flatMap((ring): ToolpathMove[] => [
+        { type: "line", to: [x + ring, y, z] },
+        { type: "arc", to: [x + ring, y, z], center: [x, y], clockwise: false },
+      ]),
+      { type: "line", to: [x, y, z] },
+      { type: "line", to: [...start, z] },
+    ]),
+    { type: "arc", to: [...start, -depth], center: [x, y], clockwise: false },
+    { type: "rapid", to: [...start, SAFE_HEIGHT] },
+  ]
+}
+
+// Clear a rectangular pocket with passes along its length and a final pass around its sides
+function pocketMoves(min: [number, number], max: [number, number], depth: number, options: CncOptions): ToolpathMove[] {
+  const r = options.toolDiameter / 2
+  const [x0, y0, x1, y1] = [min[0] + r, min[1] + r, max[0] - r, max[1] - r]
+  const alongX = x1 - x0 >= y1 - y0
+
+  // Passes across the short side of the pocket, evenly spaced
+  const [from, to] = alongX ? [y0, y1] : [x0, x1]
+  const count = Math.max(1, Math.ceil((to - from) / (options.toolDiameter * STEPOVER)) + 1)
+  const offsets = Array.from({ length: count }, (_, i) =>
+    count === 1 ? (from + to) / 2 : from + ((to - from) * i) / (count - 1),
+  )
+  const pass = (offset: number, reverse: boolean): Array<[number, number]> => {
+    const ends: Array<[number, number]> = alongX
+      ? [
+          [x0, offset],
+          [x1, offset],
+        ]
+      : [
+          [offset, y0],
+          [offset, y1],
+        ]
+    return reverse ? [ends[1], ends[0]] : ends
+  }
+
+  return passDepths(depth, options.passDepth).flatMap((z): ToolpathMove[] => {
+    const zigzag = offsets.flatMap((offset, i) => pass(offset, i % 2 === 1))
+    const around: Array<[number, number]> =
+      count > 1
+        ? [
+            [x0, y0],
+            [x0, y1],
+            [x1, y1],
+            [x1, y0],
+            [x0, y0],
+          ]
+        : []
+    const [first, ...rest] = zigzag
+    return [
+      { type: "rapid", to: [...first, SAFE_HEIGHT] },
+      { type: "rapid", to: [...first, CLEARANCE] },
+      { type: "line", to: [...first, z] },
+      ...rest.map((point): ToolpathMove => ({ type: "line", to: [...point, z] })),
+      ...(around.length > 0
+        ? [
+            { type: "line", to: [...around[0], z] } as ToolpathMove,
+            ...around.slice(1).map((point): ToolpathMove => ({ type: "line", to: [...point, z] })),
+          ]
+        : []),
+      { type: "rapid", to: [...(around.length > 0 ? around[0] : zigzag[zigzag.length - 1]), SAFE_HEIGHT] },
+    ]
+  })
+}
+
+// Cut a piece out clockwise around its outside, lifting over tabs on the passes below the tab height
+function profileMoves(piece: PlacedPiece, thickness: number, options: CncOptions): ToolpathMove[] {
+  const r = options.toolDiameter / 2
+  const corners: Array<[number, number]> = [
+    [piece.x - r, piece.y - r],
+    [piece.x - r, piece.y + piece.width + r],
+    [piece.x + piece.length + r, piece.y + piece.width + r],
+    [piece.x + piece.length + r, piece.y - r],
+  ]
+  const tabTop = -(thickness - TAB_HEIGHT)
+
+  // Tabs centred along every side, as fractions of the side, wide enough for the bit to leave TAB_WIDTH standing
+  const side = (start: [number, number], end: [number, number], z: number): ToolpathMove[] => {
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1])
+    const at = (fraction: number): [number, number] => [
+      start[0] + (end[0] - start[0]) * fraction,
+      start[1] + (end[1] - start[1]) * fraction,
+    ]
+    if (z >= tabTop) return [{ type: "line", to: [...end, z] }]
+
+    const count = length > LONG_SIDE ? 2 : 1
+    const half = (TAB_WIDTH + options.toolDiameter) / 2 / length
+    return Array.from({ length: count }, (_, i) => (i + 1) / (count + 1))
+      .flatMap((middle): ToolpathMove[] => [
+        { type: "line", to: [...at(middle - half), z] },
+        { type: "line", to: [...at(middle - half), tabTop], tab: true },
+        { type: "line", to: [...at(middle + half), tabTop], tab: true },
+        { type: "line", to: [...at(middle + half), z] },
+      ])
+      .concat({ type: "line", to: [...end, z] })
+  }
+
+  return [
+    { type: "rapid", to: [...corners[0], SAFE_HEIGHT] },
+    { type: "rapid", to: [...corners[0], CLEARANCE] },
+    ...passDepths(thickness + BREAKTHROUGH, options.passDepth).flatMap((z): ToolpathMove[] => [
+      { type: "line", to: [...corners[0], z] },
+      ...corners.flatMap((corner, i) => side(corner, corners[(i + 1) % corners.length], z)),
+    ]),
+    { type: "rapid", to: [...corners[0], SAFE_HEIGHT] },
+  ]
+}
+
+// Toolpaths for every nested sheet, with the holes and grooves of the unit's panels machined into their pieces
+export function createSheetToolpaths(
+  unit: JoineryInput,
+  nesting: NestingResult,
+  options: CncOptions = DEFAULT_CNC_OPTIONS,
+): SheetToolpaths[] {
+  // Profiles run half a bit outside their pieces, so closer pieces would be cut into, see getRouterNestingOptions
+  if (nesting.options.kerf < options.toolDiameter) {
+    throw new Error(`Pieces ${nesting.options.kerf} mm apart are too close for a ${options.toolDiameter} mm bit`)
+  }
+
+  const features = getJointFeatures(unit)
+  const holes = getDrilledHoles(unit)
+  const frames = getPanelFrames(unit)
+
+  // Pieces of a cut list panel take its panel boxes in turn, so one of the two sides is the left and the other the right
+  const boxIds: Record<string, string[]> = { sides: ["left-side", "right-side"] }
+  const taken = new Map<string, number>()
+  const frameFor = (piece: PlacedPiece): PanelFrame | undefined => {
+    const count = taken.get(piece.panelId) ?? 0
+    taken.set(piece.panelId, count + 1)
+    const id = (boxIds[piece.panelId] ?? [piece.panelId])[count]
+    return frames.find((frame) => frame.box.id === id)
+  }
+
+  const endMill: Tool = { number: 1, kind: "end-mill", diameter: options.toolDiameter }
+  const drillSizes = [...new Set(holes.map((hole) => hole.diameter))]
+    .filter((diameter) => diameter < options.toolDiameter)
+    .sort((a, b) => a - b)
+  const drills = drillSizes.map((diameter, i): Tool => ({ number: i + 2, kind: "drill", diameter }))
+
+  return nesting.sheets.map((sheet, index) => {
+    const thickness = options.sheetThickness ?? sheet.thickness
+    const notes: string[] = []
+    const drilling: ToolpathOperation[] = []
+    const milling: ToolpathOperation[] = []
+    const profiles: ToolpathOperation[] = []
+
+    for (const piece of sheet.pieces) {
+      const frame = frameFor(piece)
+      if (frame) {
+        const face = getFaceFeatures(frame, features, holes)
+        if (face.otherFace > 0) notes.push(`${piece.name}: ${face.otherFace} holes and grooves on the other face`)
+        if (face.edges > 0) notes.push(`${piece.name}: ${face.edges} holes in its edges and ends`)
+
+        for (const feature of face.features) {
+          if (feature.type === "hole") {
+            const center = toSheet(piece, feature.center)
+            const drill = drills.find((tool) => tool.diameter === feature.diameter)
+            drilling.push({
+              kind: drill ? "drill" : "helix",
+              label: `${piece.name}: Ø${feature.diameter} × ${feature.depth} ${feature.fitting} hole`,
+              tool: drill ?? endMill,
+              moves: drill
+                ? drillMoves(center, feature.depth, options.passDepth)
+                : helixMoves(center, feature.diameter, feature.depth, options),
+            })
+            continue
+          }
+
+          // Grooves that reach the edge of the piece are opened past it, so the bit clears them right to the edge
+          const r = options.toolDiameter / 2
+          const panelLength = piece.rotated ? piece.width : piece.length
+          const panelWidth = piece.rotated ? piece.length : piece.width
+          const min: [number, number] = [
+            feature.min[0] <= 0.01 ? -r - 0.5 : feature.min[0],
+            feature.min[1] <= 0.01 ? -r - 0.5 : feature.min[1],
+          ]
+          const max: [number, number] = [
+            feature.max[0] >= panelLength - 0.01 ? panelLength + r + 0.5 : feature.max[0],
+            feature.max[1] >= panelWidth - 0.01 ? panelWidth + r + 0.5 : feature.max[1],
+          ]
+          if (Math.min(max[0] - min[0], max[1] - min[1]) < options.toolDiameter) {
+            notes.push(`${piece.name}: a groove narrower than the ${options.toolDiameter} mm bit`)
+            continue
+          }
+          const [a, b] = [toSheet(piece, min), toSheet(piece, max)]
+          milling.push({
+            kind: "pocket",
+            label: `${piece.name}: ${feature.depth} mm deep groove`,
+            tool: endMill,
+            moves: pocketMoves(
+              [Math.min(a[0], b[0]), Math.min(a[1], b[1])],
+              [Math.max(a[0], b[0]), Math.max(a[1], b[1])],
+              feature.depth,
+              options,
+            ),
+          })
+        }
+      }
+
+      profiles.push({
+        kind: "profile",
+        label: `${piece.name}: profile`,
+        tool: endMill,
+        moves: profileMoves(piece, thickness, options),
+      })
+    }
+
+    // Drills smallest first, then the bit's holes, grooves and finally the profiles
+    const operations = [
+      ...drills.flatMap((tool) => drilling.filter((operation) => operation.tool === tool)),
+      ...drilling.filter((operation) => operation.tool === endMill),
+      ...milling,
+      ...profiles,
+    ]
+
+    return { index, sheet, thickness, operations, notes }
+  })
+}
+
+// A number for G-code, to a thousandth of a millimeter
+const format = (value: number) => `${Math.round(value * 1000) / 1000}`
+
+// Write the G-code program for one sheet
+export function createSheetGcode(toolpaths: SheetToolpaths, sheetCount: number, options: CncOptions): string {
+  const { sheet, thickness, operations, notes } = toolpaths
+  const lines: string[] = [
+    `(Shelving unit - sheet ${toolpaths.index + 1} of ${sheetCount})`,
+    `(${MATERIAL_INFO[sheet.material].label}, ${format(thickness)} mm thick, ${sheet.pieces.length} pieces)`,
+    "(Origin: lower left corner of the sheet, Z0 on its top face)",
+    ...notes.map((note) => `(Note: ${note.replace(/[()]/g, "")})`),
+    "G21 G90 G17",
+    `G0 Z${format(SAFE_HEIGHT)}`,
+  ]
+
+  let position: ToolpathPoint = [0, 0, SAFE_HEIGHT]
+  let tool: Tool | null = null
+
+  for (const operation of operations) {
+    if (operation.tool !== tool) {
+      if (tool) lines.push("M5")
+      tool = operation.tool
+      lines.push(
+        `(Tool ${tool.number}: ${format(tool.diameter)} mm ${tool.kind === "drill" ? "drill" : "end mill"})`,
+        `T${tool.number} M6`,
+        `S${tool.kind === "drill" ? DRILL_SPEED : SPINDLE_SPEED} M3`,
+        `G0 Z${format(SAFE_HEIGHT)}`,
+      )
+      position = [position[0], position[1], SAFE_HEIGHT]
+    }
+
+    lines.push(`(${operation.label.replace(/[()]/g, "")})`)
+    for (const move of operation.moves) {
+      const [x, y, z] = move.to
+      const words = [
+        x !== position[0] ? `X${format(x)}` : "",
+        y !== position[1] ? `Y${format(y)}` : "",
+        z !== position[2] ? `Z${format(z)}` : "",
+      ].filter(Boolean)
+
+      if (move.type === "arc") {
+        const [cx, cy] = move.center
+        lines.push(
+          [
+            move.clockwise ? "G2" : "G3",
+            ...words.filter((word) => !word.startsWith("Z")),
+            `Z${format(z)}`,
+            `I${format(cx - position[0])}`,
+            `J${format(cy - position[1])}`,
+            `F${options.feedRate}`,
+          ].join(" "),
+        )
+      } else if (words.length > 0) {
+        // Straight plunges go at the plunge rate, everything else at the feed rate
+        const plunge = x === position[0] && y === position[1] && z < position[2]
+        lines.push(
+          move.type === "rapid"
+            ? `G0 ${words.join(" ")}`
+            : `G1 ${words.join(" ")} F${plunge ? options.plungeRate : options.feedRate}`,
+        )
+      }
+      position = move.to
+    }
+  }
+
+  lines.push("M5", `G0 Z${format(SAFE_HEIGHT)}`, "G0 X0 Y0", "M30")
+  return lines.join("\n") + "\n"
+}
@@ -0,0 +1,619 @@
+/**
+ * Compartments
+ * The compartment tree of a shelving unit and the members it implies
+ *
+ * The inside of the carcass is a single root compartment. Any compartment can
+ * be split on its own, either horizontally by shelves into rows or vertically
+ * by columns into side-by-side compartments. Shelves and columns only span the
+ * compartment they divide, exactly like fixed panels in real cabinetry. An
+ * unsplit compartment can be closed by a door, a stack of drawers or a flap.
+ */
+
+import { toMM, type EdgeBanding, type MaterialName, type ShelvingUnitState } from "./shelving-unit"
+
+// "horizontal" stacks rows divided by shelves, "vertical" places compartments side by side divided by columns
+export type SplitDirection = "horizontal" | "vertical"
+
+export type Divider = {
+  id: string
+  position: number // 0-1 percentage of the compartment's inner height or width, to the divider's centre
+  adjustable?: boolean // A shelf resting on pins in rows of holes, instead of being joined in place
+  banding?: EdgeBanding // Banded other than the usual way, see cut-list.ts
+  material?: MaterialName // Made from another board than the rest of its role, see cut-list.ts
+}
+
+// Door hinged on one side, equal drawers stacked bottom to top, or a flap hinged at the bottom,
+// optionally made from another board than the rest of their role
+export type CompartmentFront = (
+  { type: "door"; hinge: "left" | "right" } | { type: "drawers"; count: number } | { type: "flap" }
+) & { material?: MaterialName }
+
+export type Compartment = {
+  id: string
+  split: SplitDirection | null
+  dividers: Divider[] // Ordered bottom to top or left to right, one fewer than the children
+  children: Compartment[]
+  front?: CompartmentFront // Only unsplit compartments have fronts
+}
+
+// Clear box of a compartment in abstract units, in the front view plane centred on the unit
+export type CompartmentBox = {
+  left: number
+  right: number
+  bottom: number
+  top: number
+}
+
+export type LaidOutCompartment = {
+  compartment: Compartment
+  box: CompartmentBox
+  depthLevel: number // 0 for the root compartment
+}
+
+// A shelf or column panel dividing a compartment
+export type Member = {
+  id: string // Id of the divider
+  kind: "shelf" | "column"
+  compartmentId: string // Compartment the member divides
+  parentBox: CompartmentBox
+  center: number // y of a shelf or x of a column, in abstract units
+  span: number // Clear length between the faces it butts against, in abstract units
+  start: number // Left end of a shelf or bottom end of a column
+  adjustable: boolean // Only shelves can be adjustable
+  banding?: EdgeBanding
+  material?: MaterialName
+}
+
+export type CompartmentLayout = {
+  compartments: LaidOutCompartment[]
+  members: Member[]
+}
+
+type LayoutInput = Pick<ShelvingUnitState, "width" | "height" | "thickness" | "layout">
+
+// Generate a reasonably unique id for new compartments and dividers
+let idCounter = 0
+export function createId(prefix: string): string {
+  idCounter = (idCounter + 1) % 1000
+  return `${prefix}${Date.now().toString(36)}${idCounter.toString(36)}`
+}
+
+// Create an empty compartment
+export function createCompartment(id = createId("c")): Compartment {
+  return { id, split: null, dividers: [], children: [] }
+}
+
+// Clear box of the root compartment inside the carcass
+export function getInnerBox(unit: Pick<ShelvingUnitState, "width" | "height" | "thickness">): CompartmentBox {
+  const { width, height, thickness } = unit
+  return {
+    left: -width / 2 + thickness,
+    right: width / 2 - thickness,
+    bottom: -height / 2 + thickness,
+    top: height / 2 - thickness,
+  }
+}
+
+// Clear boxes of the children of a split compartment
+export function getChildBoxes(compartment: Compartment, box: CompartmentBox, thickness: number): CompartmentBox[] {
+  if (!compartment.split) return []
+
+  const horizontal = compartment.split === "horizontal"
+  const start = horizontal ? box.bottom : box.left
+  const end = horizontal ? box.top : box.right
+  const centers = compartment.dividers.map((divider) => start + divider.position * (end - start))
+  const bounds = [start, ...centers.flatMap((center) => [center - thickness / 2, center + thickness / 2]), end]
+
+  return compartment.children.map((_, i) => {
+    const from = bounds[i * 2]
+    const to = bounds[i * 2 + 1]
+    return horizontal ? { ...box, bottom: from, top: to } : { ...box, left: from, right: to }
+  })
+}
+
+// Walk the tree and work out every compartment box and member position
+export function layoutCompartments(unit: LayoutInput): CompartmentLayout {
+  const compartments: LaidOutCompartment[] = []
+  const members: Member[] = []
+
+  const visit = (compartment: Compartment, box: CompartmentBox, depthLevel: number) => {
+    compartments.push({ compartment, box, depthLevel })
+    if (!compartment.split) return
+
+    const horizontal = compartment.split === "horizontal"
+    const start = horizontal ? box.bottom : box.left
+    const end = horizontal ? box.top : box.right
+    compartment.dividers.forEach((divider) => {
+      members.push({
+        id: divider.id,
+        kind: horizontal ? "shelf" : "column",
+        compartmentId: compartment.id,
+        parentBox: box,
+        center: start + divider.position * (end - start),
+        span: horizontal ? box.right - box.left : box.top - box.bottom,
+        start: horizontal ? box.left : box.bottom,
+        adjustable: horizontal && Boolean(divider.adjustable),
+        ...(divider.banding ? { banding: divider.banding } : {}),
+        ...(divider.material ? { material: divider.material } : {}),
+      })
+    })
+
+    const childBoxes = getChildBoxes(compartment, box, unit.thickness)
+    compartment.children.forEach((child, i) => visit(child, childBoxes[i], depthLevel + 1))
+  }
+
+  visit(unit.layout, getInnerBox(unit), 0)
+  return { compartments, members }
+}
+
+// Members ordered the way they're numbered in drawings and cut lists
+// Shelves bottom to top then left to right, columns left to right then bottom to top
+export function sortMembers(members: Member[]): Member[] {
+  return [...members].sort((a, b) => {
+    if (a.kind !== b.kind) return a.kind === "shelf" ? -1 : 1
+    return a.center - b.center || a.start - b.start
+  })
+}
+
+export type NamedMember = Member & { name: string }
+
+// Number the members as "Shelf 1", "Column 1" and so on, in drawing order
+export function nameMembers(members: Member[]): NamedMember[] {
+  const counters = { shelf: 0, column: 0 }
+  return sortMembers(members).map((member) => {
+    counters[member.kind] += 1
+    return { ...member, name: `${member.kind === "shelf" ? "Shelf" : "Column"} ${counters[member.kind]}` }
+  })
+}
+
+// Find a compartment by id
+export function findCompartment(root: Compartment, id: string): Compartment | null {
+  if (root.id === id) return root
+  for (const child of root.children) {
+    const found = findCompartment(child, id)
+    if (found) return found
+  }
+  return null
+}
+
+// Find the compartment that owns a divider
+export function findDividerOwner(root: Compartment, dividerId: string): Compartment | null {
+  if (root.dividers.some((divider) => divider.id === dividerId)) return root
+  for (const child of root.children) {
+    const found = findDividerOwner(child, dividerId)
+    if (found) return found
+  }
+  return null
+}
+
+// Return a copy of the tree with one compartment replaced
+export function updateCompartment(
+  root: Compartment,
+  id: string,
+  update: (compartment: Compartment) => Compartment,
+): Compartment {
+  if (root.id === id) return update(root)
+  if (root.children.length === 0) return root
+
+  return { ...root, children: root.children.map((child) => updateCompartment(child, id, update)) }
+}
+
+// Divider positions giving equal clear openings across a span
+export function evenDividerPositions(count: number, span: number, thickness: number): number[] {
+  const opening = (span - (count - 1) * thickness) / count
+  return Array.from({ length: count - 1 }, (_, i) => ((i + 1) * opening + i * thickness + thickness / 2) / span)
+}
+
+// Span of a compartment along a split direction
+function getSpan(box: CompartmentBox, direction: SplitDirection): number {
+  return direction === "horizontal" ? box.top - box.bottom : box.right - box.left
+}
+
+// Box of a compartment by id
+export function getCompartmentBox(unit: LayoutInput, id: string): CompartmentBox | null {
+  return layoutCompartments(unit).compartments.find((laidOut) => laidOut.compartment.id === id)?.box ?? null
+}
+
+// Deepest a compartment may sit in the tree, far beyond any real unit, so designs from links and files are bounded
+export const MAX_LAYOUT_DEPTH = 32
+
+// Split a compartment into `count` equal compartments, replacing any existing split
+export function splitCompartment<T extends LayoutInput>(
+  unit: T,
+  id: string,
+  direction: SplitDirection,
+  count: number,
+): T {
+  const target = layoutCompartments(unit).compartments.find((laidOut) => laidOut.compartment.id === id)
+  if (!target || target.depthLevel >= MAX_LAYOUT_DEPTH || count < 2) return unit
+  const { box } = target
+
+  const positions = evenDividerPositions(count, getSpan(box, direction), unit.thickness)
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, id, (compartment) => ({
+      ...compartment,
+      split: direction,
+      dividers: positions.map((position) => ({ id: createId(direction === "horizontal" ? "s" : "v"), position })),
+      children: Array.from({ length: count }, () => createCompartment()),
+      front: undefined,
+    })),
+  }
+}
+
+// Remove the split of a compartment and everything inside it
+export function mergeCompartment<T extends LayoutInput>(unit: T, id: string): T {
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, id, (compartment) => ({
+      ...compartment,
+      split: null,
+      dividers: [],
+      children: [],
+    })),
+  }
+}
+
+// Close an unsplit compartment with a front, or open it up again with null
+export function setCompartmentFront<T extends LayoutInput>(unit: T, id: string, front: CompartmentFront | null): T {
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, id, (compartment) =>
+      compartment.split ? compartment : { ...compartment, front: front ?? undefined },
+    ),
+  }
+}
+
+// Add a shelf or column to a compartment, in the middle of its largest opening
+export function addDivider<T extends LayoutInput>(unit: T, id: string, direction: SplitDirection): T {
+  const compartment = findCompartment(unit.layout, id)
+  if (!compartment) return unit
+
+  // An empty compartment is simply split in two
+  if (!compartment.split) return splitCompartment(unit, id, direction, 2)
+
+  // A compartment split the other way keeps its contents below or left of the new divider
+  if (compartment.split !== direction) {
+    return {
+      ...unit,
+      layout: updateCompartment(unit.layout, id, (current) => ({
+        ...current,
+        split: direction,
+        dividers: [{ id: createId(direction === "horizontal" ? "s" : "v"), position: 0.5 }],
+        children: [{ ...current, id: createId("c") }, createCompartment()],
+      })),
+    }
+  }
+
+  // Otherwise split the largest opening, keeping its contents in the lower or left part
+  const positions = [0, ...compartment.dividers.map((divider) => divider.position), 1]
+  let largest = 0
+  for (let i = 1; i < positions.length - 1; i++) {
+    if (positions[i + 1] - positions[i] > positions[largest + 1] - positions[largest]) largest = i
+  }
+
+  const position = (positions[largest] + positions[largest + 1]) / 2
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, id, (current) => ({
+      ...current,
+      dividers: [
+        ...current.dividers.slice(0, largest),
+        { id: createId(direction === "horizontal" ? "s" : "v"), position },
+        ...current.dividers.slice(largest),
+      ],
+      children: [
+        ...current.children.slice(0, largest + 1),
+        createCompartment(),
+        ...current.children.slice(largest + 1),
+      ],
+    })),
+  }
+}
+
+// Remove a shelf or column, merging the two compartments it separated
+export function removeDivider<T extends LayoutInput>(unit: T, dividerId: string): T {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  if (!owner) return unit
+
+  const index = owner.dividers.findIndex((divider) => divider.id === dividerId)
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, owner.id, (current) => {
+      // Removing the last divider leaves a single, empty compartment
+      if (current.dividers.length === 1) {
+        return { ...current, split: null, dividers: [], children: [] }
+      }
+
+      // Keep whichever of the two merged compartments has contents, preferring the lower or left one
+      const [first, second] = current.children.slice(index, index + 2)
+      const kept = first.split || !second.split ? first : second
+
+      return {
+        ...current,
+        dividers: current.dividers.filter((divider) => divider.id !== dividerId),
+        children: [...current.children.slice(0, index), kept, ...current.children.slice(index + 2)],
+      }
+    }),
+  }
+}
+
+// Add a copy of a shelf or column in the middle of the larger opening next to it, keeping that opening's contents
+// below or left of the copy
+export function duplicateDivider<T extends LayoutInput>(unit: T, dividerId: string): T {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  if (!owner) return unit
+
+  const index = owner.dividers.findIndex((divider) => divider.id === dividerId)
+  const positions = [0, ...owner.dividers.map((divider) => divider.position), 1]
+  const opening =
+    positions[index + 2] - positions[index + 1] >= positions[index + 1] - positions[index] ? index + 1 : index
+  const copy = {
+    ...owner.dividers[index],
+    id: createId(owner.split === "horizontal" ? "s" : "v"),
+    position: (positions[opening] + positions[opening + 1]) / 2,
+  }
+
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, owner.id, (current) => ({
+      ...current,
+      dividers: [...current.dividers.slice(0, opening), copy, ...current.dividers.slice(opening)],
+      children: [
+        ...current.children.slice(0, opening + 1),
+        createCompartment(),
+        ...current.children.slice(opening + 1),
+      ],
+    })),
+  }
+}
+
+// Move a shelf or column, keeping it between its neighbours
+export function moveDivider<T extends LayoutInput>(unit: T, dividerId: string, position: number): T {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  if (!owner) return unit
+
+  const index = owner.dividers.findIndex((divider) => divider.id === dividerId)
+  const min = index > 0 ? owner.dividers[index - 1].position : 0
+  const max = index < owner.dividers.length - 1 ? owner.dividers[index + 1].position : 1
+  const clamped = Math.min(max, Math.max(min, position))
+
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, owner.id, (current) => ({
+      ...current,
+      dividers: current.dividers.map((divider) =>
+        divider.id === dividerId ? { ...divider, position: clamped } : divider,
+      ),
+    })),
+  }
+}
+
+// Make a shelf adjustable on pins, or join it in place
+export function setDividerAdjustable<T extends LayoutInput>(unit: T, dividerId: string, adjustable: boolean): T {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  if (!owner) return unit
+
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, owner.id, (current) => ({
+      ...current,
+      dividers: current.dividers.map((divider) => {
+        if (divider.id !== dividerId) return divider
+        const { adjustable: _, ...fixed } = divider
+        return adjustable ? { ...divider, adjustable: true } : fixed
+      }),
+    })),
+  }
+}
+
+// Band the edges of a shelf or column, or band it the usual way again with null
+export function setDividerBanding<T extends LayoutInput>(unit: T, dividerId: string, banding: EdgeBanding | null): T {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  if (!owner) return unit
+
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, owner.id, (current) => ({
+      ...current,
+      dividers: current.dividers.map((divider) => {
+        if (divider.id !== dividerId) return divider
+        const { banding: _, ...usual } = divider
+        return banding ? { ...divider, banding } : usual
+      }),
+    })),
+  }
+}
+
+// Make a shelf or column from another board, or from the board of its role again with null
+export function setDividerMaterial<T extends LayoutInput>(
+  unit: T,
+  dividerId: string,
+  material: MaterialName | null,
+): T {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  if (!owner) return unit
+
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, owner.id, (current) => ({
+      ...current,
+      dividers: current.dividers.map((divider) => {
+        if (divider.id !== dividerId) return divider
+        const { material: _, ...usual } = divider
+        return material ? { ...divider, material } : usual
+      }),
+    })),
+  }
+}
+
+export type PositionDividerResult<T> = { success: true; unit: T } | { success: false; errors: string[] }
+
+// Range a divider's centre can take, in abstract units, without overlapping its neighbours or leaving its compartment
+export function getDividerRange(unit: LayoutInput, dividerId: string): { min: number; max: number } | null {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  const box = owner && getCompartmentBox(unit, owner.id)
+  if (!owner || !owner.split || !box) return null
+
+  const horizontal = owner.split === "horizontal"
+  const start = horizontal ? box.bottom : box.left
+  const end = horizontal ? box.top : box.right
+  const center = (position: number) => start + position * (end - start)
+  const index = owner.dividers.findIndex((divider) => divider.id === dividerId)
+  const previous = owner.dividers[index - 1]
+  const next = owner.dividers[index + 1]
+  const { thickness } = unit
+
+  return {
+    min: previous ? center(previous.position) + thickness : start + thickness / 2,
+    max: next ? center(next.position) - thickness : end - thickness / 2,
+  }
+}
+
+// Place a divider's centre at an exact position in abstract units, rejecting positions where it would
+// overlap a neighbour or stick out of its compartment
+export function positionDivider<T extends LayoutInput>(
+  unit: T,
+  dividerId: string,
+  center: number,
+): PositionDividerResult<T> {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  const box = owner && getCompartmentBox(unit, owner.id)
+  const range = getDividerRange(unit, dividerId)
+  if (!owner || !box || !range) return { success: false, errors: ["The shelf or column no longer exists"] }
+
+  // Allow for rounding of millimeter values
+  const tolerance = 0.00005
+  const horizontal = owner.split === "horizontal"
+  if (!Number.isFinite(center) || center < range.min - tolerance || center > range.max + tolerance) {
+    const origin = horizontal ? unit.height / 2 : unit.width / 2
+    return {
+      success: false,
+      errors: [
+        `The centre must be between ${toMM(range.min + origin)} and ${toMM(range.max + origin)} mm from the ${horizontal ? "bottom" : "left"} of the unit, clear of its neighbours`,
+      ],
+    }
+  }
+
+  const clamped = Math.min(range.max, Math.max(range.min, center))
+  const start = horizontal ? box.bottom : box.left
+  const end = horizontal ? box.top : box.right
+  return { success: true, unit: moveDivider(unit, dividerId, (clamped - start) / (end - start)) }
+}
+
+// Space the dividers of a compartment evenly, either centre to centre or with equal clear openings
+export function distributeDividers<T extends LayoutInput>(unit: T, id: string, spacing: "centres" | "openings"): T {
+  const compartment = findCompartment(unit.layout, id)
+  const box = getCompartmentBox(unit, id)
+  if (!compartment?.split || !box) return unit
+
+  const count = compartment.dividers.length + 1
+  const positions =
+    spacing === "openings"
+      ? evenDividerPositions(count, getSpan(box, compartment.split), unit.thickness)
+      : compartment.dividers.map((_, i) => (i + 1) / count)
+
+  return {
+    ...unit,
+    layout: updateCompartment(unit.layout, id, (current) => ({
+      ...current,
+      dividers: current.dividers.map((divider, i) => ({ ...divider, position: positions[i] })),
+    })),
+  }
+}
+
+// Change the number of openings of a split compartment, adding dividers in the largest openings
+// or removing the last ones
+export function setOpeningCount<T extends LayoutInput>(unit: T, id: string, count: number): T {
+  let next = unit
+  for (;;) {
+    const compartment = findCompartment(next.layout, id)
+    if (!compartment?.split) return next
+
+    const openings = compartment.dividers.length + 1
+    if (openings === count) return next
+    next =
+      openings < count
+        ? addDivider(next, id, compartment.split)
+        : removeDivider(next, compartment.dividers[compartment.dividers.length - 1].id)
+  }
+}
+
+// Largest number of openings a subdivision gesture divides an opening into
+export const MAX_SUBDIVISIONS = 5
+
+export type Subdivision = {
+  compartmentId: string // Opening just above a shelf or right of a column
+  direction: SplitDirection // Bays above a shelf, rows right of a column
+  count: number // Current number of openings
+}
+
+// How the opening a shelf or column carries is divided: the one above a shelf into bays, the one right of a column
+// into rows. Null when it's divided the other way, so changing it would throw away what's inside.
+export function getSubdivision(unit: LayoutInput, dividerId: string): Subdivision | null {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  if (!owner) return null
+
+  const opening = owner.children[owner.dividers.findIndex((divider) => divider.id === dividerId) + 1]
+  const direction: SplitDirection = owner.split === "horizontal" ? "vertical" : "horizontal"
+  if (!opening || (opening.split && opening.split !== direction)) return null
+
+  return { compartmentId: opening.id, direction, count: opening.split ? opening.dividers.length + 1 : 1 }
+}
+
+// Divide the opening a shelf or column carries into a number of equal bays or rows, keeping what's already there
+export function setSubdivision<T extends LayoutInput>(unit: T, dividerId: string, count: number): T {
+  const subdivision = getSubdivision(unit, dividerId)
+  if (!subdivision || subdivision.count === count) return unit
+
+  const { compartmentId, direction } = subdivision
+  return subdivision.count === 1
+    ? splitCompartment(unit, compartmentId, direction, count)
+    : setOpeningCount(unit, compartmentId, count)
+}
+
+// Build a grid layout: columns across the whole unit, each column compartment split by the same shelves
+// Positions are 0-1 percentages of the inner width and height
+export function createGridLayout(shelfPositions: number[], columnPositions: number[]): Compartment {
+  const createRows = (): Compartment =>
+    shelfPositions.length === 0
+      ? createCompartment()
+      : {
+          id: createId("c"),
+          split: "horizontal",
+          dividers: [...shelfPositions].sort((a, b) => a - b).map((position) => ({ id: createId("s"), position })),
+          children: [...shelfPositions, 0].map(() => createCompartment()),
+        }
+
+  if (columnPositions.length === 0) return createRows()
+
+  return {
+    id: "root",
+    split: "vertical",
+    dividers: [...columnPositions].sort((a, b) => a - b).map((position) => ({ id: createId("v"), position })),
+    children: [...columnPositions, 0].map(() => createRows()),
+  }
+}
+
+// Find the first compartment split in a direction, searching from a compartment outwards
+export function findSplitCompartment(root: Compartment, direction: SplitDirection): Compartment | null {
+  const queue = [root]
+  while (queue.length > 0) {
+    const compartment = queue.shift()!
+    if (compartment.split === direction) return compartment
+    queue.push(...compartment.children)
+  }
+  return null
+}
+
+// Count the shelves and columns in a tree
+export function countDividers(root: Compartment): { shelves: number; columns: number } {
+  const counts = { shelves: 0, columns: 0 }
+  const visit = (compartment: Compartment) => {
+    if (compartment.split === "horizontal") counts.shelves += compartment.dividers.length
+    if (compartment.split === "vertical") counts.columns += compartment.dividers.length
+    compartment.children.forEach(visit)
+  }
+  visit(root)
+  return counts
+}
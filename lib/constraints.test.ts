@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+import type { Compartment } from "./compartments"
+import { constrainDividerMove, type ClearanceOptions } from "./constraints"
+
+// 20 mm boards around a clear opening 1000 mm high, with shelves 300 and 600 mm up it
+const unit = {
+  width: 1,
+  height: 1.04,
+  thickness: 0.02,
+  layout: {
+    id: "root",
+    split: "horizontal",
+    dividers: [
+      { id: "s1", position: 0.3 },
+      { id: "s2", position: 0.6 },
+    ],
+    children: [
+      { id: "c1", split: null, dividers: [], children: [] },
+      { id: "c2", split: null, dividers: [], children: [] },
+      { id: "c3", split: null, dividers: [], children: [] },
+    ],
+  } satisfies Compartment,
+}
+
+const clamp: ClearanceOptions = { minGap: 150, mode: "clamp" }
+const push: ClearanceOptions = { minGap: 150, mode: "push" }
+
+// Positions of the shelves after a move
+const positions = (moved: { unit: typeof unit }) => moved.unit.layout.dividers.map((divider) => divider.position)
+
+describe("constrainDividerMove", () => {
+  it("moves a shelf freely while every opening stays at least the gap", () => {
+    const moved = constrainDividerMove(unit, "s1", 0.4, clamp)
+
+    expect(positions(moved)[0]).toBeCloseTo(0.4)
+    expect(positions(moved)[1]).toBeCloseTo(0.6)
+    expect(moved.limited).toBe(false)
+    expect(moved.pushedIds).toEqual([])
+  })
+
+  it("clamps a shelf the gap and a board's thickness from the carcass", () => {
+    const moved = constrainDividerMove(unit, "s1", 0.05, clamp)
+
+    expect(positions(moved)[0]).toBeCloseTo(0.16)
+    expect(moved.limited).toBe(true)
+  })
+
+  it("clamps a shelf the gap and a board's thickness from its neighbour, leaving the neighbour be", () => {
+    const moved = constrainDividerMove(unit, "s1", 0.55, clamp)
+
+    expect(positions(moved)[0]).toBeCloseTo(0.43)
+    expect(positions(moved)[1]).toBeCloseTo(0.6)
+    expect(moved.limited).toBe(true)
+    expect(moved.pushedIds).toEqual([])
+  })
+
+  it("pushes a neighbour along to keep the gap", () => {
+    const moved = constrainDividerMove(unit, "s1", 0.55, push)
+
+    expect(positions(moved)[0]).toBeCloseTo(0.55)
+    expect(positions(moved)[1]).toBeCloseTo(0.72)
+    expect(moved.limited).toBe(false)
+    expect(moved.pushedIds).toEqual(["s2"])
+  })
+
+  it("stops pushing when the pushed neighbour reaches the carcass", () => {
+    const moved = constrainDividerMove(unit, "s1", 0.9, push)
+
+    expect(positions(moved)[0]).toBeCloseTo(0.67)
+    expect(positions(moved)[1]).toBeCloseTo(0.84)
+    expect(moved.limited).toBe(true)
+    expect(moved.pushedIds).toEqual(["s2"])
+  })
+
+  it("lets an opening already narrower than the gap stay as it is but not narrow further", () => {
+    const narrow = {
+      ...unit,
+      layout: { ...unit.layout, dividers: [unit.layout.dividers[0], { id: "s2", position: 0.35 }] },
+    }
+
+    expect(positions(constrainDividerMove(narrow, "s2", 0.4, clamp))[1]).toBeCloseTo(0.4)
+    expect(positions(constrainDividerMove(narrow, "s2", 0.33, clamp))[1]).toBeCloseTo(0.35)
+  })
+})
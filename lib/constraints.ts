@@ -0,0 +1,122 @@
+/**
+ * Constraints
+ * Keeps shelves and columns a minimum clear gap apart while they are dragged
+ *
+ * A shelf or column can only move between the members on either side of it in
+ * the compartment it divides, or the sides of that compartment, and must leave
+ * every opening it borders at least the minimum gap wide, allowing for the
+ * thickness of the boards. Openings that are themselves divided need room for
+ * what's inside them: their own openings scale with them, so each must stay
+ * at least the minimum gap too.
+ *
+ * In clamp mode a dragged member stops at the first limit it meets. In push
+ * mode it carries its neighbours along until they reach the side of the
+ * compartment. Openings already narrower than the minimum, say after the unit
+ * was made smaller, may stay as they are but can't be made any narrower.
+ */
+
+import { findDividerOwner, getCompartmentBox, updateCompartment, type Compartment } from "./compartments"
+import { UNIT_TO_MM, type ShelvingUnitState } from "./shelving-unit"
+
+export type ClearanceOptions = {
+  minGap: number // mm of clear opening between members, and between members and the carcass
+  mode: "clamp" | "push" // Stop at a neighbour, or push it along
+}
+
+export const DEFAULT_CLEARANCE_OPTIONS: ClearanceOptions = {
+  minGap: 150,
+  mode: "clamp",
+}
+
+export type ConstrainedMove<T> = {
+  unit: T
+  limited: boolean // true when the member couldn't go as far as it was dragged
+  pushedIds: string[] // Neighbours pushed along with it
+}
+
+type ConstraintInput = Pick<ShelvingUnitState, "width" | "height" | "thickness" | "layout">
+
+// Allow for rounding when telling whether a member was held back
+const TOLERANCE = 1e-9
+
+// Smallest height, or width, of a compartment that keeps every opening inside it at least the gap, in abstract units.
+// Openings split across it all share its height; openings stacked along it share it in proportion.
+export function getMinimumSpan(compartment: Compartment, vertical: boolean, gap: number, thickness: number): number {
+  if (!compartment.split) return gap
+
+  const children = compartment.children.map((child) => getMinimumSpan(child, vertical, gap, thickness))
+  if ((compartment.split === "horizontal") !== vertical) return Math.max(...children)
+
+  // An opening between centres a and b of a span S is (b - a) S less half a board at each divided side
+  const positions = [0, ...compartment.dividers.map((divider) => divider.position), 1]
+  return Math.max(
+    ...children.map((minimum, k) => {
+      const boards = ((k > 0 ? 1 : 0) + (k < children.length - 1 ? 1 : 0)) * (thickness / 2)
+      const share = positions[k + 1] - positions[k]
+      return share > 0 ? (minimum + boards) / share : Infinity
+    }),
+  )
+}
+
+// Move a shelf or column to a position, as a 0-1 percentage of the compartment it divides, within the limits
+export function constrainDividerMove<T extends ConstraintInput>(
+  unit: T,
+  dividerId: string,
+  position: number,
+  options: ClearanceOptions,
+): ConstrainedMove<T> {
+  const owner = findDividerOwner(unit.layout, dividerId)
+  const box = owner && getCompartmentBox(unit, owner.id)
+  if (!owner || !owner.split || !box) return { unit, limited: false, pushedIds: [] }
+
+  const vertical = owner.split === "horizontal"
+  const start = vertical ? box.bottom : box.left
+  const end = vertical ? box.top : box.right
+  const { thickness } = unit
+  const gap = options.minGap / UNIT_TO_MM
+  const index = owner.dividers.findIndex((divider) => divider.id === dividerId)
+
+  // Centres, with the sides of the compartment as boards half outside it so every opening is measured alike
+  const centres = [
+    start - thickness / 2,
+    ...owner.dividers.map((divider) => start + divider.position * (end - start)),
+    end + thickness / 2,
+  ]
+
+  // Distance each opening needs between the centres either side of it, or what it has if that is less already
+  const needed = owner.children.map((child, k) => {
+    const current = centres[k + 1] - centres[k] - thickness
+    return Math.min(getMinimumSpan(child, vertical, gap, thickness), current) + thickness
+  })
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+  // The divider at `index` sits at centres[index + 1], between openings `index` and `index + 1`
+  const [min, max] =
+    options.mode === "push"
+      ? [centres[0] + sum(needed.slice(0, index + 1)), centres[centres.length - 1] - sum(needed.slice(index + 1))]
+      : [centres[index] + needed[index], centres[index + 2] - needed[index + 1]]
+  const wanted = start + position * (end - start)
+  const centre = Math.min(max, Math.max(min, wanted))
+
+  const next = [...centres]
+  next[index + 1] = centre
+  if (options.mode === "push") {
+    for (let k = index; k >= 1; k--) next[k] = Math.min(next[k], next[k + 1] - needed[k])
+    for (let k = index + 2; k < next.length - 1; k++) next[k] = Math.max(next[k], next[k - 1] + needed[k - 1])
+  }
+
+  return {
+    unit: {
+      ...unit,
+      layout: updateCompartment(unit.layout, owner.id, (current) => ({
+        ...current,
+        dividers: current.dividers.map((divider, i) => ({
+          ...divider,
+          position: (next[i + 1] - start) / (end - start),
+        })),
+      })),
+    },
+    limited: Math.abs(centre - wanted) > TOLERANCE,
+    pushedIds: owner.dividers.filter((_, i) => i !== index && next[i + 1] !== centres[i + 1]).map(({ id }) => id),
+  }
+}
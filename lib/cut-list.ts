@@ -0,0 +1,262 @@
+/**
+ * Cut List
+ * Derives every physical panel of a shelving unit from its design state
+ *
+ * Construction assumed by the cut list:
+ * - Top and bottom run the full width and depth
+ * - Sides sit between the top and bottom
+ * - An inset back sits between the sides, top and bottom, a full back covers the
+ *   whole back of the carcass, which is one thickness shallower to make room for it
+ * - Shelves and columns span the compartment they divide, butting against its faces
+ * - Shelves and columns are set back by one thickness at the front and back
+ * - Doors, drawer fronts and flaps are inset in their compartment, see fronts.ts
+ * - Sides, shelves, columns and an inset back housed in dados or rabbets are cut
+ *   longer by the housing depth at every housed end, see joinery.ts
+ * - Adjustable shelves rest on pins and are cut a little short of their opening,
+ *   see drilling.ts
+ * - The front edge of every carcass panel, shelf and column is edge banded, and
+ *   doors, drawer fronts and flaps are banded all round, unless a panel is set to
+ *   be banded otherwise
+ * - Every panel is cut from the board of the unit, unless another is set for its
+ *   role or, for shelves, columns and fronts, for the panel itself
+ */
+
+import { layoutCompartments, nameMembers } from "./compartments"
+import { getDrawerBox, layoutFronts } from "./fronts"
+import { ADJUSTABLE_SHELF_CLEARANCE } from "./drilling"
+import { housingDepth } from "./joinery"
+import {
+  MATERIAL_INFO,
+  toMM,
+  type CarcassPanel,
+  type EdgeBanding,
+  type MaterialName,
+  type ShelvingUnitState,
+} from "./shelving-unit"
+
+export type PanelRole =
+  "top" | "bottom" | "side" | "back" | "shelf" | "column" | "door" | "drawer-front" | "flap" | "drawer-box"
+
+export const PANEL_ROLE_LABELS: Record<PanelRole, string> = {
+  top: "Top",
+  bottom: "Bottom",
+  side: "Sides",
+  back: "Back",
+  shelf: "Shelves",
+  column: "Columns",
+  door: "Doors",
+  "drawer-front": "Drawer fronts",
+  flap: "Flaps",
+  "drawer-box": "Drawer boxes",
+}
+
+// "length" means the grain runs along the panel length, "none" means the board has no grain
+export type GrainDirection = "length" | "none"
+
+export type Panel = {
+  id: string
+  name: string
+  role: PanelRole
+  length: number // mm, along the grain
+  width: number // mm
+  thickness: number // mm
+  quantity: number
+  material: MaterialName
+  grain: GrainDirection
+  banding: EdgeBanding
+}
+
+// Edges banded on each role unless set otherwise: the front edge, all round the fronts, and none out of sight
+export const DEFAULT_EDGE_BANDING: Record<PanelRole, EdgeBanding> = {
+  top: { long: 1, short: 0 },
+  bottom: { long: 1, short: 0 },
+  side: { long: 1, short: 0 },
+  back: { long: 0, short: 0 },
+  shelf: { long: 1, short: 0 },
+  column: { long: 1, short: 0 },
+  door: { long: 2, short: 2 },
+  "drawer-front": { long: 2, short: 2 },
+  flap: { long: 2, short: 2 },
+  "drawer-box": { long: 0, short: 0 },
+}
+
+// Banded edges in words, such as "1 long, 2 short"
+export function describeBanding(banding: EdgeBanding): string {
+  const edges = [
+    ...(banding.long > 0 ? [`${banding.long} long`] : []),
+    ...(banding.short > 0 ? [`${banding.short} short`] : []),
+  ]
+  return edges.length > 0 ? edges.join(", ") : "none"
+}
+
+// Length of edge banding on a panel in mm, for every piece of it
+export function getBandedLength(panel: Panel): number {
+  return (panel.banding.long * panel.length + panel.banding.short * panel.width) * panel.quantity
+}
+
+export type CutListInput = Pick<
+  ShelvingUnitState,
+  | "width"
+  | "height"
+  | "depth"
+  | "thickness"
+  | "layout"
+  | "material"
+  | "roleMaterials"
+  | "backPanel"
+  | "joinery"
+  | "edgeBanding"
+>
+
+// Board a panel is cut from: its own, that of its role, or the unit's
+export function getPanelMaterial(
+  unit: Pick<ShelvingUnitState, "material" | "roleMaterials">,
+  role: PanelRole,
+  material?: MaterialName,
+): MaterialName {
+  return material ?? unit.roleMaterials[role] ?? unit.material
+}
+
+// Id of a panel box's line in the cut list, where both sides are one line
+export const toCutListId = (panelId: string) =>
+  panelId === "left-side" || panelId === "right-side" ? "sides" : panelId
+
+// Derive every panel needed to build the unit
+export function derivePanels(unit: CutListInput): Panel[] {
+  const { width, height, depth, thickness, backPanel, joinery, edgeBanding } = unit
+  const t = toMM(thickness)
+
+  // Board and grain of a panel, by its role or its own board
+  const board = (role: PanelRole, own?: MaterialName) => {
+    const material = getPanelMaterial(unit, role, own)
+    const grain: GrainDirection = MATERIAL_INFO[material].hasGrain ? "length" : "none"
+    return { material, grain }
+  }
+
+  // Extra length at each housed end
+  const carcassHousing = housingDepth(joinery.carcass, t)
+  const memberHousing = housingDepth(joinery.members, t)
+  const backHousing = backPanel === "inset" ? housingDepth(joinery.back, t) : 0
+  const innerHeight = toMM(height - thickness * 2)
+  const innerWidth = toMM(width - thickness * 2)
+  const memberDepth = toMM(depth - thickness * 2)
+  const carcassDepth = toMM(backPanel === "full" ? depth - thickness : depth)
+  const carcassBanding = (id: CarcassPanel, role: PanelRole) => edgeBanding[id] ?? DEFAULT_EDGE_BANDING[role]
+
+  const panels: Panel[] = [
+    {
+      id: "top",
+      name: "Top",
+      role: "top",
+      length: toMM(width),
+      width: carcassDepth,
+      thickness: t,
+      quantity: 1,
+      ...board("top"),
+      banding: carcassBanding("top", "top"),
+    },
+    {
+      id: "bottom",
+      name: "Bottom",
+      role: "bottom",
+      length: toMM(width),
+      width: carcassDepth,
+      thickness: t,
+      quantity: 1,
+      ...board("bottom"),
+      banding: carcassBanding("bottom", "bottom"),
+    },
+    {
+      id: "sides",
+      name: "Side (left/right)",
+      role: "side",
+      length: innerHeight + carcassHousing * 2,
+      width: carcassDepth,
+      thickness: t,
+      quantity: 2,
+      ...board("side"),
+      banding: carcassBanding("sides", "side"),
+    },
+  ]
+
+  if (backPanel !== "none") {
+    panels.push({
+      id: "back",
+      name: "Back",
+      role: "back",
+      length: backPanel === "full" ? toMM(height) : innerHeight + backHousing * 2,
+      width: backPanel === "full" ? toMM(width) : innerWidth + backHousing * 2,
+      thickness: t,
+      quantity: 1,
+      ...board("back"),
+      banding: carcassBanding("back", "back"),
+    })
+  }
+
+  // Every shelf and column spans the compartment it divides, plus its housings, less the clearance of adjustable ones
+  for (const member of nameMembers(layoutCompartments(unit).members)) {
+    panels.push({
+      id: `${member.kind}-${member.id}`,
+      name: member.name,
+      role: member.kind,
+      length: toMM(member.span) + (member.adjustable ? -ADJUSTABLE_SHELF_CLEARANCE : memberHousing) * 2,
+      width: memberDepth,
+      thickness: t,
+      quantity: 1,
+      ...board(member.kind, member.material),
+      banding: member.banding ?? DEFAULT_EDGE_BANDING[member.kind],
+    })
+  }
+
+  // Doors have the grain running up, drawer fronts and flaps across
+  for (const front of layoutFronts(unit)) {
+    const frontWidth = toMM(front.box.right - front.box.left)
+    const frontHeight = toMM(front.box.top - front.box.bottom)
+    panels.push({
+      id: front.id,
+      name: front.name,
+      role: front.kind,
+      length: front.kind === "door" ? frontHeight : frontWidth,
+      width: front.kind === "door" ? frontWidth : frontHeight,
+      thickness: t,
+      quantity: 1,
+      ...board(front.kind, front.material),
+      banding: DEFAULT_EDGE_BANDING[front.kind],
+    })
+
+    if (front.kind !== "drawer-front") continue
+
+    // Drawer box: sides, a front and back between them, and a bottom inside all four
+    const box = getDrawerBox(front, unit)
+    const drawerBoxPanel = (id: string, name: string, length: number, width: number, quantity: number): Panel => ({
+      id: `${front.id}-${id}`,
+      name: `${front.name} ${name}`,
+      role: "drawer-box",
+      length,
+      width,
+      thickness: t,
+      quantity,
+      ...board("drawer-box"),
+      banding: DEFAULT_EDGE_BANDING["drawer-box"],
+    })
+
+    panels.push(
+      drawerBoxPanel("sides", "side", box.depth, box.height, 2),
+      drawerBoxPanel("ends", "front/back", box.width - t * 2, box.height, 2),
+      drawerBoxPanel("bottom", "bottom", box.width - t * 2, box.depth - t * 2, 1),
+    )
+  }
+
+  return panels
+}
+
+// Total number of pieces and board area (m²) of a cut list
+export function summarizePanels(panels: Panel[]): { pieces: number; area: number } {
+  return panels.reduce(
+    (summary, panel) => ({
+      pieces: summary.pieces + panel.quantity,
+      area: summary.area + (panel.length * panel.width * panel.quantity) / 1_000_000,
+    }),
+    { pieces: 0, area: 0 },
+  )
+}
@@ -0,0 +1,108 @@
+/**
+ * Deflection
+ * Estimates how far each shelf sags under load
+ *
+ * Each shelf is treated as a simply supported beam across its clear span,
+ * carrying its own weight plus the applied load spread evenly along its length:
+ *
+ *   deflection = 5 w L⁴ / (384 E I),  I = b h³ / 12
+ *
+ * where w is the load per mm, L the clear span, E the board's modulus of
+ * elasticity of the shelf's own board, b the shelf depth and h the board
+ * thickness. A shelf fails when it sags more than its span divided by
+ * DEFLECTION_LIMIT_RATIO.
+ */
+
+import { layoutCompartments, nameMembers, type NamedMember } from "./compartments"
+import { getPanelMaterial } from "./cut-list"
+import { MATERIAL_INFO, toMM, type ShelvingUnitState } from "./shelving-unit"
+
+// Shelves may sag at most L/200
+export const DEFLECTION_LIMIT_RATIO = 200
+
+// Thickest board suggested before giving up on thickening the shelf
+const MAX_SUGGESTED_THICKNESS = 50 // mm
+
+const GRAVITY = 9.81 // m/s²
+
+export type ShelfLoad = {
+  mode: "per-shelf" | "per-metre" // kg on each shelf, or kg per metre of shelf
+  value: number // kg or kg/m
+}
+
+export const DEFAULT_SHELF_LOAD: ShelfLoad = {
+  mode: "per-shelf",
+  value: 25,
+}
+
+export type ShelfDeflection = {
+  shelf: NamedMember
+  span: number // mm
+  deflection: number // mm
+  limit: number // mm
+  overloaded: boolean
+  columnFixes: boolean // true when a column under the middle of the shelf brings it within the limit
+  suggestedThickness: number | null // mm, thinnest board within the limit, null when none is practical
+}
+
+export type DeflectionInput = Pick<
+  ShelvingUnitState,
+  "width" | "height" | "depth" | "thickness" | "layout" | "material" | "roleMaterials"
+>
+
+// Sag in mm of a shelf with a given span, depth and thickness in mm, under an applied load in N/mm
+function shelfDeflection(
+  span: number,
+  depth: number,
+  thickness: number,
+  appliedLoad: number,
+  material: DeflectionInput["material"],
+): number {
+  const { modulus, density } = MATERIAL_INFO[material]
+  const selfWeight = (density * depth * thickness * GRAVITY) / 1e9 // N/mm
+  const inertia = (depth * thickness ** 3) / 12 // mm⁴
+
+  return (5 * (appliedLoad + selfWeight) * span ** 4) / (384 * modulus * inertia)
+}
+
+// Estimate the sag of every shelf in the unit
+export function analyzeShelves(unit: DeflectionInput, load: ShelfLoad): ShelfDeflection[] {
+  const t = toMM(unit.thickness)
+  const totalDepth = toMM(unit.depth)
+  const shelves = nameMembers(layoutCompartments(unit).members).filter((member) => member.kind === "shelf")
+
+  return shelves.map((shelf) => {
+    const span = toMM(shelf.span)
+    const material = getPanelMaterial(unit, "shelf", shelf.material)
+    const limit = span / DEFLECTION_LIMIT_RATIO
+
+    // Spread the load along the shelf, so the load per mm holds when the span changes
+    const appliedLoad = load.mode === "per-shelf" ? (load.value * GRAVITY) / span : (load.value * GRAVITY) / 1000
+    const deflection = shelfDeflection(span, totalDepth - t * 2, t, appliedLoad, material)
+
+    // A column in the middle leaves two spans of half the remaining width
+    const halfSpan = (span - t) / 2
+    const columnFixes =
+      halfSpan > 0 &&
+      shelfDeflection(halfSpan, totalDepth - t * 2, t, appliedLoad, material) <= halfSpan / DEFLECTION_LIMIT_RATIO
+
+    // Thicker boards are stiffer but also shallower between the front and back setbacks
+    let suggestedThickness: number | null = null
+    for (let h = Math.ceil(t); h <= MAX_SUGGESTED_THICKNESS; h++) {
+      if (shelfDeflection(span, totalDepth - h * 2, h, appliedLoad, material) <= limit) {
+        suggestedThickness = h
+        break
+      }
+    }
+
+    return {
+      shelf,
+      span,
+      deflection,
+      limit,
+      overloaded: deflection > limit,
+      columnFixes,
+      suggestedThickness,
+    }
+  })
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest"
+import { MAX_LAYOUT_DEPTH, type Compartment } from "./compartments"
+import {
+  DESIGN_DOCUMENT_VERSION,
+  DESIGN_FORMAT,
+  migrateDesignDocument,
+  parseDesignDocument,
+  parseDesignDocumentValue,
+  serializeDesign,
+} from "./design-document"
+import { DEFAULT_JOINERY } from "./joinery"
+
+// A unit as it was saved before designs were versioned, with shelves and columns spanning the whole unit
+const bareUnit = {
+  width: 3,
+  height: 2,
+  depth: 1,
+  thickness: 0.05,
+  shelves: [{ id: "s1", position: 0.5, divisions: 1 }],
+  columns: [{ id: "c1", position: 0.5, divisions: 1 }],
+  showWireframe: false,
+  showDimensions: true,
+  viewMode: "3d",
+  material: "wood",
+}
+
+// The same unit without the shelves and columns, as later versions saved it
+const { shelves, columns, ...laterUnit } = bareUnit
+
+const openLayout: Compartment = { id: "root", split: null, dividers: [], children: [] }
+
+// A document of an earlier version, holding what that version saved
+function savedDocument(version: number, unit: Record<string, unknown>) {
+  return { format: DESIGN_FORMAT, version, savedAt: "2024-01-01T00:00:00.000Z", unit }
+}
+
+// A chain of compartments each split in two, the lower half split again, `depth` levels deep
+function nestedLayout(depth: number): Compartment {
+  let layout: Compartment = { id: `c${depth}`, split: null, dividers: [], children: [] }
+  for (let level = depth - 1; level >= 0; level--) {
+    layout = {
+      id: `c${level}`,
+      split: "horizontal",
+      dividers: [{ id: `d${level}`, position: 0.5 }],
+      children: [layout, { id: `o${level}`, split: null, dividers: [], children: [] }],
+    }
+  }
+  return layout
+}
+
+describe("migrateDesignDocument", () => {
+  it("wraps a bare unit state in a document and brings it up to the current version", () => {
+    const migrated = migrateDesignDocument(bareUnit)
+
+    expect(migrated).toMatchObject({ format: DESIGN_FORMAT, version: DESIGN_DOCUMENT_VERSION })
+    expect(migrated.unit).toMatchObject({ backPanel: "inset", joinery: DEFAULT_JOINERY })
+    expect(migrated.unit).not.toHaveProperty("shelves")
+    expect(migrated.unit).not.toHaveProperty("columns")
+  })
+
+  it("turns version 1 shelves and columns into a grid of compartments inside the carcass", () => {
+    const migrated = migrateDesignDocument(savedDocument(1, bareUnit))
+    const layout = (migrated.unit as { layout: Compartment }).layout
+
+    expect(layout.split).toBe("vertical")
+    expect(layout.dividers.map((divider) => divider.position)).toEqual([0.5])
+    expect(layout.children).toHaveLength(2)
+    for (const child of layout.children) {
+      expect(child.split).toBe("horizontal")
+      expect(child.dividers.map((divider) => divider.position)).toEqual([0.5])
+    }
+  })
+
+  it("gives version 2 designs an inset back and version 3 designs butt joints", () => {
+    const fromVersion2 = migrateDesignDocument(savedDocument(2, { ...laterUnit, layout: openLayout }))
+    expect(fromVersion2.unit).toMatchObject({ backPanel: "inset", joinery: DEFAULT_JOINERY })
+
+    const fromVersion3 = migrateDesignDocument(
+      savedDocument(3, { ...laterUnit, layout: openLayout, backPanel: "none" }),
+    )
+    expect(fromVersion3.unit).toMatchObject({ backPanel: "none", joinery: DEFAULT_JOINERY })
+  })
+})
+
+describe("parseDesignDocumentValue", () => {
+  it("reads a bare unit state as a current design", () => {
+    const result = parseDesignDocumentValue(bareUnit)
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.unit).toMatchObject({ width: 3, backPanel: "inset", joinery: DEFAULT_JOINERY, roleMaterials: {} })
+    expect(parseDesignDocument(serializeDesign(result.unit))).toEqual(result)
+  })
+
+  it("turns down designs saved by a newer version of the app", () => {
+    const result = parseDesignDocumentValue(savedDocument(DESIGN_DOCUMENT_VERSION + 1, {}))
+
+    expect(result.success).toBe(false)
+  })
+
+  it("turns down layouts nested deeper than a design may be without overflowing the stack", () => {
+    const version3Unit = { ...laterUnit, backPanel: "inset" }
+    const within = parseDesignDocumentValue(
+      savedDocument(3, { ...version3Unit, layout: nestedLayout(MAX_LAYOUT_DEPTH) }),
+    )
+    expect(within.success).toBe(true)
+
+    const deeper = parseDesignDocumentValue(
+      savedDocument(3, { ...version3Unit, layout: nestedLayout(MAX_LAYOUT_DEPTH + 1) }),
+    )
+    expect(deeper.success).toBe(false)
+
+    expect(() =>
+      parseDesignDocumentValue(savedDocument(3, { ...version3Unit, layout: nestedLayout(5000) })),
+    ).not.toThrow()
+  })
+})
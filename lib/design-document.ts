@@ -0,0 +1,368 @@
+/**
+ * Design Document
+ * Versioned JSON format for saving and reloading shelving unit designs
+ *
+ * Every saved file is wrapped in a document envelope with a format name and
+ * a version number. Older documents are upgraded one version at a time by the
+ * migrations below before being validated against the current schema.
+ */
+
+import { z } from "zod"
+import { MAX_LAYOUT_DEPTH, createGridLayout, type Compartment } from "./compartments"
+import { MAX_DRAWERS } from "./fronts"
+import { DEFAULT_JOINERY, JOINT_FAMILIES, JOINT_INFO } from "./joinery"
+import type { JointFamily, ShelvingUnitState } from "./shelving-unit"
+
+export const DESIGN_FORMAT = "shelving-unit-design"
+export const DESIGN_DOCUMENT_VERSION = 4
+
+// Key used to keep the current design in localStorage
+export const DESIGN_STORAGE_KEY = "shelving-unit-design"
+
+const materialSchema = z.enum(["wood", "white", "black", "walnut", "oak"])
+
+const edgeCountSchema = z.union([z.literal(0), z.literal(1), z.literal(2)])
+
+const edgeBandingSchema = z.object({ long: edgeCountSchema, short: edgeCountSchema })
+
+const dividerSchema = z.object({
+  id: z.string().min(1),
+  position: z.number().min(0, "must be between 0 and 1").max(1, "must be between 0 and 1"),
+  adjustable: z.boolean().optional(),
+  banding: edgeBandingSchema.optional(),
+  material: materialSchema.optional(),
+})
+
+const frontSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("door"), hinge: z.enum(["left", "right"]), material: materialSchema.optional() }),
+  z.object({
+    type: z.literal("drawers"),
+    count: z
+      .number()
+      .int("must be a whole number")
+      .min(1, `must be between 1 and ${MAX_DRAWERS}`)
+      .max(MAX_DRAWERS, `must be between 1 and ${MAX_DRAWERS}`),
+    material: materialSchema.optional(),
+  }),
+  z.object({ type: z.literal("flap"), material: materialSchema.optional() }),
+])
+
+const compartmentSchema: z.ZodType<Compartment> = z.lazy(() =>
+  z
+    .object({
+      id: z.string().min(1),
+      split: z.enum(["horizontal", "vertical"]).nullable(),
+      dividers: z.array(dividerSchema),
+      children: z.array(compartmentSchema),
+      front: frontSchema.optional(),
+    })
+    .superRefine((compartment, ctx) => {
+      if (compartment.split && compartment.front) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "A split compartment can't have a front",
+          path: ["front"],
+        })
+      }
+      if (!compartment.split && (compartment.dividers.length > 0 || compartment.children.length > 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "An unsplit compartment can't have dividers" })
+      }
+      if (compartment.split && compartment.children.length !== compartment.dividers.length + 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "A split compartment needs exactly one more child than dividers",
+          path: ["children"],
+        })
+      }
+      if (compartment.split && compartment.dividers.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A split compartment needs at least one divider" })
+      }
+      if (compartment.dividers.some((divider, i) => i > 0 && divider.position < compartment.dividers[i - 1].position)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Dividers must be ordered by position",
+          path: ["dividers"],
+        })
+      }
+    }),
+)
+
+// Depth of the deepest compartment in a raw layout, 0 for an undivided unit, measured without recursion so even a
+// layout too deep to validate can be measured
+function getLayoutDepth(layout: unknown): number {
+  let deepest = 0
+  const pending: Array<[unknown, number]> = [[layout, 0]]
+  for (let next = pending.pop(); next; next = pending.pop()) {
+    const [compartment, depth] = next
+    deepest = Math.max(deepest, depth)
+    const children = (compartment as { children?: unknown } | null)?.children
+    if (Array.isArray(children)) {
+      for (const child of children) pending.push([child, depth + 1])
+    }
+  }
+  return deepest
+}
+
+// The compartment tree, turned away before the recursive schema walks it when it nests deeper than any design may
+const layoutSchema = z
+  .unknown()
+  .superRefine((layout, ctx) => {
+    if (getLayoutDepth(layout) > MAX_LAYOUT_DEPTH) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Compartments can't be nested more than ${MAX_LAYOUT_DEPTH} deep`,
+        fatal: true,
+      })
+    }
+  })
+  .pipe(compartmentSchema)
+
+const jointTypeSchema = z.enum(["butt", "dado", "rabbet", "dowel", "cam-lock"])
+
+const joinerySchema = z
+  .object({ carcass: jointTypeSchema, members: jointTypeSchema, back: jointTypeSchema })
+  .superRefine((joinery, ctx) => {
+    for (const family of Object.keys(JOINT_FAMILIES) as JointFamily[]) {
+      if (!JOINT_FAMILIES[family].types.includes(joinery[family])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${JOINT_FAMILIES[family].label} can't be made with ${JOINT_INFO[joinery[family]].label.toLowerCase()} joints`,
+          path: [family],
+        })
+      }
+    }
+  })
+
+const unitSchema = z
+  .object({
+    width: z.number().positive("must be greater than 0"),
+    height: z.number().positive("must be greater than 0"),
+    depth: z.number().positive("must be greater than 0"),
+    thickness: z.number().positive("must be greater than 0"),
+    layout: layoutSchema,
+    backPanel: z.enum(["none", "full", "inset"]),
+    joinery: joinerySchema,
+    edgeBanding: z
+      .object({
+        top: edgeBandingSchema.optional(),
+        bottom: edgeBandingSchema.optional(),
+        sides: edgeBandingSchema.optional(),
+        back: edgeBandingSchema.optional(),
+      })
+      .default({}),
+    showWireframe: z.boolean().default(false),
+    showDimensions: z.boolean().default(true),
+    showDrilling: z.boolean().default(true),
+    dimensionStyle: z.enum(["overall", "chain", "clear"]).default("overall"),
+    viewMode: z.enum(["3d", "orthographic"]).default("3d"),
+    sectionMemberId: z.string().nullable().default(null),
+    unitSystem: z.enum(["mm", "cm", "in"]).default("mm"),
+    material: materialSchema,
+    roleMaterials: z
+      .object({
+        top: materialSchema.optional(),
+        bottom: materialSchema.optional(),
+        side: materialSchema.optional(),
+        back: materialSchema.optional(),
+        shelf: materialSchema.optional(),
+        column: materialSchema.optional(),
+        door: materialSchema.optional(),
+        "drawer-front": materialSchema.optional(),
+        flap: materialSchema.optional(),
+        "drawer-box": materialSchema.optional(),
+      })
+      .default({}),
+  })
+  .refine((unit) => unit.thickness * 2 < Math.min(unit.width, unit.height, unit.depth), {
+    message: "Material thickness is too large for the unit dimensions",
+    path: ["thickness"],
+  })
+
+const documentSchema = z.object({
+  format: z.literal(DESIGN_FORMAT),
+  version: z.literal(DESIGN_DOCUMENT_VERSION),
+  savedAt: z.string(),
+  unit: unitSchema,
+})
+
+export type DesignDocument = z.infer<typeof documentSchema>
+
+export type ParseDesignResult = { success: true; unit: ShelvingUnitState } | { success: false; errors: string[] }
+
+// Upgrades a document from the version in the key to the next version
+const MIGRATIONS: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0 is a bare unit state saved before documents were versioned
+  0: (document) => ({
+    format: DESIGN_FORMAT,
+    version: 1,
+    savedAt: new Date(0).toISOString(),
+    unit: document,
+  }),
+
+  // Version 1 had shelves and columns spanning the whole unit, positioned as a percentage of
+  // the outer height and width. They become a grid of compartments positioned within the
+  // carcass. Division blocks were decorative and have no counterpart in the compartment tree.
+  1: (document) => {
+    const unit = document.unit as Record<string, unknown> | undefined
+    if (!unit || !Array.isArray(unit.shelves) || !Array.isArray(unit.columns)) {
+      return { ...document, version: 2 }
+    }
+
+    const { shelves, columns, ...rest } = unit
+    const height = Number(unit.height)
+    const width = Number(unit.width)
+    const thickness = Number(unit.thickness)
+    const toInner = (position: unknown, size: number) =>
+      Math.min(1, Math.max(0, (Number(position) * size - thickness) / (size - thickness * 2)))
+
+    return {
+      ...document,
+      version: 2,
+      unit: {
+        ...rest,
+        layout: createGridLayout(
+          shelves.map((shelf: { position?: unknown }) => toInner(shelf.position, height)),
+          columns.map((column: { position?: unknown }) => toInner(column.position, width)),
+        ),
+      },
+    }
+  },
+
+  // Version 2 always had an inset back, and no fronts
+  2: (document) => ({
+    ...document,
+    version: 3,
+    unit: { backPanel: "inset", ...(document.unit as Record<string, unknown> | undefined) },
+  }),
+
+  // Version 3 had every panel butt jointed and screwed
+  3: (document) => ({
+    ...document,
+    version: 4,
+    unit: { joinery: DEFAULT_JOINERY, ...(document.unit as Record<string, unknown> | undefined) },
+  }),
+}
+
+// Work out which version a raw document was saved with
+function getDocumentVersion(document: Record<string, unknown>): number {
+  if (document.format === DESIGN_FORMAT && typeof document.version === "number") {
+    return document.version
+  }
+
+  return 0
+}
+
+// Bring a raw document up to the current version
+export function migrateDesignDocument(document: Record<string, unknown>): Record<string, unknown> {
+  let migrated = document
+  let version = getDocumentVersion(migrated)
+
+  while (version < DESIGN_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`No migration available from version ${version}`)
+    }
+
+    migrated = migrate(migrated)
+    version = getDocumentVersion(migrated)
+  }
+
+  return migrated
+}
+
+// Turn zod issues into messages a designer can act on
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path
+      .map((segment) => (typeof segment === "number" ? `[${segment}]` : `.${segment}`))
+      .join("")
+      .replace(/^\./, "")
+    return path ? `${path}: ${issue.message}` : issue.message
+  })
+}
+
+// Validate and upgrade a parsed JSON value into a unit state
+export function parseDesignDocumentValue(value: unknown): ParseDesignResult {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { success: false, errors: ["The file does not contain a shelving unit design"] }
+  }
+
+  const record = value as Record<string, unknown>
+  const version = getDocumentVersion(record)
+  if (version > DESIGN_DOCUMENT_VERSION) {
+    return {
+      success: false,
+      errors: [
+        `This design was saved with format version ${version}, but this app only supports up to version ${DESIGN_DOCUMENT_VERSION}`,
+      ],
+    }
+  }
+
+  let migrated: Record<string, unknown>
+  try {
+    migrated = migrateDesignDocument(record)
+  } catch (e) {
+    return { success: false, errors: [(e as Error).message] }
+  }
+
+  // Nothing in a document should make validation throw, but a design that can't be read mustn't take the app down
+  let result: ReturnType<typeof documentSchema.safeParse>
+  try {
+    result = documentSchema.safeParse(migrated)
+  } catch (e) {
+    return { success: false, errors: [(e as Error).message] }
+  }
+  if (!result.success) {
+    return { success: false, errors: formatIssues(result.error) }
+  }
+
+  return { success: true, unit: result.data.unit }
+}
+
+// Parse the text of a saved design file
+export function parseDesignDocument(text: string): ParseDesignResult {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    return { success: false, errors: ["The file is not valid JSON"] }
+  }
+
+  return parseDesignDocumentValue(value)
+}
+
+// Wrap a unit state in a versioned document
+export function createDesignDocument(unit: ShelvingUnitState): DesignDocument {
+  return {
+    format: DESIGN_FORMAT,
+    version: DESIGN_DOCUMENT_VERSION,
+    savedAt: new Date().toISOString(),
+    unit,
+  }
+}
+
+// Serialize a unit state as a versioned JSON document
+export function serializeDesign(unit: ShelvingUnitState): string {
+  return JSON.stringify(createDesignDocument(unit), null, 2)
+}
+
+// Save the design to localStorage
+export function saveDesignToStorage(unit: ShelvingUnitState): void {
+  try {
+    window.localStorage.setItem(DESIGN_STORAGE_KEY, serializeDesign(unit))
+  } catch (e) {
+    console.error(`Error saving design: ${(e as Error).message}`)
+  }
+}
+
+// Load the design from localStorage, or null when nothing valid is stored
+export function loadDesignFromStorage(): ParseDesignResult | null {
+  let text: string | null = null
+  try {
+    text = window.localStorage.getItem(DESIGN_STORAGE_KEY)
+  } catch (e) {
+    console.error(`Error loading design: ${(e as Error).message}`)
+  }
+
+  return text === null ? null : parseDesignDocument(text)
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest"
+import { MAX_LAYOUT_DEPTH, type Compartment } from "./compartments"
+import { decodeDesign, encodeDesign } from "./design-url"
+import type { ShelvingUnitState } from "./shelving-unit"
+
+const layout: Compartment = {
+  id: "root",
+  split: "vertical",
+  dividers: [{ id: "v1", position: 0.5, banding: { long: 2, short: 0 }, material: "oak" }],
+  children: [
+    {
+      id: "left",
+      split: "horizontal",
+      dividers: [{ id: "s1", position: 0.25, adjustable: true }],
+      children: [
+        { id: "drawers", split: null, dividers: [], children: [], front: { type: "drawers", count: 3 } },
+        { id: "open", split: null, dividers: [], children: [] },
+      ],
+    },
+    { id: "door", split: null, dividers: [], children: [], front: { type: "door", hinge: "right", material: "white" } },
+  ],
+}
+
+const unit: ShelvingUnitState = {
+  width: 1.2,
+  height: 2,
+  depth: 0.4,
+  thickness: 0.018,
+  layout,
+  backPanel: "full",
+  joinery: { carcass: "dowel", members: "dado", back: "rabbet" },
+  edgeBanding: { top: { long: 1, short: 2 } },
+  showWireframe: false,
+  showDimensions: true,
+  showDrilling: true,
+  dimensionStyle: "overall",
+  viewMode: "3d",
+  sectionMemberId: null,
+  unitSystem: "mm",
+  material: "walnut",
+  roleMaterials: { back: "white", shelf: "oak" },
+}
+
+// A chain of compartments each split in two, the lower half split again, `depth` levels deep
+function nestedLink(depth: number): string {
+  return `6.1200.2000.400.18.wood.i.bbb.xxxx.xxxxxxxxxx.${"h5000".repeat(depth)}${"o".repeat(depth + 1)}`
+}
+
+describe("encodeDesign and decodeDesign", () => {
+  it("round trips every field of a design", () => {
+    const encoded = encodeDesign(unit)
+    const decoded = decodeDesign(encoded)
+
+    expect(decoded.success).toBe(true)
+    if (!decoded.success) return
+    expect(encodeDesign(decoded.unit)).toBe(encoded)
+    expect(decoded.unit).toMatchObject({
+      width: 1.2,
+      height: 2,
+      depth: 0.4,
+      thickness: 0.018,
+      backPanel: "full",
+      joinery: unit.joinery,
+      edgeBanding: unit.edgeBanding,
+      material: "walnut",
+      roleMaterials: unit.roleMaterials,
+    })
+    expect(decoded.unit.layout.children[1].front).toEqual({ type: "door", hinge: "right", material: "white" })
+    expect(decoded.unit.layout.children[0].dividers[0]).toMatchObject({ position: 0.25, adjustable: true })
+  })
+
+  it("decodes links of earlier versions", () => {
+    const decoded = decodeDesign("1.3000.2000.1000.50.wood.500x2.")
+
+    expect(decoded.success).toBe(true)
+    if (!decoded.success) return
+    expect(decoded.unit.layout.split).toBe("horizontal")
+    expect(decoded.unit.backPanel).toBe("inset")
+  })
+
+  it("turns down malformed links", () => {
+    expect(decodeDesign("6.1200.2000").success).toBe(false)
+    expect(decodeDesign("6.1200.2000.400.18.wood.i.bbb.xxxx.xxxxxxxxxx.h5000o").success).toBe(false)
+    expect(decodeDesign("6.abc.2000.400.18.wood.i.bbb.xxxx.xxxxxxxxxx.o").success).toBe(false)
+  })
+
+  it("decodes layouts nested as deep as a design may be", () => {
+    expect(decodeDesign(nestedLink(MAX_LAYOUT_DEPTH)).success).toBe(true)
+  })
+
+  it("turns down deeper layouts without overflowing the stack", () => {
+    expect(decodeDesign(nestedLink(MAX_LAYOUT_DEPTH + 1)).success).toBe(false)
+    expect(() => decodeDesign(nestedLink(5000))).not.toThrow()
+    expect(decodeDesign(nestedLink(5000)).success).toBe(false)
+  })
+})
@@ -0,0 +1,418 @@
+/**
+ * Design URL
+ * Compact encoding of a shelving unit design for shareable links
+ *
+ * A design is stored in the `design` query parameter as dot separated fields:
+ *
+ *   6.<width>.<height>.<depth>.<thickness>.<material>.<back>.<joinery>.<banding>.<materials>.<layout>
+ *
+ * The leading 6 is the encoding version. Dimensions are in millimeters, and the
+ * back panel is `n`one, `f`ull or `i`nset. The joinery is one letter for each of
+ * the carcass, shelf and column, and back joints: `b`utt, `d`ado, `r`abbet,
+ * `w` for dowel or `c`am-lock. The banding of the top, bottom, sides and back is
+ * `x` where they are banded the usual way, or two digits for the number of long
+ * and short edges banded. The materials are one letter for each panel role, in
+ * the order of ROLE_ORDER: `x` where the role is made from the unit's material,
+ * or the code of another board from MATERIAL_CODES. The compartment tree is
+ * written depth first: `o` is an open compartment, `l` and `r` are closed by a
+ * door hinged on the left or right, `d` followed by a count by drawers, and `f`
+ * by a flap. `h` or `v` followed by `_` separated divider positions is a
+ * compartment split horizontally or vertically, followed by its children.
+ * Positions are in ten-thousandths of the compartment's inner height or width.
+ * A `p` after a position makes the shelf adjustable on pins, `e` with two digits
+ * bands the shelf or column like the carcass panels above, and `m` with a
+ * material code makes it from that board, as it does after a front. So
+ * `v5000h5000d3ol` is two side-by-side compartments with a shelf halfway up the
+ * left one, three drawers below it, and a door on the right one.
+ *
+ * Version 5 links had the same fields without the materials, and every panel
+ * was made from the unit's material. Version 4 links had neither the materials
+ * nor the banding, and every panel was banded the usual way. Version 3 links
+ * had neither the banding nor the joinery, and were all butt jointed. Version 2
+ * links had neither the joinery nor the back panel, and only open compartments.
+ * Version 1 links stored shelves and columns spanning the whole unit:
+ *
+ *   1.<width>.<height>.<depth>.<thickness>.<material>.<shelves>.<columns>
+ *
+ * Decoded designs go through the same validation and migrations as saved
+ * design files.
+ */
+
+import { MAX_LAYOUT_DEPTH, type Compartment, type CompartmentFront } from "./compartments"
+import type { PanelRole } from "./cut-list"
+import { DESIGN_FORMAT, parseDesignDocumentValue, type ParseDesignResult } from "./design-document"
+import {
+  UNIT_TO_MM,
+  toMM,
+  type BackPanel,
+  type CarcassPanel,
+  type EdgeBanding,
+  type JointFamily,
+  type JointType,
+  type MaterialName,
+  type ShelvingUnitState,
+} from "./shelving-unit"
+
+export const DESIGN_URL_PARAM = "design"
+
+const URL_ENCODING_VERSION = "6"
+const POSITION_SCALE = 10000
+
+const BACK_PANEL_CODES: Record<BackPanel, string> = {
+  none: "n",
+  full: "f",
+  inset: "i",
+}
+
+const JOINT_CODES: Record<JointType, string> = {
+  butt: "b",
+  dado: "d",
+  rabbet: "r",
+  dowel: "w",
+  "cam-lock": "c",
+}
+
+const JOINT_FAMILY_ORDER: JointFamily[] = ["carcass", "members", "back"]
+
+const CARCASS_PANEL_ORDER: CarcassPanel[] = ["top", "bottom", "sides", "back"]
+
+// Marks a carcass panel banded the usual way
+const USUAL_BANDING = "x"
+
+const MATERIAL_CODES: Record<MaterialName, string> = {
+  wood: "w",
+  white: "h",
+  black: "k",
+  walnut: "n",
+  oak: "o",
+}
+
+const ROLE_ORDER: PanelRole[] = [
+  "top",
+  "bottom",
+  "side",
+  "back",
+  "shelf",
+  "column",
+  "door",
+  "drawer-front",
+  "flap",
+  "drawer-box",
+]
+
+// Marks a panel role made from the unit's material
+const UNIT_MATERIAL = "x"
+
+const INVALID_LINK: ParseDesignResult = { success: false, errors: ["The link does not contain a valid design"] }
+
+// Encode the front of an unsplit compartment, and the board it is made from
+function encodeFront(front: CompartmentFront | undefined): string {
+  if (!front) return "o"
+  const material = front.material ? `m${MATERIAL_CODES[front.material]}` : ""
+  if (front.type === "door") return `${front.hinge === "left" ? "l" : "r"}${material}`
+  if (front.type === "drawers") return `d${front.count}${material}`
+  return `f${material}`
+}
+
+// Decode a material code, or undefined when it isn't one
+function decodeMaterial(code: string | undefined): MaterialName | undefined {
+  return (Object.keys(MATERIAL_CODES) as MaterialName[]).find((material) => MATERIAL_CODES[material] === code)
+}
+
+// Decode the materials of the panel roles, leaving out those made from the unit's material
+function decodeRoleMaterials(encoded: string): Partial<Record<PanelRole, MaterialName>> | null {
+  if (encoded.length !== ROLE_ORDER.length) return null
+
+  const roleMaterials: Partial<Record<PanelRole, MaterialName>> = {}
+  for (const [i, role] of ROLE_ORDER.entries()) {
+    if (encoded[i] === UNIT_MATERIAL) continue
+    const material = decodeMaterial(encoded[i])
+    if (!material) return null
+    roleMaterials[role] = material
+  }
+  return roleMaterials
+}
+
+// Encode edge banding as the number of long and short edges banded
+function encodeBanding(banding: EdgeBanding): string {
+  return `${banding.long}${banding.short}`
+}
+
+// Decode the two digits of an edge banding, or null when they aren't valid
+function decodeBanding(encoded: string): EdgeBanding | null {
+  const [long, short] = [...encoded].map(Number)
+  const isCount = (value: number): value is EdgeBanding["long"] => value === 0 || value === 1 || value === 2
+  return encoded.length === 2 && isCount(long) && isCount(short) ? { long, short } : null
+}
+
+// Decode the banding of the carcass panels, leaving out those banded the usual way
+function decodeCarcassBanding(encoded: string): Partial<Record<CarcassPanel, EdgeBanding>> | null {
+  const edgeBanding: Partial<Record<CarcassPanel, EdgeBanding>> = {}
+  let index = 0
+  for (const panel of CARCASS_PANEL_ORDER) {
+    if (encoded[index] === USUAL_BANDING) {
+      index++
+      continue
+    }
+    const banding = decodeBanding(encoded.slice(index, index + 2))
+    if (!banding) return null
+    edgeBanding[panel] = banding
+    index += 2
+  }
+  return index === encoded.length ? edgeBanding : null
+}
+
+// Encode the compartment tree depth first
+function encodeLayout(compartment: Compartment): string {
+  if (!compartment.split) return encodeFront(compartment.front)
+
+  const positions = compartment.dividers
+    .map((divider) => {
+      const pins = divider.adjustable ? "p" : ""
+      const banding = divider.banding ? `e${encodeBanding(divider.banding)}` : ""
+      const material = divider.material ? `m${MATERIAL_CODES[divider.material]}` : ""
+      return `${Math.round(divider.position * POSITION_SCALE)}${pins}${banding}${material}`
+    })
+    .join("_")
+  return `${compartment.split === "horizontal" ? "h" : "v"}${positions}${compartment.children.map(encodeLayout).join("")}`
+}
+
+// Decode a depth first compartment tree, giving each compartment and divider a fresh id
+function decodeLayout(encoded: string): Compartment | null {
+  let index = 0
+  let nextId = 1
+
+  // Digits from the current index on, matched in place rather than on a copy of the rest of the link
+  const digits = /\d+/y
+  const readInteger = (): number | null => {
+    digits.lastIndex = index
+    const match = digits.exec(encoded)
+    if (!match) return null
+    index += match[0].length
+    return Number(match[0])
+  }
+
+  // Read an `m` and a material code if there is one, undefined when there isn't, or null when the code isn't valid
+  const readMaterial = (): MaterialName | undefined | null => {
+    if (encoded[index] !== "m") return undefined
+    const material = decodeMaterial(encoded[index + 1])
+    index += 2
+    return material ?? null
+  }
+
+  // An unsplit compartment closed by a front, made from the board that follows it if any
+  const closed = (id: string, front: CompartmentFront): Compartment | null => {
+    const material = readMaterial()
+    if (material === null) return null
+    return { id, split: null, dividers: [], children: [], front: material ? { ...front, material } : front }
+  }
+
+  // A compartment at a depth in the tree, no deeper than a design may nest
+  const readCompartment = (depth: number): Compartment | null => {
+    if (depth > MAX_LAYOUT_DEPTH) return null
+    const token = encoded[index++]
+    const id = `c${nextId++}`
+    if (token === "o") return { id, split: null, dividers: [], children: [] }
+    if (token === "l" || token === "r") return closed(id, { type: "door", hinge: token === "l" ? "left" : "right" })
+    if (token === "f") return closed(id, { type: "flap" })
+    if (token === "d") {
+      const count = readInteger()
+      return count === null ? null : closed(id, { type: "drawers", count })
+    }
+    if (token !== "h" && token !== "v") return null
+
+    const dividers: Array<{
+      position: number
+      adjustable: boolean
+      banding: EdgeBanding | null
+      material: MaterialName | undefined
+    }> = []
+    for (;;) {
+      const position = readInteger()
+      if (position === null) return null
+      const adjustable = encoded[index] === "p"
+      if (adjustable) index++
+      let banding: EdgeBanding | null = null
+      if (encoded[index] === "e") {
+        banding = decodeBanding(encoded.slice(index + 1, index + 3))
+        if (!banding) return null
+        index += 3
+      }
+      const material = readMaterial()
+      if (material === null) return null
+      dividers.push({ position: position / POSITION_SCALE, adjustable, banding, material })
+
+      if (encoded[index] !== "_") break
+      index++
+    }
+
+    const children: Compartment[] = []
+    for (let i = 0; i <= dividers.length; i++) {
+      const child = readCompartment(depth + 1)
+      if (!child) return null
+      children.push(child)
+    }
+
+    return {
+      id,
+      split: token === "h" ? "horizontal" : "vertical",
+      dividers: dividers.map(({ position, adjustable, banding, material }) => ({
+        id: `d${nextId++}`,
+        position,
+        ...(adjustable ? { adjustable } : {}),
+        ...(banding ? { banding } : {}),
+        ...(material ? { material } : {}),
+      })),
+      children,
+    }
+  }
+
+  const layout = readCompartment(0)
+  return layout && index === encoded.length ? layout : null
+}
+
+// Decode version 1 `<position>x<divisions>` pairs of shelves or columns spanning the whole unit
+function decodeMembers(encoded: string, prefix: string): Array<{ id: string; position: number; divisions: number }> {
+  if (encoded === "") return []
+
+  return encoded.split("_").map((pair, i) => {
+    const [position, divisions] = pair.split("x")
+    return {
+      id: `${prefix}${i + 1}`,
+      position: Number(position) / POSITION_SCALE,
+      divisions: Number(divisions),
+    }
+  })
+}
+
+// Encode a design as the value of the `design` query parameter
+export function encodeDesign(unit: ShelvingUnitState): string {
+  return [
+    URL_ENCODING_VERSION,
+    toMM(unit.width),
+    toMM(unit.height),
+    toMM(unit.depth),
+    toMM(unit.thickness),
+    unit.material,
+    BACK_PANEL_CODES[unit.backPanel],
+    JOINT_FAMILY_ORDER.map((family) => JOINT_CODES[unit.joinery[family]]).join(""),
+    CARCASS_PANEL_ORDER.map((panel) => {
+      const banding = unit.edgeBanding[panel]
+      return banding ? encodeBanding(banding) : USUAL_BANDING
+    }).join(""),
+    ROLE_ORDER.map((role) => {
+      const material = unit.roleMaterials[role]
+      return material ? MATERIAL_CODES[material] : UNIT_MATERIAL
+    }).join(""),
+    encodeLayout(unit.layout),
+  ].join(".")
+}
+
+// Decode the value of the `design` query parameter, with anything a link could hold turned into an invalid link
+// rather than thrown
+export function decodeDesign(encoded: string): ParseDesignResult {
+  try {
+    return decodeDesignFields(encoded)
+  } catch (e) {
+    console.error(`Error decoding design link: ${(e as Error).message}`)
+    return INVALID_LINK
+  }
+}
+
+// Decode the dot separated fields of a design link
+function decodeDesignFields(encoded: string): ParseDesignResult {
+  const fields = encoded.split(".")
+  const expectedLengths: Record<string, number> = {
+    "1": 8,
+    "2": 7,
+    "3": 8,
+    "4": 9,
+    "5": 10,
+    [URL_ENCODING_VERSION]: 11,
+  }
+  if (fields.length !== expectedLengths[fields[0]]) return INVALID_LINK
+
+  const [version, width, height, depth, thickness, material] = fields
+  const values = [width, height, depth, thickness].map((value) => Number(value) / UNIT_TO_MM)
+  if (values.some((value) => !Number.isFinite(value))) {
+    return { success: false, errors: ["The link contains invalid dimensions"] }
+  }
+
+  const dimensions = { width: values[0], height: values[1], depth: values[2], thickness: values[3], material }
+
+  // Version 1 links hold a bare version 0 unit state, which is migrated like an old design file
+  if (version === "1") {
+    return parseDesignDocumentValue({
+      ...dimensions,
+      shelves: decodeMembers(fields[6], "s"),
+      columns: decodeMembers(fields[7], "c"),
+    })
+  }
+
+  // Version 2 links hold the same fields as version 2 design documents
+  if (version === "2") {
+    const layout = decodeLayout(fields[6])
+    if (!layout) return INVALID_LINK
+
+    return parseDesignDocumentValue({
+      format: DESIGN_FORMAT,
+      version: 2,
+      savedAt: new Date().toISOString(),
+      unit: { ...dimensions, layout },
+    })
+  }
+
+  const backPanel = (Object.keys(BACK_PANEL_CODES) as BackPanel[]).find((back) => BACK_PANEL_CODES[back] === fields[6])
+
+  // Version 3 links hold the same fields as version 3 design documents
+  if (version === "3") {
+    const layout = decodeLayout(fields[7])
+    if (!backPanel || !layout) return INVALID_LINK
+
+    return parseDesignDocumentValue({
+      format: DESIGN_FORMAT,
+      version: 3,
+      savedAt: new Date().toISOString(),
+      unit: { ...dimensions, backPanel, layout },
+    })
+  }
+
+  // Version 5 links hold the same fields without the materials, version 4 links without the banding either
+  const joints = JOINT_FAMILY_ORDER.map((_, i) =>
+    (Object.keys(JOINT_CODES) as JointType[]).find((type) => JOINT_CODES[type] === fields[7][i]),
+  )
+  const edgeBanding = version === "4" ? {} : decodeCarcassBanding(fields[8])
+  const roleMaterials = version === URL_ENCODING_VERSION ? decodeRoleMaterials(fields[9]) : {}
+  const layout = decodeLayout(fields[fields.length - 1])
+  if (
+    !backPanel ||
+    !edgeBanding ||
+    !roleMaterials ||
+    !layout ||
+    fields[7].length !== JOINT_FAMILY_ORDER.length ||
+    joints.includes(undefined)
+  ) {
+    return INVALID_LINK
+  }
+
+  return parseDesignDocumentValue({
+    format: DESIGN_FORMAT,
+    version: 4,
+    savedAt: new Date().toISOString(),
+    unit: {
+      ...dimensions,
+      backPanel,
+      joinery: Object.fromEntries(JOINT_FAMILY_ORDER.map((family, i) => [family, joints[i]])),
+      edgeBanding,
+      roleMaterials,
+      layout,
+    },
+  })
+}
+
+// Build a shareable link to a design from a base URL
+export function createDesignUrl(unit: ShelvingUnitState, baseUrl: string): string {
+  const url = new URL(baseUrl)
+  url.searchParams.set(DESIGN_URL_PARAM, encodeDesign(unit))
+  return url.toString()
+}
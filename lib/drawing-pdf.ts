@@ -0,0 +1,321 @@
+/**
+ * Drawing PDF
+ * A print-ready drawing set of a shelving unit
+ *
+ * The set has a sheet with the front, top, side and section views, a sheet with an
+ * isometric view, and as many sheets as the bill of materials needs. Every sheet
+ * has a border and a title block. Views are drawn at the largest standard
+ * scale that fits the sheet.
+ */
+
+import { derivePanels, summarizePanels, toCutListId, type CutListInput } from "./cut-list"
+import { createIsometricFaces } from "./isometric"
+import { describePanelJoinery, getJointFeatures } from "./joinery"
+import {
+  PAPER_SIZES,
+  createPdf,
+  createPdfPage,
+  drawLine,
+  drawPolygon,
+  drawRect,
+  drawText,
+  type PdfColor,
+  type PdfPage,
+  type StrokeStyle,
+} from "./pdf"
+import {
+  PROJECTION_LABELS,
+  SHEET_MARGIN,
+  TITLE_BLOCK_ROW,
+  TITLE_BLOCK_WIDTH,
+  fitScale,
+  getDrawingArea,
+  type DrawingArea,
+  type PaperName,
+} from "./drawing-sheet"
+import { MATERIAL_INFO, toMM } from "./shelving-unit"
+import { UNIT_SYSTEMS, formatLengthValue, type UnitSystem } from "./units"
+import {
+  VIEW_GAP,
+  arrangeViews,
+  createDrawingViews,
+  getDrawingBounds,
+  getPointBounds,
+  type DrawingBounds,
+  type DrawingInput,
+  type DrawingLayer,
+  type DrawingLine,
+  type DrawingText,
+  type Point,
+  type Projection,
+} from "./technical-drawing"
+
+export type DrawingSetOptions = {
+  projectName: string
+  paper: PaperName
+  projection: Projection
+  date: Date
+  unitSystem: UnitSystem // Units of the dimensions, sizes and bill of materials
+}
+
+// Text height on paper, which is the size at 1:10 of the full size drawing annotations
+const ANNOTATION_SCALE_PER_DRAWING_SCALE = 1 / 10
+
+// Capital letters of Helvetica are about 0.72 of the font size
+const CAP_HEIGHT = 0.72
+
+const BLACK: PdfColor = [0, 0, 0]
+const GREY: PdfColor = [0.45, 0.45, 0.45]
+
+const LAYER_STYLES: Record<DrawingLayer, StrokeStyle> = {
+  outline: { lineWidth: 0.5 },
+  hidden: { lineWidth: 0.25, dash: [2, 1] },
+  hatch: { lineWidth: 0.13, color: [0.35, 0.35, 0.35] },
+  dimension: { lineWidth: 0.18, color: [0.15, 0.15, 0.15] },
+  text: { lineWidth: 0.18 },
+}
+
+type TitleBlock = {
+  projectName: string
+  title: string
+  material: string
+  size: string
+  units: string
+  date: string
+  scale: string
+  projection: string
+}
+
+function hexToColor(hex: string): PdfColor {
+  const value = parseInt(hex.replace("#", ""), 16)
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255]
+}
+
+// Map full size drawing coordinates onto the paper, centred in an area
+function createTransform(bounds: DrawingBounds, scale: number, area: DrawingArea) {
+  const offsetX = area.x + (area.width - (bounds.maxX - bounds.minX) / scale) / 2
+  const offsetY = area.y + (area.height - (bounds.maxY - bounds.minY) / scale) / 2
+  return ([x, y]: Point): Point => [offsetX + (x - bounds.minX) / scale, offsetY + (y - bounds.minY) / scale]
+}
+
+function drawBorder(page: PdfPage) {
+  drawRect(page, SHEET_MARGIN, SHEET_MARGIN, page.width - SHEET_MARGIN * 2, page.height - SHEET_MARGIN * 2, {
+    stroke: { lineWidth: 0.7 },
+  })
+}
+
+// Title block in the lower right corner: project, drawing and material, then date, scale, sheet and size
+function drawTitleBlock(page: PdfPage, block: TitleBlock, sheet: number, sheetCount: number) {
+  const right = page.width - SHEET_MARGIN
+  const left = right - TITLE_BLOCK_WIDTH
+  const row = TITLE_BLOCK_ROW
+  const stroke: StrokeStyle = { lineWidth: 0.35 }
+
+  drawRect(page, left, SHEET_MARGIN, TITLE_BLOCK_WIDTH, row * 3, { fill: [1, 1, 1], stroke })
+  drawLine(page, left, SHEET_MARGIN + row, right, SHEET_MARGIN + row, stroke)
+  drawLine(page, left, SHEET_MARGIN + row * 2, right, SHEET_MARGIN + row * 2, stroke)
+
+  // A labelled cell starting at x, with a divider on its left
+  const cell = (label: string, value: string, x: number, y: number, size = 3.5) => {
+    if (x > left) drawLine(page, x, y, x, y + row, stroke)
+    drawText(page, label.toUpperCase(), x + 2, y + row - 3.5, { size: 2, color: GREY })
+    drawText(page, value, x + 2, y + 2.5, { size, font: "bold" })
+  }
+
+  cell("Project", block.projectName, left, SHEET_MARGIN + row * 2, 5)
+  cell("Drawing", block.title, left, SHEET_MARGIN + row)
+  cell("Material", block.material, left + 100, SHEET_MARGIN + row)
+  cell("Projection", block.projection, left + 145, SHEET_MARGIN + row)
+  cell("Date", block.date, left, SHEET_MARGIN)
+  cell("Scale", block.scale, left + 45, SHEET_MARGIN)
+  cell("Sheet", `${sheet} of ${sheetCount}`, left + 75, SHEET_MARGIN)
+  cell(`Size W × H × D (${block.units})`, block.size, left + 105, SHEET_MARGIN)
+}
+
+// Draw lines and text of a technical drawing onto a page
+function drawEntities(page: PdfPage, entities: Array<DrawingLine | DrawingText>, scale: number, area: DrawingArea) {
+  const transform = createTransform(getDrawingBounds(entities), scale, area)
+
+  for (const entity of entities) {
+    if (entity.type === "line") {
+      const [x1, y1] = transform(entity.start)
+      const [x2, y2] = transform(entity.end)
+      drawLine(page, x1, y1, x2, y2, LAYER_STYLES[entity.layer])
+      continue
+    }
+
+    // Drawing text is positioned by its centre, PDF text by its baseline
+    const height = entity.height / scale
+    const angle = (entity.rotation * Math.PI) / 180
+    const [cx, cy] = transform(entity.position)
+    drawText(page, entity.value, cx + Math.sin(angle) * height * 0.5, cy - Math.cos(angle) * height * 0.5, {
+      size: height / CAP_HEIGHT,
+      align: "center",
+      rotation: entity.rotation,
+      font: entity.layer === "text" ? "bold" : "regular",
+    })
+  }
+}
+
+// Front, top, side and section views with their dimensions
+function drawViewsSheet(page: PdfPage, unit: DrawingInput, unitSystem: UnitSystem, projection: Projection): number {
+  const area = getDrawingArea(page)
+  const arrange = (scale: number) => {
+    const annotationScale = scale * ANNOTATION_SCALE_PER_DRAWING_SCALE
+    return arrangeViews(createDrawingViews(unit, annotationScale), VIEW_GAP * annotationScale, unitSystem, projection)
+  }
+
+  const scale = fitScale(area, (candidate) => getDrawingBounds(arrange(candidate)))
+  drawEntities(page, arrange(scale), scale, area)
+  return scale
+}
+
+// Shaded isometric view of every panel, in the color of its board
+function drawIsometricSheet(page: PdfPage, unit: CutListInput): number {
+  const area = getDrawingArea(page)
+  const faces = createIsometricFaces(unit)
+  const bounds = getPointBounds(faces.flatMap((face) => face.points))
+  const scale = fitScale(area, () => bounds)
+  const transform = createTransform(bounds, scale, area)
+  const materials = new Map(derivePanels(unit).map((panel) => [panel.id, panel.material]))
+
+  for (const face of faces) {
+    const material = materials.get(toCutListId(face.panelId)) ?? unit.material
+    const [r, g, b] = hexToColor(MATERIAL_INFO[material].color)
+    drawPolygon(page, face.points.map(transform), {
+      fill: [r * face.shade, g * face.shade, b * face.shade],
+      stroke: { lineWidth: 0.3, color: BLACK },
+    })
+  }
+
+  return scale
+}
+
+const BOM_COLUMNS = [
+  { title: "#", width: 12, align: "right" },
+  { title: "Part", width: 80, align: "left" },
+  { title: "Qty", width: 18, align: "right" },
+  { title: "Length", width: 32, align: "right", measured: true },
+  { title: "Width", width: 32, align: "right", measured: true },
+  { title: "Thickness", width: 36, align: "right", measured: true },
+  { title: "Material", width: 44, align: "left" },
+  { title: "Grain", width: 30, align: "left" },
+  { title: "Joinery", width: 96, align: "left" },
+] as const
+
+const BOM_ROW = 7
+
+// One table of the bill of materials, with the totals on the last sheet
+function drawBomSheet(page: PdfPage, rows: string[][], totals: string | null, units: string) {
+  const area = getDrawingArea(page)
+  const top = area.y + area.height
+
+  drawText(page, "BILL OF MATERIALS", area.x, top - 6, { size: 6, font: "bold" })
+
+  const tableTop = top - 14
+  const tableWidth = BOM_COLUMNS.reduce((sum, column) => sum + column.width, 0)
+  const drawRow = (cells: string[], y: number, font: "regular" | "bold") => {
+    let x = area.x
+    BOM_COLUMNS.forEach((column, i) => {
+      const textX = column.align === "right" ? x + column.width - 2 : x + 2
+      drawText(page, cells[i], textX, y - BOM_ROW + 2.2, { size: 3.5, font, align: column.align })
+      x += column.width
+    })
+    drawLine(page, area.x, y - BOM_ROW, area.x + tableWidth, y - BOM_ROW, { lineWidth: 0.18, color: GREY })
+  }
+
+  drawRow(
+    BOM_COLUMNS.map((column) => ("measured" in column ? `${column.title} (${units})` : column.title)),
+    tableTop,
+    "bold",
+  )
+  rows.forEach((cells, i) => drawRow(cells, tableTop - BOM_ROW * (i + 1), "regular"))
+
+  if (totals) {
+    drawText(page, totals, area.x, tableTop - BOM_ROW * (rows.length + 1) - 6, { size: 3.5, font: "bold" })
+  }
+}
+
+// Number of bill of materials rows that fit on a sheet
+function bomRowsPerSheet(page: PdfPage): number {
+  return Math.max(1, Math.floor((getDrawingArea(page).height - 14 - BOM_ROW - 10) / BOM_ROW))
+}
+
+const formatScale = (scale: number) => `1:${scale}`
+
+// Create the drawing set of a unit as a PDF file
+export function createDrawingSetPdf(unit: CutListInput & DrawingInput, options: DrawingSetOptions): Uint8Array {
+  const { width, height } = PAPER_SIZES[options.paper]
+  const newPage = () => createPdfPage(width, height)
+  const { unitSystem } = options
+  const length = (mm: number) => formatLengthValue(mm, unitSystem)
+
+  const panels = derivePanels(unit)
+  const features = getJointFeatures(unit)
+  const { pieces, area } = summarizePanels(panels)
+  const rows = panels.map((panel, i) => [
+    String(i + 1),
+    panel.name,
+    String(panel.quantity),
+    length(panel.length),
+    length(panel.width),
+    length(panel.thickness),
+    MATERIAL_INFO[panel.material].label,
+    panel.grain === "length" ? "Along length" : "None",
+    describePanelJoinery(features, panel.id, unitSystem),
+  ])
+
+  // Split the bill of materials over as many sheets as it needs
+  const rowsPerSheet = bomRowsPerSheet(newPage())
+  const bomChunks: string[][][] = []
+  for (let i = 0; i < rows.length; i += rowsPerSheet) bomChunks.push(rows.slice(i, i + rowsPerSheet))
+  if (bomChunks.length === 0) bomChunks.push([])
+
+  const block = {
+    projectName: options.projectName.trim() || "Shelving Unit",
+    material: panels.every((panel) => panel.material === unit.material)
+      ? MATERIAL_INFO[unit.material].label
+      : "Mixed, see BOM",
+    size: [unit.width, unit.height, unit.depth].map((value) => length(toMM(value))).join(" × "),
+    units: UNIT_SYSTEMS[unitSystem].suffix,
+    date: options.date.toLocaleDateString(),
+    projection: PROJECTION_LABELS[options.projection],
+  }
+  const sheetCount = 2 + bomChunks.length
+  const pages: PdfPage[] = []
+
+  // Orthographic views
+  const viewsPage = newPage()
+  const viewsScale = drawViewsSheet(viewsPage, unit, unitSystem, options.projection)
+  pages.push(viewsPage)
+
+  // Isometric view
+  const isometricPage = newPage()
+  const isometricScale = drawIsometricSheet(isometricPage, unit)
+  pages.push(isometricPage)
+
+  // Bill of materials
+  bomChunks.forEach((chunk, i) => {
+    const page = newPage()
+    const isLast = i === bomChunks.length - 1
+    drawBomSheet(
+      page,
+      chunk,
+      isLast ? `Total: ${pieces} pieces, ${area.toFixed(2)} m² of board` : null,
+      UNIT_SYSTEMS[unitSystem].suffix,
+    )
+    pages.push(page)
+  })
+
+  const titles = [
+    { title: "General arrangement", scale: formatScale(viewsScale) },
+    { title: "Isometric view", scale: formatScale(isometricScale) },
+    ...bomChunks.map(() => ({ title: "Bill of materials", scale: "-" })),
+  ]
+  pages.forEach((page, i) => {
+    drawBorder(page)
+    drawTitleBlock(page, { ...block, ...titles[i] }, i + 1, sheetCount)
+  })
+
+  return createPdf(pages, `${block.projectName} drawings`)
+}
@@ -0,0 +1,104 @@
+/**
+ * Drawing Sheet
+ * Orthographic views laid out on a sheet of paper at a standard scale
+ *
+ * A sheet has a border in from the paper edge and a title block in its lower
+ * right corner. Views are arranged around the front view by the projection and
+ * drawn above the title block at the largest standard scale at which they all
+ * fit. The drawing set PDF and the technical view share these sheets, so the
+ * technical view shows the drawing as it will be printed.
+ */
+
+import { PAPER_SIZES } from "./pdf"
+import {
+  getPointBounds,
+  getViewOffsets,
+  type DrawingBounds,
+  type DrawingView,
+  type Point,
+  type Projection,
+  type ViewName,
+} from "./technical-drawing"
+
+export type PaperName = keyof typeof PAPER_SIZES
+
+export type PaperSize = { width: number; height: number } // mm
+
+export type DrawingArea = { x: number; y: number; width: number; height: number }
+
+export type SheetLayout = {
+  paper: PaperSize
+  area: DrawingArea
+  scale: number // The n of 1:n
+  centers: Record<ViewName, Point> // Full size mm from the middle of the drawing area
+}
+
+// Scales tried from largest to smallest, as the n of 1:n
+export const STANDARD_SCALES = [1, 2, 5, 10, 20, 25, 50, 100, 200]
+
+export const SHEET_MARGIN = 10 // mm from the paper edge to the border
+export const SHEET_PADDING = 8 // mm from the border to the drawing
+export const TITLE_BLOCK_WIDTH = 180
+export const TITLE_BLOCK_ROW = 12
+
+export const PROJECTION_LABELS: Record<Projection, string> = {
+  "first-angle": "First angle",
+  "third-angle": "Third angle",
+}
+
+const VIEW_NAMES: ViewName[] = ["front", "top", "side", "section"]
+
+// Space inside the border, above the title block
+export function getDrawingArea(paper: PaperSize): DrawingArea {
+  const bottom = SHEET_MARGIN + TITLE_BLOCK_ROW * 3 + SHEET_PADDING
+  return {
+    x: SHEET_MARGIN + SHEET_PADDING,
+    y: bottom,
+    width: paper.width - (SHEET_MARGIN + SHEET_PADDING) * 2,
+    height: paper.height - SHEET_MARGIN - SHEET_PADDING - bottom,
+  }
+}
+
+// Largest standard scale at which a drawing fits an area, as the n of 1:n
+export function fitScale(area: DrawingArea, getBounds: (scale: number) => DrawingBounds): number {
+  return (
+    STANDARD_SCALES.find((scale) => {
+      const bounds = getBounds(scale)
+      return (bounds.maxX - bounds.minX) / scale <= area.width && (bounds.maxY - bounds.minY) / scale <= area.height
+    }) ?? STANDARD_SCALES[STANDARD_SCALES.length - 1]
+  )
+}
+
+// Arrange views of a given size in full size mm, leaving `margin` around each for its dimensions and title
+export function layoutSheet(
+  views: Array<Pick<DrawingView, "name" | "width" | "height">>,
+  paperName: PaperName,
+  projection: Projection,
+  margin: number,
+): SheetLayout {
+  const paper = PAPER_SIZES[paperName]
+  const area = getDrawingArea(paper)
+  const offsets = getViewOffsets(views, margin * 2, projection)
+  const size = (name: ViewName) => views.find((view) => view.name === name) ?? { width: 0, height: 0 }
+
+  const bounds = getPointBounds(
+    views.flatMap((view): Point[] => {
+      const [x, y] = offsets[view.name]
+      return [
+        [x - margin, y - margin],
+        [x + view.width + margin, y + view.height + margin],
+      ]
+    }),
+  )
+  const middleX = (bounds.minX + bounds.maxX) / 2
+  const middleY = (bounds.minY + bounds.maxY) / 2
+
+  const centers = Object.fromEntries(
+    VIEW_NAMES.map((name) => {
+      const [x, y] = offsets[name]
+      return [name, [x + size(name).width / 2 - middleX, y + size(name).height / 2 - middleY]]
+    }),
+  ) as Record<ViewName, Point>
+
+  return { paper, area, scale: fitScale(area, () => bounds), centers }
+}
@@ -0,0 +1,278 @@
+/**
+ * Drilling
+ * System 32 shelf pin rows and the drilling map of every panel
+ *
+ * Adjustable shelves rest on four pins, in rows of holes drilled into the
+ * panels at their ends on the grid of the 32 mm system: two rows 37 mm in from
+ * the front and back edges of the panel, with a hole every 32 mm counted from
+ * its bottom end. The rows run between the fixed shelves, or the top and
+ * bottom of the compartment, above and below the adjustable shelves they carry,
+ * a pitch clear of them. Adjustable shelves are cut a little short of their
+ * opening so they can be lifted in and out.
+ *
+ * The drilling map lists the holes of every panel, for the shelf pins and for
+ * the dowels and cam-lock fittings of the joinery, measured from the panel's
+ * edges: along its length from its left or bottom end, across its width from
+ * its front, bottom or left edge, and into its thickness from its front,
+ * bottom or left face. Panels are measured as cut, so housed panels are longer
+ * than the part of them in view and adjustable shelves a little shorter.
+ */
+
+import { layoutCompartments } from "./compartments"
+import { findMeetingPanel, getJointFeatures, type Fitting, type JoineryInput } from "./joinery"
+import { getPanelBoxes, type PanelBox, type Vector3 } from "./panel-geometry"
+import { toMM } from "./shelving-unit"
+
+export type DrilledHole = {
+  panelId: string
+  fitting: Fitting | "shelf-pin"
+  center: Vector3 // Centre of the hole on the face it is drilled from, mm centred on the unit
+  direction: Vector3 // Unit vector into the panel
+  diameter: number // mm
+  depth: number // mm
+}
+
+export type DrillingMapHole = {
+  fitting: DrilledHole["fitting"]
+  face: string // Face or edge the hole is drilled from, such as "Right face" or "Top end"
+  along: number // mm along the length of the panel
+  across: number // mm across its width
+  into: number // mm into its thickness
+  diameter: number
+  depth: number
+}
+
+export type PanelDrilling = {
+  panelId: string
+  label: string
+  length: number // mm
+  width: number // mm
+  thickness: number // mm
+  reference: string // Edges the holes are measured from, such as "bottom end, front edge, left face"
+  holes: DrillingMapHole[]
+}
+
+// A hole seen end on, in mm
+export type HoleCircle = { center: [number, number]; radius: number }
+
+export const FITTING_LABELS: Record<DrilledHole["fitting"], string> = {
+  "shelf-pin": "Shelf pin",
+  dowel: "Dowel",
+  "cam-housing": "Cam housing",
+  "cam-bore": "Cam bolt bore",
+  "cam-bolt": "Cam bolt",
+}
+
+export const SYSTEM_32_PITCH = 32 // mm between holes in a row
+export const SYSTEM_32_SETBACK = 37 // mm from the front and back edges of a panel to its rows
+export const ADJUSTABLE_SHELF_CLEARANCE = 1 // mm at each end of an adjustable shelf
+export const PINS_PER_SHELF = 4
+
+const SHELF_PIN = { diameter: 5, depth: 10 }
+
+// Names of the faces of a panel box along each axis, at its low and high side
+const SIDE_NAMES = [
+  ["left", "right"],
+  ["bottom", "top"],
+  ["back", "front"],
+]
+
+// Edges holes are measured from along each axis: the left, the bottom and the front
+const REFERENCE_NAMES = ["left", "bottom", "front"]
+
+// Holes for the pins of every adjustable shelf, in the panels at both of its ends
+export function getShelfPinHoles(unit: JoineryInput): DrilledHole[] {
+  const t = toMM(unit.thickness)
+  const boxes = getPanelBoxes(unit)
+  const { members } = layoutCompartments(unit)
+  const holes = new Map<string, DrilledHole>()
+
+  for (const shelf of members.filter((member) => member.adjustable)) {
+    const box = boxes.find((candidate) => candidate.id === `shelf-${shelf.id}`)
+    if (!box) continue
+
+    // The rows run between the fixed shelves of the compartment, or its top and bottom
+    const fixed = members.filter(
+      (member) => member.compartmentId === shelf.compartmentId && member.kind === "shelf" && !member.adjustable,
+    )
+    const below = Math.max(
+      shelf.parentBox.bottom,
+      ...fixed.filter((member) => member.center < shelf.center).map((member) => member.center + unit.thickness / 2),
+    )
+    const above = Math.min(
+      shelf.parentBox.top,
+      ...fixed.filter((member) => member.center > shelf.center).map((member) => member.center - unit.thickness / 2),
+    )
+    const from = toMM(below) + SYSTEM_32_PITCH
+    const to = toMM(above) - SYSTEM_32_PITCH
+
+    for (const direction of [-1, 1] as const) {
+      const panel = findMeetingPanel(boxes, box, direction)
+      if (!panel) continue
+
+      // Drilled from the face the shelf rests against, no deeper than half the panel so both faces of a column can be
+      const face = direction < 0 ? panel.max[0] : panel.min[0]
+      const depth = Math.min(SHELF_PIN.depth, t / 2 - 1)
+      const bottom = panel.min[1]
+      for (const z of [panel.max[2] - SYSTEM_32_SETBACK, panel.min[2] + SYSTEM_32_SETBACK]) {
+        for (let k = Math.ceil((from - bottom) / SYSTEM_32_PITCH); bottom + k * SYSTEM_32_PITCH <= to; k++) {
+          const y = bottom + k * SYSTEM_32_PITCH
+          holes.set(`${panel.id}:${face}:${y}:${z}`, {
+            panelId: panel.id,
+            fitting: "shelf-pin",
+            center: [face, y, z],
+            direction: [direction, 0, 0],
+            diameter: SHELF_PIN.diameter,
+            depth,
+          })
+        }
+      }
+    }
+  }
+
+  return [...holes.values()]
+}
+
+// Every hole drilled into the panels: shelf pins, dowels and cam-lock fittings
+export function getDrilledHoles(unit: JoineryInput): DrilledHole[] {
+  const jointHoles = getJointFeatures(unit).flatMap((feature): DrilledHole[] =>
+    feature.type === "hole"
+      ? [
+          {
+            panelId: feature.panelId,
+            fitting: feature.fitting,
+            center: feature.center,
+            direction: feature.direction,
+            diameter: feature.diameter,
+            depth: feature.depth,
+          },
+        ]
+      : [],
+  )
+  return [...getShelfPinHoles(unit), ...jointHoles]
+}
+
+// Holes drilled across the width of the unit, seen end on in the side view from the right, in mm centred on the unit.
+// Holes at the same height and depth in different panels are drawn once.
+export function getSideHoleCircles(holes: DrilledHole[]): HoleCircle[] {
+  const circles = new Map<string, HoleCircle>()
+  for (const hole of holes) {
+    if (hole.direction[0] === 0) continue
+    const center: [number, number] = [-hole.center[2], hole.center[1]]
+    circles.set(`${center.join(":")}:${hole.diameter}`, { center, radius: hole.diameter / 2 })
+  }
+  return [...circles.values()]
+}
+
+// A panel box with its axes, and its size as cut, housed ends included
+export type PanelFrame = {
+  box: PanelBox
+  axes: { length: number; width: number; thickness: number }
+  allowance: { length: number; width: number } // mm cut beyond the box at each end and each edge
+  length: number // mm
+  width: number // mm
+  thickness: number // mm
+}
+
+// Axes of a panel box along its length, width and thickness, as the cut list measures them.
+// The grain of a board runs along its length.
+export function getPanelAxes(name: PanelBox["name"]): PanelFrame["axes"] {
+  switch (name) {
+    case "top":
+    case "bottom":
+    case "shelf":
+      return { length: 0, width: 2, thickness: 1 }
+    case "left-side":
+    case "right-side":
+    case "column":
+      return { length: 1, width: 2, thickness: 0 }
+    case "back":
+    case "door":
+      return { length: 1, width: 0, thickness: 2 }
+    default:
+      return { length: 0, width: 1, thickness: 2 }
+  }
+}
+
+// Every panel box with its size as cut: housed panels run into their grooves, adjustable shelves stop short.
+// The cut list works these out the same way from the layout.
+export function getPanelFrames(unit: JoineryInput): PanelFrame[] {
+  const features = getJointFeatures(unit)
+  const adjustable = new Set(
+    layoutCompartments(unit)
+      .members.filter((member) => member.adjustable)
+      .map((member) => `shelf-${member.id}`),
+  )
+
+  return getPanelBoxes(unit).map((box) => {
+    const axes = getPanelAxes(box.name)
+    const sizes = box.max.map((max, i) => max - box.min[i])
+    const housed = features.find((feature) => feature.type === "housed-end" && feature.panelId === box.id)
+    const housing = housed?.depth ?? 0
+
+    // Only the back is housed along its edges as well as its ends
+    const allowance = {
+      length: adjustable.has(box.id) ? -ADJUSTABLE_SHELF_CLEARANCE : housing,
+      width: box.name === "back" ? housing : 0,
+    }
+    return {
+      box,
+      axes,
+      allowance,
+      length: sizes[axes.length] + allowance.length * 2,
+      width: sizes[axes.width] + allowance.width * 2,
+      thickness: sizes[axes.thickness],
+    }
+  })
+}
+
+// A point on a panel measured from its edges as cut: along its length from its left or bottom end, across its width
+// from its front, bottom or left edge, and into its thickness from its front, bottom or left face
+export function toPanelPoint(frame: PanelFrame, point: Vector3): Vector3 {
+  const { box, axes, allowance } = frame
+  const fromEdge = (axis: number) => (axis === 2 ? box.max[2] - point[2] : point[axis] - box.min[axis])
+  return [fromEdge(axes.length) + allowance.length, fromEdge(axes.width) + allowance.width, fromEdge(axes.thickness)]
+}
+
+// Holes of every drilled panel, measured from the panel's edges
+export function getDrillingMap(unit: JoineryInput): PanelDrilling[] {
+  const holes = getDrilledHoles(unit)
+  const round = (value: number) => Math.round(value * 10) / 10
+
+  return getPanelFrames(unit).flatMap((frame): PanelDrilling[] => {
+    const { box, axes } = frame
+    const panelHoles = holes.filter((hole) => hole.panelId === box.id)
+    if (panelHoles.length === 0) return []
+
+    const kind = (axis: number) => (axis === axes.length ? "end" : axis === axes.width ? "edge" : "face")
+
+    return [
+      {
+        panelId: box.id,
+        label: box.label,
+        length: round(frame.length),
+        width: round(frame.width),
+        thickness: round(frame.thickness),
+        reference: [axes.length, axes.width, axes.thickness]
+          .map((axis) => `${REFERENCE_NAMES[axis]} ${kind(axis)}`)
+          .join(", "),
+        holes: panelHoles
+          .map((hole) => {
+            const axis = hole.direction.findIndex((value) => value !== 0)
+            const side = SIDE_NAMES[axis][hole.direction[axis] > 0 ? 0 : 1]
+            const [along, across, into] = toPanelPoint(frame, hole.center)
+            return {
+              fitting: hole.fitting,
+              face: `${side[0].toUpperCase()}${side.slice(1)} ${kind(axis)}`,
+              along: round(along),
+              across: round(across),
+              into: round(into),
+              diameter: hole.diameter,
+              depth: hole.depth,
+            }
+          })
+          .sort((a, b) => a.face.localeCompare(b.face) || a.along - b.along || a.across - b.across),
+      },
+    ]
+  })
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { createGridLayout } from "./compartments"
+import { DXF_LAYERS, createDrawingDxf, createDxf } from "./dxf"
+import type { ShelvingUnitState } from "./shelving-unit"
+
+const unit: ShelvingUnitState = {
+  width: 1.2,
+  height: 1.6,
+  depth: 0.4,
+  thickness: 0.018,
+  layout: createGridLayout([0.5], [0.5]),
+  backPanel: "inset",
+  joinery: { carcass: "butt", members: "butt", back: "butt" },
+  edgeBanding: {},
+  showWireframe: false,
+  showDimensions: true,
+  showDrilling: true,
+  dimensionStyle: "overall",
+  viewMode: "3d",
+  sectionMemberId: null,
+  unitSystem: "mm",
+  material: "wood",
+  roleMaterials: {},
+}
+
+// Group code and value pairs of a DXF file
+function readGroups(dxf: string): Array<[number, string]> {
+  const lines = dxf.split("\n")
+  return Array.from({ length: lines.length / 2 }, (_, i) => [Number(lines[i * 2]), lines[i * 2 + 1]])
+}
+
+// Coordinates of every line entity, as [x1, y1, x2, y2]
+function readLines(dxf: string): number[][] {
+  const pairs = readGroups(dxf)
+  return pairs.flatMap(([code, value], i) => {
+    if (code !== 0 || value !== "LINE") return []
+    const entity = new Map(pairs.slice(i + 1, i + 9))
+    return [[10, 20, 11, 21].map((key) => Number(entity.get(key)))]
+  })
+}
+
+describe("createDxf", () => {
+  it("writes whole group code and value pairs, one entity per line or text, on their layers", () => {
+    const dxf = createDxf([
+      { type: "line", layer: "hidden", start: [0, 0], end: [100, 50] },
+      { type: "text", layer: "text", position: [50, 25], height: 5, value: "Front", rotation: 0 },
+    ])
+    const pairs = readGroups(dxf)
+
+    expect(dxf.split("\n").length % 2).toBe(0)
+    expect(pairs.at(-1)).toEqual([0, "EOF"])
+    expect(pairs).toContainEqual([2, "ENTITIES"])
+    expect(readLines(dxf)).toEqual([[0, 0, 100, 50]])
+    expect(dxf).toContain(`0\nLINE\n8\n${DXF_LAYERS.hidden.name}`)
+    expect(dxf).toContain(`0\nTEXT\n8\n${DXF_LAYERS.text.name}`)
+    expect(pairs.filter(([code, value]) => code === 0 && value === "LAYER")).toHaveLength(
+      Object.keys(DXF_LAYERS).length,
+    )
+  })
+})
+
+describe("createDrawingDxf", () => {
+  it("draws the views in the units of the unit system", () => {
+    const inMillimeters = readLines(createDrawingDxf(unit, "mm"))
+    const inInches = readLines(createDrawingDxf(unit, "in"))
+
+    expect(inInches).toHaveLength(inMillimeters.length)
+    const width = (lines: number[][]) => Math.max(...lines.flatMap(([x1, , x2]) => [x1, x2]))
+    expect(width(inInches)).toBeCloseTo(width(inMillimeters) / 25.4, 2)
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * DXF
+ * Writes technical drawings as ASCII DXF files for CAD and CNC software
+ *
+ * The file is a minimal AutoCAD R12 drawing with one layer per kind of line:
+ * outlines, hidden lines, dimensions and text. Dimensions are written as plain
+ * lines and text so every reader shows them the same way. Drawings are in
+ * millimeters, or scaled to centimeters or inches for the chosen unit system.
+ */
+
+import { UNIT_SYSTEMS, type UnitSystem } from "./units"
+import {
+  VIEW_GAP,
+  arrangeViews,
+  createDrawingViews,
+  type DrawingInput,
+  type DrawingLayer,
+  type DrawingLine,
+  type DrawingText,
+} from "./technical-drawing"
+
+type DxfLayer = {
+  name: string
+  color: number // AutoCAD color index
+  lineType: "CONTINUOUS" | "DASHED"
+}
+
+// $INSUNITS codes, and whether $MEASUREMENT is metric
+const DXF_UNITS: Record<UnitSystem, { code: number; metric: boolean }> = {
+  mm: { code: 4, metric: true },
+  cm: { code: 5, metric: true },
+  in: { code: 1, metric: false },
+}
+
+export const DXF_LAYERS: Record<DrawingLayer, DxfLayer> = {
+  outline: { name: "OUTLINES", color: 7, lineType: "CONTINUOUS" },
+  hidden: { name: "HIDDEN", color: 8, lineType: "DASHED" },
+  hatch: { name: "HATCH", color: 8, lineType: "CONTINUOUS" },
+  dimension: { name: "DIMENSIONS", color: 5, lineType: "CONTINUOUS" },
+  text: { name: "TEXT", color: 7, lineType: "CONTINUOUS" },
+}
+
+// Round coordinates so the file stays readable
+const formatNumber = (value: number) => `${Math.round(value * 1000) / 1000}`
+
+// Join group code and value pairs into DXF lines
+function groups(...pairs: Array<[number, string | number]>): string {
+  return pairs.map(([code, value]) => `${code}\n${typeof value === "number" ? formatNumber(value) : value}`).join("\n")
+}
+
+function header(unitSystem: UnitSystem): string {
+  const units = DXF_UNITS[unitSystem]
+  return [
+    groups([0, "SECTION"], [2, "HEADER"]),
+    groups([9, "$ACADVER"], [1, "AC1009"]),
+    groups([9, "$INSUNITS"], [70, units.code]),
+    groups([9, "$MEASUREMENT"], [70, units.metric ? 1 : 0]),
+    groups([0, "ENDSEC"]),
+  ].join("\n")
+}
+
+function tables(): string {
+  const layers = Object.values(DXF_LAYERS)
+
+  return [
+    groups([0, "SECTION"], [2, "TABLES"]),
+    groups([0, "TABLE"], [2, "LTYPE"], [70, 2]),
+    groups([0, "LTYPE"], [2, "CONTINUOUS"], [70, 0], [3, "Solid line"], [72, 65], [73, 0], [40, 0]),
+    groups(
+      [0, "LTYPE"],
+      [2, "DASHED"],
+      [70, 0],
+      [3, "Dashed __ __ __"],
+      [72, 65],
+      [73, 2],
+      [40, 15],
+      [49, 10],
+      [49, -5],
+    ),
+    groups([0, "ENDTAB"]),
+    groups([0, "TABLE"], [2, "LAYER"], [70, layers.length]),
+    ...layers.map((layer) => groups([0, "LAYER"], [2, layer.name], [70, 0], [62, layer.color], [6, layer.lineType])),
+    groups([0, "ENDTAB"]),
+    groups([0, "ENDSEC"]),
+  ].join("\n")
+}
+
+function lineEntity(entity: DrawingLine): string {
+  return groups(
+    [0, "LINE"],
+    [8, DXF_LAYERS[entity.layer].name],
+    [10, entity.start[0]],
+    [20, entity.start[1]],
+    [30, 0],
+    [11, entity.end[0]],
+    [21, entity.end[1]],
+    [31, 0],
+  )
+}
+
+// Text is centred on its position, both horizontally and vertically
+function textEntity(entity: DrawingText): string {
+  return groups(
+    [0, "TEXT"],
+    [8, DXF_LAYERS[entity.layer].name],
+    [10, entity.position[0]],
+    [20, entity.position[1]],
+    [30, 0],
+    [40, entity.height],
+    [1, entity.value],
+    [50, entity.rotation],
+    [72, 1],
+    [11, entity.position[0]],
+    [21, entity.position[1]],
+    [31, 0],
+    [73, 2],
+  )
+}
+
+// Scale lines and text drawn in millimeters to the units of the unit system
+function scaleEntities(entities: Array<DrawingLine | DrawingText>, unitSystem: UnitSystem) {
+  const factor = 1 / UNIT_SYSTEMS[unitSystem].mmPerUnit
+  const scale = ([x, y]: [number, number]): [number, number] => [x * factor, y * factor]
+
+  return entities.map((entity) =>
+    entity.type === "line"
+      ? { ...entity, start: scale(entity.start), end: scale(entity.end) }
+      : { ...entity, position: scale(entity.position), height: entity.height * factor },
+  )
+}
+
+// Write a set of lines and text, drawn in the units of the unit system, as a DXF file
+export function createDxf(entities: Array<DrawingLine | DrawingText>, unitSystem: UnitSystem = "mm"): string {
+  return [
+    header(unitSystem),
+    tables(),
+    groups([0, "SECTION"], [2, "ENTITIES"]),
+    ...entities.map((entity) => (entity.type === "line" ? lineEntity(entity) : textEntity(entity))),
+    groups([0, "ENDSEC"]),
+    groups([0, "EOF"]),
+  ].join("\n")
+}
+
+// Write the front, top, side and section views of a unit as a DXF file in the unit system
+export function createDrawingDxf(unit: DrawingInput, unitSystem: UnitSystem = "mm"): string {
+  const entities = arrangeViews(createDrawingViews(unit), VIEW_GAP, unitSystem)
+  return createDxf(scaleEntities(entities, unitSystem), unitSystem)
+}
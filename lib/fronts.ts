@@ -0,0 +1,118 @@
+/**
+ * Fronts
+ * Doors, drawers and flaps closing the compartments of a shelving unit
+ *
+ * Fronts are inset: each one fills the clear opening of its compartment, flush
+ * with the front of the carcass, with an even gap all round. This is why
+ * shelves and columns are set back by one thickness at the front. A drawer
+ * compartment is shared by equal drawer fronts, each with a box behind it that
+ * runs on a pair of side mounted slides. Drawer boxes are made from the board
+ * set for them, or the unit's: two sides, a front and back between them, and a
+ * bottom fitted inside all four.
+ */
+
+import { layoutCompartments, type Compartment, type CompartmentBox } from "./compartments"
+import { UNIT_TO_MM, toMM, type MaterialName, type ShelvingUnitState } from "./shelving-unit"
+
+export type FrontKind = "door" | "drawer-front" | "flap"
+
+export type FrontPanel = {
+  id: string
+  kind: FrontKind
+  name: string
+  compartmentId: string
+  opening: CompartmentBox // Clear opening of the compartment
+  box: CompartmentBox // Outline of the front itself, inside the opening
+  hinge: "left" | "right" | "bottom" | null // Edge a door or flap swings on, null for drawers
+  material?: MaterialName // Board of the front, when not that of its role
+}
+
+// Outside size of a drawer box in mm
+export type DrawerBox = {
+  width: number
+  height: number
+  depth: number
+}
+
+export type FrontsInput = Pick<ShelvingUnitState, "width" | "height" | "depth" | "thickness" | "layout">
+
+export const FRONT_GAP = 2 // mm around every front and between drawer fronts
+export const MAX_DRAWERS = 6
+
+const DRAWER_SLIDE_CLEARANCE = 13 // mm on each side of the box, taken by the slides
+const DRAWER_HEIGHT_CLEARANCE = 30 // mm between the height of a drawer front and its box
+const DRAWER_REAR_CLEARANCE = 10 // mm behind the box
+const SLIDE_LENGTH_STEP = 50 // mm, slides come in 50 mm lengths
+
+const FRONT_LABELS: Record<FrontKind, string> = {
+  door: "Door",
+  "drawer-front": "Drawer",
+  flap: "Flap",
+}
+
+// Work out every door, drawer front and flap of the unit, numbered in the order of the compartment tree
+export function layoutFronts(unit: FrontsInput): FrontPanel[] {
+  const gap = FRONT_GAP / UNIT_TO_MM
+  const counters: Record<FrontKind, number> = { door: 0, "drawer-front": 0, flap: 0 }
+  const fronts: FrontPanel[] = []
+
+  const addFront = (
+    kind: FrontKind,
+    compartment: Compartment,
+    opening: CompartmentBox,
+    box: CompartmentBox,
+    hinge: FrontPanel["hinge"] = null,
+  ) => {
+    counters[kind] += 1
+    fronts.push({
+      id: `${kind}-${compartment.id}-${counters[kind]}`,
+      kind,
+      name: `${FRONT_LABELS[kind]} ${counters[kind]}`,
+      compartmentId: compartment.id,
+      opening,
+      box,
+      hinge,
+      ...(compartment.front?.material ? { material: compartment.front.material } : {}),
+    })
+  }
+
+  for (const { compartment, box: opening } of layoutCompartments(unit).compartments) {
+    const front = compartment.split ? undefined : compartment.front
+    if (!front) continue
+
+    const inner = {
+      left: opening.left + gap,
+      right: opening.right - gap,
+      bottom: opening.bottom + gap,
+      top: opening.top - gap,
+    }
+
+    if (front.type === "door") {
+      addFront("door", compartment, opening, inner, front.hinge)
+    } else if (front.type === "flap") {
+      addFront("flap", compartment, opening, inner, "bottom")
+    } else {
+      // Equal drawer fronts stacked bottom to top with the same gap between them
+      const count = Math.max(1, Math.min(MAX_DRAWERS, Math.round(front.count)))
+      const frontHeight = (inner.top - inner.bottom - gap * (count - 1)) / count
+      for (let i = 0; i < count; i++) {
+        const bottom = inner.bottom + i * (frontHeight + gap)
+        addFront("drawer-front", compartment, opening, { ...inner, bottom, top: bottom + frontHeight })
+      }
+    }
+  }
+
+  return fronts
+}
+
+// Size of the drawer box behind a drawer front, deep enough for the longest slide that fits
+export function getDrawerBox(front: FrontPanel, unit: Pick<ShelvingUnitState, "depth" | "thickness">): DrawerBox {
+  const space = toMM(unit.depth - unit.thickness * 2) - DRAWER_REAR_CLEARANCE
+  const depth = Math.floor(space / SLIDE_LENGTH_STEP) * SLIDE_LENGTH_STEP || space
+
+  return {
+    width: toMM(front.opening.right - front.opening.left) - DRAWER_SLIDE_CLEARANCE * 2,
+    height: Math.max(toMM(front.box.top - front.box.bottom) - DRAWER_HEIGHT_CLEARANCE, toMM(unit.thickness) * 3),
+    depth,
+  }
+}
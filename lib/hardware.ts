@@ -0,0 +1,120 @@
+/**
+ * Hardware
+ * Fittings needed to assemble a shelving unit
+ *
+ * Every butt joint between panels is fixed with two connectors, dowelled and
+ * cam-lock joints take a dowel or a fitting at every hole drilled for them,
+ * and housed joints are glued. Adjustable shelves rest on four shelf pins. The
+ * back is screwed on around its edge, and the unit stands on levelling feet.
+ * Doors hang on concealed hinges, more of them the taller the door, flaps on two
+ * hinges held by a stay on each side, and every drawer runs on a pair of
+ * slides. Every front gets a handle.
+ */
+
+import { layoutCompartments } from "./compartments"
+import { PINS_PER_SHELF } from "./drilling"
+import { layoutFronts } from "./fronts"
+import { getJointFeatures, getJoints } from "./joinery"
+import { toMM, type ShelvingUnitState } from "./shelving-unit"
+
+export type HardwareKind =
+  | "connector"
+  | "dowel"
+  | "cam-lock"
+  | "shelf-pin"
+  | "back-screw"
+  | "foot"
+  | "hinge"
+  | "drawer-slide"
+  | "flap-stay"
+  | "handle"
+
+export const HARDWARE_INFO: Record<HardwareKind, { label: string }> = {
+  connector: { label: "Connector screw" },
+  dowel: { label: "Wooden dowel" },
+  "cam-lock": { label: "Cam-lock fitting" },
+  "shelf-pin": { label: "Shelf pin" },
+  "back-screw": { label: "Back panel screw" },
+  foot: { label: "Levelling foot" },
+  hinge: { label: "Concealed hinge" },
+  "drawer-slide": { label: "Drawer slide (pair)" },
+  "flap-stay": { label: "Flap stay" },
+  handle: { label: "Handle" },
+}
+
+export type HardwareItem = {
+  kind: HardwareKind
+  name: string
+  quantity: number
+}
+
+export type HardwareInput = Pick<
+  ShelvingUnitState,
+  "width" | "height" | "depth" | "thickness" | "layout" | "backPanel" | "joinery"
+>
+
+const CONNECTORS_PER_JOINT = 2
+const BACK_SCREW_SPACING = 200 // mm
+const FEET = 4
+const FLAP_HINGES = 2
+const FLAP_STAYS = 2
+
+// Hinges for a door of a given height in mm
+function hingesForDoor(height: number): number {
+  if (height <= 900) return 2
+  if (height <= 1600) return 3
+  return 4
+}
+
+// Count the fittings needed to assemble the unit
+export function deriveHardware(unit: HardwareInput): HardwareItem[] {
+  // Butt joints between the sides, top, bottom, shelves and columns are screwed, the back is screwed on below
+  const buttJoints = getJoints(unit).filter((joint) => joint.type === "butt" && joint.family !== "back").length
+
+  // One dowel fills a hole at each side of a joint, one fitting the cam and bolt holes
+  const fittings = getJointFeatures(unit).flatMap((feature) => (feature.type === "hole" ? [feature.fitting] : []))
+  const dowels = fittings.filter((fitting) => fitting === "dowel").length / 2
+  const camLocks = fittings.filter((fitting) => fitting === "cam-housing").length
+  const adjustableShelves = layoutCompartments(unit).members.filter((member) => member.adjustable).length
+
+  // Screws all around the back, one at each corner and then at most BACK_SCREW_SPACING apart
+  const backInset = unit.backPanel === "full" ? 0 : unit.thickness * 2
+  const backWidth = toMM(unit.width - backInset)
+  const backHeight = toMM(unit.height - backInset)
+  const backScrews =
+    unit.backPanel === "none"
+      ? 0
+      : (Math.ceil(backWidth / BACK_SCREW_SPACING) + Math.ceil(backHeight / BACK_SCREW_SPACING)) * 2
+
+  const quantities: Record<HardwareKind, number> = {
+    connector: buttJoints * CONNECTORS_PER_JOINT,
+    dowel: dowels,
+    "cam-lock": camLocks,
+    "shelf-pin": adjustableShelves * PINS_PER_SHELF,
+    "back-screw": backScrews,
+    foot: FEET,
+    hinge: 0,
+    "drawer-slide": 0,
+    "flap-stay": 0,
+    handle: 0,
+  }
+
+  for (const front of layoutFronts(unit)) {
+    quantities.handle += 1
+    if (front.kind === "door") quantities.hinge += hingesForDoor(toMM(front.box.top - front.box.bottom))
+    if (front.kind === "drawer-front") quantities["drawer-slide"] += 1
+    if (front.kind === "flap") {
+      quantities.hinge += FLAP_HINGES
+      quantities["flap-stay"] += FLAP_STAYS
+    }
+  }
+
+  // Fittings the design doesn't need are left off the list
+  return (Object.keys(quantities) as HardwareKind[])
+    .filter((kind) => quantities[kind] > 0)
+    .map((kind) => ({
+      kind,
+      name: HARDWARE_INFO[kind].label,
+      quantity: quantities[kind],
+    }))
+}
@@ -0,0 +1,101 @@
+/**
+ * Isometric
+ * Isometric projection of the panels of a shelving unit, for drawings
+ *
+ * The unit is seen from the front, right and above. Each panel contributes its
+ * top, front and right faces, ordered back to front so they can be painted
+ * over each other without a depth buffer.
+ */
+
+import { getPanelBoxes, type PanelBox, type PanelGeometryInput, type Vector3 } from "./panel-geometry"
+import type { Point } from "./technical-drawing"
+
+export type IsometricFace = {
+  panelId: string
+  points: Point[]
+  shade: number // 1 for faces lit from above, darker for the front and right faces
+}
+
+const COS_30 = Math.cos(Math.PI / 6)
+const SIN_30 = 0.5
+
+// Touching panels share a face, so allow for rounding when comparing them
+const EPSILON = 0.01
+
+// Project a 3D point in mm onto the drawing plane
+export function projectIsometric([x, y, z]: Vector3): Point {
+  return [(x - z) * COS_30, y - (x + z) * SIN_30]
+}
+
+function projectedBounds(box: PanelBox) {
+  const corners = [0, 1, 2, 3, 4, 5, 6, 7].map((i) =>
+    projectIsometric([
+      i & 1 ? box.max[0] : box.min[0],
+      i & 2 ? box.max[1] : box.min[1],
+      i & 4 ? box.max[2] : box.min[2],
+    ]),
+  )
+  const xs = corners.map(([x]) => x)
+  const ys = corners.map(([, y]) => y)
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) }
+}
+
+// Whether box `front` has to be painted after box `back`: they overlap on paper and `front` is nearer
+function isInFront(front: PanelBox, back: PanelBox): boolean {
+  const a = projectedBounds(front)
+  const b = projectedBounds(back)
+  if (a.maxX <= b.minX || b.maxX <= a.minX || a.maxY <= b.minY || b.maxY <= a.minY) return false
+
+  // Panels don't intersect, so some axis separates them, and the one further along it is nearer
+  return [0, 1, 2].some((axis) => front.min[axis] >= back.max[axis] - EPSILON)
+}
+
+// Order boxes so that every box comes after the boxes it hides
+function sortBackToFront(boxes: PanelBox[]): PanelBox[] {
+  const sorted: PanelBox[] = []
+  const visited = new Set<PanelBox>()
+
+  const visit = (box: PanelBox) => {
+    if (visited.has(box)) return
+    visited.add(box)
+    boxes.filter((other) => other !== box && isInFront(box, other)).forEach(visit)
+    sorted.push(box)
+  }
+
+  boxes.forEach(visit)
+  return sorted
+}
+
+// Visible faces of every panel in painting order
+export function createIsometricFaces(unit: PanelGeometryInput): IsometricFace[] {
+  return sortBackToFront(getPanelBoxes(unit)).flatMap((box) => {
+    const [x1, y1, z1] = box.min
+    const [x2, y2, z2] = box.max
+    const face = (shade: number, corners: Vector3[]): IsometricFace => ({
+      panelId: box.id,
+      points: corners.map(projectIsometric),
+      shade,
+    })
+
+    return [
+      face(1, [
+        [x1, y2, z1],
+        [x2, y2, z1],
+        [x2, y2, z2],
+        [x1, y2, z2],
+      ]),
+      face(0.85, [
+        [x1, y1, z2],
+        [x2, y1, z2],
+        [x2, y2, z2],
+        [x1, y2, z2],
+      ]),
+      face(0.7, [
+        [x2, y1, z1],
+        [x2, y1, z2],
+        [x2, y2, z2],
+        [x2, y2, z1],
+      ]),
+    ]
+  })
+}
@@ -0,0 +1,376 @@
+/**
+ * Joinery
+ * How the panels of a shelving unit are joined, and the grooves and holes each joint needs
+ *
+ * Joints come in three families, each made with one joint type: the carcass
+ * corners, where the sides meet the top and bottom; the ends of the shelves and
+ * columns, where they meet the panel beyond; and the edges of an inset back,
+ * where it meets the sides, top and bottom. A full back is always screwed on,
+ * and adjustable shelves rest on pins instead, see drilling.ts.
+ *
+ * Butt joints are screwed together and need no machining. Dado and rabbet
+ * joints house the joining panel in a groove in the panel it meets, so the
+ * joining panel is cut longer by the housing depth at every housed end. The
+ * carcass corners and the back sit at the edges of the panels they meet, so
+ * they are rabbeted, and shelves and columns are housed in dados. Dowels and
+ * cam-lock fittings leave panel sizes alone and are drilled into both panels,
+ * spread along the joint. A cam is housed in the face of the joining panel
+ * towards the middle of the unit, with a bore from its end to the bolt screwed
+ * into the other panel.
+ *
+ * Grooves and holes are in millimeters, centred on the unit like the panel
+ * boxes, so they can be drawn in any view.
+ */
+
+import { layoutCompartments } from "./compartments"
+import { getPanelBoxes, type PanelBox, type PanelGeometryInput, type Vector3 } from "./panel-geometry"
+import { toMM, type JointFamily, type JointType, type ShelvingUnitState } from "./shelving-unit"
+import { formatLength, formatLengthValue, type UnitSystem } from "./units"
+
+export type Joinery = ShelvingUnitState["joinery"]
+
+export type Joint = {
+  family: JointFamily
+  type: JointType
+  joining: PanelBox // Panel whose end or edge meets the other
+  meeting: PanelBox // Panel whose face it meets
+  axis: 0 | 1 | 2 // Axis across the joint, from the joining panel into the meeting panel
+  direction: 1 | -1
+}
+
+export type Fitting = "dowel" | "cam-housing" | "cam-bore" | "cam-bolt"
+
+export type JointFeature =
+  | {
+      type: "groove"
+      panelId: string
+      family: JointFamily
+      joint: JointType
+      depth: number // mm
+      min: Vector3 // Material removed, mm
+      max: Vector3
+    }
+  | {
+      type: "housed-end" // An end of the panel runs into a groove, so the panel is cut longer
+      panelId: string
+      family: JointFamily
+      joint: JointType
+      depth: number // mm
+    }
+  | {
+      type: "hole"
+      panelId: string
+      family: JointFamily
+      joint: JointType
+      fitting: Fitting
+      center: Vector3 // Centre of the hole on the face it is drilled from, mm
+      direction: Vector3 // Unit vector into the panel
+      diameter: number // mm
+      depth: number // mm
+    }
+
+// Rectangle a groove or hole is seen as in a view
+export type JointOutline = { min: [number, number]; max: [number, number] }
+
+export type JoineryInput = PanelGeometryInput & Pick<ShelvingUnitState, "joinery">
+
+export const JOINT_INFO: Record<JointType, { label: string }> = {
+  butt: { label: "Butt" },
+  dado: { label: "Dado" },
+  rabbet: { label: "Rabbet" },
+  dowel: { label: "Dowel" },
+  "cam-lock": { label: "Cam-lock" },
+}
+
+// Joint types that make sense for each family, the first being the default
+export const JOINT_FAMILIES: Record<JointFamily, { label: string; types: JointType[] }> = {
+  carcass: { label: "Carcass corners", types: ["butt", "rabbet", "dowel", "cam-lock"] },
+  members: { label: "Shelves & columns", types: ["butt", "dado", "dowel", "cam-lock"] },
+  back: { label: "Inset back", types: ["butt", "rabbet"] },
+}
+
+export const DEFAULT_JOINERY: Joinery = { carcass: "butt", members: "butt", back: "butt" }
+
+const FITTING_INSET = 37 // mm from the ends of a joint to the first and last fitting
+const FITTING_SPACING = 320 // mm, most between fittings along a joint
+const DOWEL = { diameter: 8, faceDepth: 12, endDepth: 20 }
+const CAM = { diameter: 15, depth: 12.5, setback: 24, boreDiameter: 8, boltDiameter: 5, boltDepth: 11 }
+
+const PROBE = 0.5 // mm past the end of a shelf or column to look for the panel it meets
+
+// Depth of the groove a joining panel is housed in, in mm, or 0 for joints that aren't housed
+export function housingDepth(type: JointType, thickness: number): number {
+  if (type === "dado") return Math.round(thickness / 3)
+  if (type === "rabbet") return Math.round(thickness / 2)
+  return 0
+}
+
+// Positions of the fittings along a joint, evenly spread between the insets
+function fittingPositions(start: number, end: number): number[] {
+  const length = end - start
+  if (length <= FITTING_INSET * 2) return [(start + end) / 2]
+
+  const count = Math.max(2, Math.ceil((length - FITTING_INSET * 2) / FITTING_SPACING) + 1)
+  const step = (length - FITTING_INSET * 2) / (count - 1)
+  return Array.from({ length: count }, (_, i) => start + FITTING_INSET + step * i)
+}
+
+const contains = (box: PanelBox, point: Vector3) => point.every((value, i) => value > box.min[i] && value < box.max[i])
+
+// Panel just past one end of a shelf or column, left or below it for -1 and right or above it for 1
+export function findMeetingPanel(boxes: PanelBox[], member: PanelBox, direction: 1 | -1): PanelBox | undefined {
+  const axis = member.name === "shelf" ? 0 : 1
+  const probe = member.min.map((min, i) => (min + member.max[i]) / 2) as Vector3
+  probe[axis] = (direction < 0 ? member.min[axis] : member.max[axis]) + direction * PROBE
+
+  return boxes.find(
+    (box) =>
+      box !== member &&
+      box.name !== "door" &&
+      box.name !== "drawer-front" &&
+      box.name !== "flap" &&
+      contains(box, probe),
+  )
+}
+
+// Every joint between the panels of the unit. Adjustable shelves rest on pins and aren't joined.
+export function getJoints(unit: JoineryInput): Joint[] {
+  const boxes = getPanelBoxes(unit)
+  const adjustable = new Set(
+    layoutCompartments(unit)
+      .members.filter((member) => member.adjustable)
+      .map((member) => `shelf-${member.id}`),
+  )
+  const byId = (id: string) => boxes.find((box) => box.id === id)
+  const joints: Joint[] = []
+
+  const join = (
+    family: JointFamily,
+    joining: PanelBox | undefined,
+    meeting: PanelBox | undefined,
+    axis: Joint["axis"],
+    direction: Joint["direction"],
+  ) => {
+    if (joining && meeting) joints.push({ family, type: unit.joinery[family], joining, meeting, axis, direction })
+  }
+
+  // The sides sit between the top and bottom
+  for (const side of ["left-side", "right-side"]) {
+    join("carcass", byId(side), byId("top"), 1, 1)
+    join("carcass", byId(side), byId("bottom"), 1, -1)
+  }
+
+  // An inset back sits between the sides, top and bottom
+  if (unit.backPanel === "inset") {
+    join("back", byId("back"), byId("left-side"), 0, -1)
+    join("back", byId("back"), byId("right-side"), 0, 1)
+    join("back", byId("back"), byId("top"), 1, 1)
+    join("back", byId("back"), byId("bottom"), 1, -1)
+  }
+
+  // Shelves and columns meet whichever panel is just past each of their ends
+  for (const member of boxes.filter((box) => box.name === "shelf" || box.name === "column")) {
+    if (adjustable.has(member.id)) continue
+
+    for (const direction of [-1, 1] as const) {
+      join("members", member, findMeetingPanel(boxes, member, direction), member.name === "shelf" ? 0 : 1, direction)
+    }
+  }
+
+  return joints
+}
+
+// A vector along one axis
+function along(axis: number, value: number): Vector3 {
+  const vector: Vector3 = [0, 0, 0]
+  vector[axis] = value
+  return vector
+}
+
+// Grooves and holes of a single joint
+function jointFeatures(joint: Joint, thickness: number): JointFeature[] {
+  const { family, type, joining, meeting, axis, direction } = joint
+  const face = direction > 0 ? joining.max[axis] : joining.min[axis]
+  const depth = housingDepth(type, thickness)
+
+  // The back is housed on all four edges, shelves, columns and sides only at their ends
+  const housedAxes = family === "back" ? [0, 1] : [axis]
+  const extent = (i: number): [number, number] => {
+    const grow = housedAxes.includes(i) && i !== axis ? depth : 0
+    return [Math.max(joining.min[i] - grow, meeting.min[i]), Math.min(joining.max[i] + grow, meeting.max[i])]
+  }
+
+  if (depth > 0) {
+    const min = [0, 1, 2].map((i) => (i === axis ? Math.min(face, face + direction * depth) : extent(i)[0]))
+    const max = [0, 1, 2].map((i) => (i === axis ? Math.max(face, face + direction * depth) : extent(i)[1]))
+    return [
+      {
+        type: "groove",
+        panelId: meeting.id,
+        family,
+        joint: type,
+        depth,
+        min: min as Vector3,
+        max: max as Vector3,
+      },
+      { type: "housed-end", panelId: joining.id, family, joint: type, depth },
+    ]
+  }
+
+  if (type !== "dowel" && type !== "cam-lock") return []
+
+  // Fittings go along the longer side of the joint face, through the middle of the joining panel's thickness
+  const sizes = joining.max.map((max, i) => max - joining.min[i])
+  const thin = [0, 1, 2].filter((i) => i !== axis).reduce((a, b) => (sizes[a] <= sizes[b] ? a : b))
+  const long = 3 - axis - thin
+  const middle = (joining.min[thin] + joining.max[thin]) / 2
+  const [start, end] = extent(long)
+
+  const point = (across: number, thinValue: number, alongValue: number): Vector3 => {
+    const vector: Vector3 = [0, 0, 0]
+    vector[axis] = across
+    vector[thin] = thinValue
+    vector[long] = alongValue
+    return vector
+  }
+  const hole = (
+    panel: PanelBox,
+    fitting: Fitting,
+    center: Vector3,
+    holeDirection: Vector3,
+    diameter: number,
+    holeDepth: number,
+  ): JointFeature => ({
+    type: "hole",
+    panelId: panel.id,
+    family,
+    joint: type,
+    fitting,
+    center,
+    direction: holeDirection,
+    diameter,
+    depth: holeDepth,
+  })
+
+  // Cams are drilled from the face of the joining panel towards the middle of the unit
+  const camFace = middle < 0 ? joining.max[thin] : joining.min[thin]
+  const camDirection = middle < 0 ? -1 : 1
+
+  return fittingPositions(start, end).flatMap((position): JointFeature[] =>
+    type === "dowel"
+      ? [
+          hole(
+            meeting,
+            "dowel",
+            point(face, middle, position),
+            along(axis, direction),
+            DOWEL.diameter,
+            DOWEL.faceDepth,
+          ),
+          hole(
+            joining,
+            "dowel",
+            point(face, middle, position),
+            along(axis, -direction),
+            DOWEL.diameter,
+            DOWEL.endDepth,
+          ),
+        ]
+      : [
+          hole(
+            meeting,
+            "cam-bolt",
+            point(face, middle, position),
+            along(axis, direction),
+            CAM.boltDiameter,
+            CAM.boltDepth,
+          ),
+          hole(
+            joining,
+            "cam-bore",
+            point(face, middle, position),
+            along(axis, -direction),
+            CAM.boreDiameter,
+            CAM.setback,
+          ),
+          hole(
+            joining,
+            "cam-housing",
+            point(face - direction * CAM.setback, camFace, position),
+            along(thin, camDirection),
+            CAM.diameter,
+            Math.min(CAM.depth, thickness - 3),
+          ),
+        ],
+  )
+}
+
+// Grooves, housed ends and holes of every joint of the unit
+export function getJointFeatures(unit: JoineryInput): JointFeature[] {
+  const thickness = toMM(unit.thickness)
+  return getJoints(unit).flatMap((joint) => jointFeatures(joint, thickness))
+}
+
+// Box of material a groove or hole removes, in mm centred on the unit
+export function getFeatureBox(feature: Exclude<JointFeature, { type: "housed-end" }>): { min: Vector3; max: Vector3 } {
+  if (feature.type === "groove") return { min: feature.min, max: feature.max }
+
+  const radius = feature.diameter / 2
+  const end = feature.center.map((value, i) => value + feature.direction[i] * feature.depth)
+  const min = feature.center.map((value, i) => (feature.direction[i] === 0 ? value - radius : Math.min(value, end[i])))
+  const max = feature.center.map((value, i) => (feature.direction[i] === 0 ? value + radius : Math.max(value, end[i])))
+  return { min: min as Vector3, max: max as Vector3 }
+}
+
+// Outlines of the grooves and holes seen in the front view, or in the side view from the right, in mm centred on
+// the unit. The front view shows the joints of the carcass, shelves and columns, the side view those of the back.
+export function getJointOutlines(features: JointFeature[], view: "front" | "side"): JointOutline[] {
+  return features.flatMap((feature): JointOutline[] => {
+    if (feature.type === "housed-end" || (feature.family === "back") !== (view === "side")) return []
+
+    const { min, max } = getFeatureBox(feature)
+    return [
+      view === "front"
+        ? { min: [min[0], min[1]], max: [max[0], max[1]] }
+        : { min: [-max[2], min[1]], max: [-min[2], max[1]] },
+    ]
+  })
+}
+
+// Joint type of every family in use, such as "Carcass corners: rabbet, Shelves & columns: dado"
+export function describeJoinery(unit: Pick<ShelvingUnitState, "joinery" | "backPanel">): string {
+  return (Object.keys(JOINT_FAMILIES) as JointFamily[])
+    .filter((family) => family !== "back" || unit.backPanel === "inset")
+    .map((family) => `${JOINT_FAMILIES[family].label}: ${JOINT_INFO[unit.joinery[family]].label.toLowerCase()}`)
+    .join(", ")
+}
+
+// Grooves, housed ends and holes machined into one panel, such as "2 × dado 6 mm deep, 4 × Ø8 × 12 mm hole"
+function describeBox(features: JointFeature[], boxId: string, unitSystem: UnitSystem): string {
+  const length = (mm: number) => formatLength(mm, unitSystem)
+  const counts = new Map<string, number>()
+
+  for (const feature of features) {
+    if (feature.panelId !== boxId) continue
+
+    const key =
+      feature.type === "groove"
+        ? `${JOINT_INFO[feature.joint].label.toLowerCase()} ${length(feature.depth)} deep`
+        : feature.type === "housed-end"
+          ? `end housed ${length(feature.depth)}`
+          : `Ø${formatLengthValue(feature.diameter, unitSystem)} × ${length(feature.depth)} hole`
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+
+  return [...counts].map(([key, count]) => `${count} × ${key}`).join(", ")
+}
+
+// Joinery machined into a panel of the cut list. The two sides share an entry, so each is described
+// unless they are machined alike.
+export function describePanelJoinery(features: JointFeature[], panelId: string, unitSystem: UnitSystem = "mm"): string {
+  if (panelId !== "sides") return describeBox(features, panelId, unitSystem)
+
+  const left = describeBox(features, "left-side", unitSystem)
+  const right = describeBox(features, "right-side", unitSystem)
+  return left === right ? left : `Left: ${left || "none"}; right: ${right || "none"}`
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import type { Panel } from "./cut-list"
+import { DEFAULT_NESTING_OPTIONS, nestPanels, type PlacedPiece } from "./nesting"
+
+// A panel of the cut list, 18 mm plywood with the grain along its length unless given otherwise
+function panel(id: string, length: number, width: number, quantity = 1, overrides: Partial<Panel> = {}): Panel {
+  return {
+    id,
+    name: id,
+    role: "shelf",
+    length,
+    width,
+    thickness: 18,
+    quantity,
+    material: "wood",
+    grain: "length",
+    banding: { long: 1, short: 0 },
+    ...overrides,
+  }
+}
+
+// Whether two pieces on a sheet keep at least a gap between them
+const apart = (a: PlacedPiece, b: PlacedPiece, gap: number) =>
+  a.x + a.length + gap <= b.x + 1e-9 ||
+  b.x + b.length + gap <= a.x + 1e-9 ||
+  a.y + a.width + gap <= b.y + 1e-9 ||
+  b.y + b.width + gap <= a.y + 1e-9
+
+describe("nestPanels", () => {
+  it("places every piece on the sheet, at least a kerf apart", () => {
+    const { sheet, kerf } = DEFAULT_NESTING_OPTIONS
+    const result = nestPanels([panel("sides", 2000, 400, 2), panel("shelves", 764, 380, 6)])
+
+    expect(result.unplaced).toEqual([])
+    const pieces = result.sheets.flatMap((nested) => nested.pieces)
+    expect(pieces).toHaveLength(8)
+    for (const nested of result.sheets) {
+      for (const [i, piece] of nested.pieces.entries()) {
+        expect(piece.x).toBeGreaterThanOrEqual(0)
+        expect(piece.y).toBeGreaterThanOrEqual(0)
+        expect(piece.x + piece.length).toBeLessThanOrEqual(sheet.length)
+        expect(piece.y + piece.width).toBeLessThanOrEqual(sheet.width)
+        for (const other of nested.pieces.slice(i + 1)) expect(apart(piece, other, kerf)).toBe(true)
+      }
+    }
+  })
+
+  it("keeps the grain along the sheet, but turns grainless pieces to fit", () => {
+    const grained = nestPanels([panel("long", 1000, 2000)])
+    expect(grained.unplaced).toHaveLength(1)
+
+    const grainless = nestPanels([panel("long", 1000, 2000, 1, { grain: "none" })])
+    expect(grainless.unplaced).toEqual([])
+    expect(grainless.sheets[0].pieces[0].rotated).toBe(true)
+  })
+
+  it("puts each material and thickness on sheets of its own", () => {
+    const result = nestPanels([
+      panel("carcass", 600, 300),
+      panel("fronts", 600, 300, 1, { material: "white" }),
+      panel("back", 600, 300, 1, { thickness: 6 }),
+    ])
+
+    expect(result.sheetCount).toBe(3)
+    expect(result.sheets.map((nested) => `${nested.material} ${nested.thickness}`).sort()).toEqual([
+      "white 18",
+      "wood 18",
+      "wood 6",
+    ])
+  })
+})
@@ -0,0 +1,202 @@
+/**
+ * Nesting
+ * Packs cut list panels onto stock sheets for the panel saw
+ *
+ * Pieces are laid out in guillotine strips running along the sheet length,
+ * so every layout can be cut with straight through-cuts. Sheet grain is
+ * assumed to run along the sheet length: grained pieces keep their length
+ * along the sheet length, grainless pieces may be turned to fit.
+ */
+
+import type { Panel } from "./cut-list"
+import type { MaterialName } from "./shelving-unit"
+
+export type SheetSize = {
+  name: string
+  length: number // mm, along the grain
+  width: number // mm
+}
+
+// Common stock board sizes
+export const SHEET_SIZES: SheetSize[] = [
+  { name: "2440 × 1220 mm", length: 2440, width: 1220 },
+  { name: "2500 × 1250 mm", length: 2500, width: 1250 },
+  { name: "2800 × 2070 mm", length: 2800, width: 2070 },
+  { name: "3050 × 1525 mm", length: 3050, width: 1525 },
+]
+
+export type NestingOptions = {
+  sheet: SheetSize
+  kerf: number // mm removed by the saw blade
+}
+
+export const DEFAULT_NESTING_OPTIONS: NestingOptions = {
+  sheet: SHEET_SIZES[0],
+  kerf: 4,
+}
+
+export type PlacedPiece = {
+  panelId: string
+  name: string
+  x: number // mm from the sheet's left edge
+  y: number // mm from the sheet's bottom edge
+  length: number // mm along the sheet length
+  width: number // mm across the sheet width
+  rotated: boolean // true when the piece length runs across the sheet
+}
+
+export type NestedSheet = {
+  material: MaterialName
+  thickness: number
+  pieces: PlacedPiece[]
+  usedArea: number // mm²
+}
+
+export type UnplacedPiece = {
+  panelId: string
+  name: string
+  length: number
+  width: number
+}
+
+export type NestingResult = {
+  options: NestingOptions
+  sheets: NestedSheet[]
+  unplaced: UnplacedPiece[]
+  sheetCount: number
+  wastePercent: number
+}
+
+type Piece = {
+  panelId: string
+  name: string
+  length: number
+  width: number
+  canRotate: boolean
+}
+
+type Strip = {
+  y: number
+  height: number
+  usedLength: number
+}
+
+type SheetInProgress = NestedSheet & {
+  strips: Strip[]
+  usedWidth: number
+}
+
+// Try to place a piece in a given orientation on a sheet, returning true on success
+function placeOnSheet(
+  sheet: SheetInProgress,
+  piece: Piece,
+  length: number,
+  width: number,
+  rotated: boolean,
+  options: NestingOptions,
+): boolean {
+  const { kerf } = options
+
+  // First fit into an existing strip
+  for (const strip of sheet.strips) {
+    const x = strip.usedLength === 0 ? 0 : strip.usedLength + kerf
+    if (width <= strip.height && x + length <= options.sheet.length) {
+      sheet.pieces.push({ panelId: piece.panelId, name: piece.name, x, y: strip.y, length, width, rotated })
+      strip.usedLength = x + length
+      return true
+    }
+  }
+
+  // Otherwise open a new strip above the existing ones
+  const y = sheet.usedWidth === 0 ? 0 : sheet.usedWidth + kerf
+  if (length <= options.sheet.length && y + width <= options.sheet.width) {
+    sheet.strips.push({ y, height: width, usedLength: length })
+    sheet.pieces.push({ panelId: piece.panelId, name: piece.name, x: 0, y, length, width, rotated })
+    sheet.usedWidth = y + width
+    return true
+  }
+
+  return false
+}
+
+// Try both orientations of a grainless piece, the original one first
+function placePiece(sheet: SheetInProgress, piece: Piece, options: NestingOptions): boolean {
+  if (placeOnSheet(sheet, piece, piece.length, piece.width, false, options)) return true
+  return piece.canRotate && placeOnSheet(sheet, piece, piece.width, piece.length, true, options)
+}
+
+// Nest all panels of one material and thickness
+function nestGroup(
+  material: MaterialName,
+  thickness: number,
+  pieces: Piece[],
+  options: NestingOptions,
+): { sheets: NestedSheet[]; unplaced: UnplacedPiece[] } {
+  const sheets: SheetInProgress[] = []
+  const unplaced: UnplacedPiece[] = []
+
+  // Largest strips first gives the tightest guillotine layouts
+  const ordered = [...pieces].sort((a, b) => b.width - a.width || b.length - a.length)
+
+  for (const piece of ordered) {
+    if (sheets.some((sheet) => placePiece(sheet, piece, options))) continue
+
+    const sheet: SheetInProgress = { material, thickness, pieces: [], usedArea: 0, strips: [], usedWidth: 0 }
+    if (placePiece(sheet, piece, options)) {
+      sheets.push(sheet)
+    } else {
+      unplaced.push({ panelId: piece.panelId, name: piece.name, length: piece.length, width: piece.width })
+    }
+  }
+
+  return {
+    sheets: sheets.map(({ material, thickness, pieces }) => ({
+      material,
+      thickness,
+      pieces,
+      usedArea: pieces.reduce((area, piece) => area + piece.length * piece.width, 0),
+    })),
+    unplaced,
+  }
+}
+
+// Pack the panels of a cut list onto stock sheets
+export function nestPanels(panels: Panel[], options: NestingOptions = DEFAULT_NESTING_OPTIONS): NestingResult {
+  // Panels of different materials or thicknesses can't share a sheet
+  const groups = new Map<string, { material: MaterialName; thickness: number; pieces: Piece[] }>()
+  for (const panel of panels) {
+    const key = `${panel.material}-${panel.thickness}`
+    if (!groups.has(key)) {
+      groups.set(key, { material: panel.material, thickness: panel.thickness, pieces: [] })
+    }
+
+    for (let i = 0; i < panel.quantity; i++) {
+      groups.get(key)!.pieces.push({
+        panelId: panel.id,
+        name: panel.name,
+        length: panel.length,
+        width: panel.width,
+        canRotate: panel.grain === "none",
+      })
+    }
+  }
+
+  const sheets: NestedSheet[] = []
+  const unplaced: UnplacedPiece[] = []
+  groups.forEach((group) => {
+    const result = nestGroup(group.material, group.thickness, group.pieces, options)
+    sheets.push(...result.sheets)
+    unplaced.push(...result.unplaced)
+  })
+
+  const sheetArea = options.sheet.length * options.sheet.width
+  const usedArea = sheets.reduce((area, sheet) => area + sheet.usedArea, 0)
+
+  return {
+    options,
+    sheets,
+    unplaced,
+    sheetCount: sheets.length,
+    wastePercent: sheets.length > 0 ? (1 - usedArea / (sheets.length * sheetArea)) * 100 : 0,
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Opening Dimensions
+ * Chain and clear opening dimensions of the compartments of a shelving unit
+ *
+ * Dimensions are in abstract units in the front view plane, centred on the unit
+ * like the compartment boxes. Chain dimensions run end to end across the unit
+ * below and to the right of it, through the sides, columns and openings of the
+ * whole unit, and across every other split compartment along its left or bottom
+ * edge. Clear opening dimensions give the usable width and height inside every
+ * open compartment, after the thickness of the panels around it.
+ */
+
+import { layoutCompartments, type LaidOutCompartment } from "./compartments"
+import type { ShelvingUnitState } from "./shelving-unit"
+
+export type DimensionStyle = ShelvingUnitState["dimensionStyle"]
+
+export type OpeningDimension = {
+  start: [number, number]
+  end: [number, number]
+  offset: [number, number] // Where the dimension line is drawn, relative to the points it measures
+}
+
+export type OpeningDimensionInput = Pick<ShelvingUnitState, "width" | "height" | "thickness" | "layout">
+
+// Distance between the unit and the chains drawn outside it
+export const CHAIN_OFFSET = 0.06
+
+// Chain of dimensions between consecutive points along the x axis at height y, or along the y axis at x
+function chain(points: number[], axis: "x" | "y", at: number, offset: [number, number]): OpeningDimension[] {
+  return points.slice(1).map((point, i) => ({
+    start: axis === "x" ? [points[i], at] : [at, points[i]],
+    end: axis === "x" ? [point, at] : [at, point],
+    offset,
+  }))
+}
+
+// Faces of the openings and dividers across a split compartment, from its bottom or left edge
+function dividerFaces({ compartment, box }: LaidOutCompartment, thickness: number): number[] {
+  const horizontal = compartment.split === "horizontal"
+  const start = horizontal ? box.bottom : box.left
+  const end = horizontal ? box.top : box.right
+  const centers = compartment.dividers.map((divider) => start + divider.position * (end - start))
+
+  return [start, ...centers.flatMap((center) => [center - thickness / 2, center + thickness / 2]), end]
+}
+
+// Chain dimensions through the panels and openings of every split compartment
+export function getChainDimensions(unit: OpeningDimensionInput): OpeningDimension[] {
+  const { width, height, thickness } = unit
+  const halfWidth = width / 2
+  const halfHeight = height / 2
+  const [root, ...nested] = layoutCompartments(unit).compartments
+
+  // Across the whole unit, through the sides or the top and bottom as well
+  const across = root.compartment.split === "vertical" ? dividerFaces(root, thickness) : [root.box.left, root.box.right]
+  const up = root.compartment.split === "horizontal" ? dividerFaces(root, thickness) : [root.box.bottom, root.box.top]
+  const dimensions = [
+    ...chain([-halfWidth, ...across, halfWidth], "x", -halfHeight, [0, -CHAIN_OFFSET]),
+    ...chain([-halfHeight, ...up, halfHeight], "y", halfWidth, [CHAIN_OFFSET, 0]),
+  ]
+
+  // Inside every other split compartment, along its left or bottom edge
+  for (const laidOut of nested) {
+    if (!laidOut.compartment.split) continue
+
+    const { box } = laidOut
+    const faces = dividerFaces(laidOut, thickness)
+    if (laidOut.compartment.split === "horizontal") {
+      dimensions.push(...chain(faces, "y", box.left + Math.min(CHAIN_OFFSET * 2, (box.right - box.left) / 4), [0, 0]))
+    } else {
+      dimensions.push(...chain(faces, "x", box.bottom + Math.min(CHAIN_OFFSET * 2, (box.top - box.bottom) / 4), [0, 0]))
+    }
+  }
+
+  return dimensions
+}
+
+// Clear width and height of every open compartment, drawn a quarter of the way into it so the texts don't meet
+export function getClearOpeningDimensions(unit: OpeningDimensionInput): OpeningDimension[] {
+  return layoutCompartments(unit)
+    .compartments.filter((laidOut) => !laidOut.compartment.split)
+    .flatMap(({ box }): OpeningDimension[] => {
+      const x = box.left + (box.right - box.left) / 4
+      const y = box.bottom + (box.top - box.bottom) / 4
+      return [
+        { start: [box.left, y], end: [box.right, y], offset: [0, 0] },
+        { start: [x, box.bottom], end: [x, box.top], offset: [0, 0] },
+      ]
+    })
+}
+
+// Dimensions drawn for a dimension style, on top of the overall dimensions
+export function getOpeningDimensions(unit: OpeningDimensionInput, style: DimensionStyle): OpeningDimension[] {
+  if (style === "chain") return getChainDimensions(unit)
+  if (style === "clear") return getClearOpeningDimensions(unit)
+  return []
+}
@@ -0,0 +1,90 @@
+/**
+ * Panel Geometry
+ * Position and size of every physical panel of a shelving unit in 3D
+ *
+ * Boxes are in millimeters, centred on the unit like the 3D model: x to the
+ * right, y up and z towards the front. Panel names match the meshes of the 3D
+ * model. The construction is the same as the cut list's. Fronts are closed,
+ * and drawer boxes are left out as they're hidden behind their fronts.
+ */
+
+import { layoutCompartments, nameMembers } from "./compartments"
+import { layoutFronts, type FrontKind } from "./fronts"
+import { toMM, type ShelvingUnitState } from "./shelving-unit"
+
+export type Vector3 = [number, number, number]
+
+export type PanelBox = {
+  id: string
+  name: "top" | "bottom" | "left-side" | "right-side" | "back" | "shelf" | "column" | FrontKind
+  label: string
+  min: Vector3
+  max: Vector3
+}
+
+export type PanelGeometryInput = Pick<
+  ShelvingUnitState,
+  "width" | "height" | "depth" | "thickness" | "layout" | "backPanel"
+>
+
+// Work out the box of every panel of the unit
+export function getPanelBoxes(unit: PanelGeometryInput): PanelBox[] {
+  const w = toMM(unit.width) / 2
+  const h = toMM(unit.height) / 2
+  const d = toMM(unit.depth) / 2
+  const t = toMM(unit.thickness)
+
+  // A full back covers the back of the carcass, which starts one thickness further forward
+  const rear = unit.backPanel === "full" ? -d + t : -d
+
+  const boxes: PanelBox[] = [
+    { id: "top", name: "top", label: "Top", min: [-w, h - t, rear], max: [w, h, d] },
+    { id: "bottom", name: "bottom", label: "Bottom", min: [-w, -h, rear], max: [w, -h + t, d] },
+    { id: "left-side", name: "left-side", label: "Left side", min: [-w, -h + t, rear], max: [-w + t, h - t, d] },
+    { id: "right-side", name: "right-side", label: "Right side", min: [w - t, -h + t, rear], max: [w, h - t, d] },
+  ]
+
+  if (unit.backPanel === "full") {
+    boxes.push({ id: "back", name: "back", label: "Back", min: [-w, -h, -d], max: [w, h, -d + t] })
+  } else if (unit.backPanel === "inset") {
+    boxes.push({ id: "back", name: "back", label: "Back", min: [-w + t, -h + t, -d], max: [w - t, h - t, -d + t] })
+  }
+
+  // Shelves and columns span their compartment and are set back by one thickness at the front and back
+  for (const member of nameMembers(layoutCompartments(unit).members)) {
+    const center = toMM(member.center)
+    const start = toMM(member.start)
+    const end = toMM(member.start + member.span)
+
+    boxes.push(
+      member.kind === "shelf"
+        ? {
+            id: `shelf-${member.id}`,
+            name: "shelf",
+            label: member.name,
+            min: [start, center - t / 2, -d + t],
+            max: [end, center + t / 2, d - t],
+          }
+        : {
+            id: `column-${member.id}`,
+            name: "column",
+            label: member.name,
+            min: [center - t / 2, start, -d + t],
+            max: [center + t / 2, end, d - t],
+          },
+    )
+  }
+
+  // Fronts are flush with the front of the carcass
+  for (const front of layoutFronts(unit)) {
+    boxes.push({
+      id: front.id,
+      name: front.kind,
+      label: front.name,
+      min: [toMM(front.box.left), toMM(front.box.bottom), d - t],
+      max: [toMM(front.box.right), toMM(front.box.top), d],
+    })
+  }
+
+  return boxes
+}
@@ -0,0 +1,198 @@
+/**
+ * PDF
+ * A small PDF writer for vector drawings and tables
+ *
+ * Pages are described in millimeters from their lower left corner. Text uses
+ * the standard Helvetica fonts, which every PDF reader has built in, so no
+ * fonts are embedded. Only characters in the WinAnsi (Latin-1) range are kept.
+ */
+
+export type PdfColor = [number, number, number] // 0-1 red, green and blue
+
+export type PdfFont = "regular" | "bold"
+
+export type PdfPage = {
+  width: number // mm
+  height: number // mm
+  content: string[]
+}
+
+export type StrokeStyle = {
+  lineWidth?: number // mm
+  color?: PdfColor
+  dash?: number[] // mm on, mm off
+}
+
+export type TextStyle = {
+  size: number // mm, height of capital letters is about 0.7 of this
+  font?: PdfFont
+  align?: "left" | "center" | "right"
+  rotation?: number // degrees counterclockwise
+  color?: PdfColor
+}
+
+// ISO and US paper sizes, landscape
+export const PAPER_SIZES = {
+  A4: { width: 297, height: 210 },
+  A3: { width: 420, height: 297 },
+  Letter: { width: 279.4, height: 215.9 },
+  Tabloid: { width: 431.8, height: 279.4 },
+}
+
+const POINTS_PER_MM = 72 / 25.4
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: "F1",
+  bold: "F2",
+}
+
+// Helvetica advance widths in thousandths of the font size for the printable ASCII characters
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+const formatNumber = (value: number) => `${Math.round(value * 1000) / 1000}`
+
+const pt = (mm: number) => formatNumber(mm * POINTS_PER_MM)
+
+const colorOperands = ([r, g, b]: PdfColor) => `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)}`
+
+// Escape a string for a PDF literal, replacing characters outside Latin-1
+function escapeText(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0)
+      if (char === "(" || char === ")" || char === "\\") return `\\${char}`
+      if (code < 32 || code > 255) return "?"
+      if (code > 126) return `\\${code.toString(8).padStart(3, "0")}`
+      return char
+    })
+    .join("")
+}
+
+export function createPdfPage(width: number, height: number): PdfPage {
+  return { width, height, content: [] }
+}
+
+// Width of a line of text in mm, bold text is taken as about 5% wider
+export function measureText(text: string, size: number, font: PdfFont = "regular"): number {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0)
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556)
+  }, 0)
+
+  return (units / 1000) * size * (font === "bold" ? 1.05 : 1)
+}
+
+function strokeState({ lineWidth = 0.25, color = [0, 0, 0], dash }: StrokeStyle): string {
+  return `${pt(lineWidth)} w ${colorOperands(color)} RG [${(dash ?? []).map(pt).join(" ")}] 0 d`
+}
+
+export function drawLine(page: PdfPage, x1: number, y1: number, x2: number, y2: number, style: StrokeStyle = {}) {
+  page.content.push(`q ${strokeState(style)} ${pt(x1)} ${pt(y1)} m ${pt(x2)} ${pt(y2)} l S Q`)
+}
+
+// Closed polygon, filled and/or outlined
+export function drawPolygon(
+  page: PdfPage,
+  points: Array<[number, number]>,
+  { fill, stroke }: { fill?: PdfColor; stroke?: StrokeStyle },
+) {
+  if (points.length < 2 || (!fill && !stroke)) return
+
+  const path = points.map(([x, y], i) => `${pt(x)} ${pt(y)} ${i === 0 ? "m" : "l"}`).join(" ")
+  const paint = fill && stroke ? "b" : fill ? "f" : "s"
+  page.content.push(
+    `q ${fill ? `${colorOperands(fill)} rg ` : ""}${stroke ? `${strokeState(stroke)} ` : ""}${path} ${paint} Q`,
+  )
+}
+
+export function drawRect(
+  page: PdfPage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  style: { fill?: PdfColor; stroke?: StrokeStyle },
+) {
+  drawPolygon(
+    page,
+    [
+      [x, y],
+      [x + width, y],
+      [x + width, y + height],
+      [x, y + height],
+    ],
+    style,
+  )
+}
+
+// Text on its baseline at (x, y), aligned horizontally around x
+export function drawText(page: PdfPage, text: string, x: number, y: number, style: TextStyle) {
+  const { size, font = "regular", align = "left", rotation = 0, color = [0, 0, 0] } = style
+  const width = measureText(text, size, font)
+  const shift = align === "center" ? -width / 2 : align === "right" ? -width : 0
+
+  const angle = (rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const originX = x + shift * cos
+  const originY = y + shift * sin
+
+  page.content.push(
+    `BT /${FONT_NAMES[font]} ${pt(size)} Tf ${colorOperands(color)} rg ` +
+      `${formatNumber(cos)} ${formatNumber(sin)} ${formatNumber(-sin)} ${formatNumber(cos)} ${pt(originX)} ${pt(originY)} Tm ` +
+      `(${escapeText(text)}) Tj ET`,
+  )
+}
+
+// Assemble pages into a PDF file
+export function createPdf(pages: PdfPage[], title: string): Uint8Array {
+  const objects: string[] = []
+  const addObject = (body: string) => {
+    objects.push(body)
+    return objects.length
+  }
+
+  // The catalog and page tree come first so their numbers are known up front
+  const catalogId = addObject("")
+  const pagesId = addObject("")
+  const regularFontId = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")
+  const boldFontId = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>")
+  const infoId = addObject(`<< /Title (${escapeText(title)}) /Producer (Shelving Unit Designer) >>`)
+
+  const pageIds = pages.map((page) => {
+    const stream = page.content.join("\n")
+    const contentId = addObject(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`)
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${pt(page.width)} ${pt(page.height)}] ` +
+        `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+    )
+  })
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`
+  objects[pagesId - 1] =
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = "%PDF-1.4\n"
+  const offsets = objects.map((body, i) => {
+    const offset = output.length
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("")
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n`
+  output += `startxref\n${xrefOffset}\n%%EOF\n`
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0) & 0xff)
+}
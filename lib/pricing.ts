@@ -0,0 +1,253 @@
+/**
+ * Pricing
+ * Cost estimate of a shelving unit from a workshop's cost catalog
+ *
+ * Board is charged either by the square meter of panels or by the stock sheets
+ * the nesting needs. Edge banding is charged by the metre of banded edges in
+ * the cut list. Every piece takes two saw cuts, one along and one across.
+ * Catalogs are saved as versioned JSON files so each workshop can keep its own
+ * prices.
+ */
+
+import { z } from "zod"
+import { getBandedLength, type Panel } from "./cut-list"
+import { formatIssues } from "./design-document"
+import type { HardwareItem, HardwareKind } from "./hardware"
+import type { NestingResult } from "./nesting"
+import { MATERIAL_INFO, type MaterialName } from "./shelving-unit"
+
+export const COST_CATALOG_FORMAT = "shelving-unit-cost-catalog"
+export const COST_CATALOG_VERSION = 1
+
+// Key used to keep the workshop's catalog in localStorage
+export const COST_CATALOG_STORAGE_KEY = "shelving-unit-cost-catalog"
+
+export type MaterialPrice = {
+  unit: "m2" | "sheet"
+  price: number
+}
+
+export type CostCatalog = {
+  currency: string // ISO 4217 code
+  materials: Record<MaterialName, MaterialPrice>
+  edgeBandingPerMetre: number
+  hardware: Record<HardwareKind, number> // Price per piece
+  labourPerCut: number
+}
+
+export const DEFAULT_COST_CATALOG: CostCatalog = {
+  currency: "EUR",
+  materials: {
+    wood: { unit: "m2", price: 38 },
+    white: { unit: "sheet", price: 45 },
+    black: { unit: "sheet", price: 52 },
+    walnut: { unit: "m2", price: 72 },
+    oak: { unit: "m2", price: 58 },
+  },
+  edgeBandingPerMetre: 1.2,
+  hardware: {
+    connector: 0.35,
+    dowel: 0.05,
+    "cam-lock": 0.6,
+    "shelf-pin": 0.1,
+    "back-screw": 0.05,
+    foot: 1.5,
+    hinge: 2.5,
+    "drawer-slide": 14,
+    "flap-stay": 6,
+    handle: 4,
+  },
+  labourPerCut: 0.8,
+}
+
+export type CostLineItem = {
+  category: "material" | "edge-banding" | "hardware" | "labour"
+  description: string
+  quantity: number
+  unit: string
+  unitPrice: number
+  total: number
+}
+
+export type CostEstimate = {
+  currency: string
+  items: CostLineItem[]
+  total: number
+}
+
+export type CostInput = {
+  panels: Panel[]
+  nesting: NestingResult
+  hardware: HardwareItem[]
+}
+
+const CUTS_PER_PIECE = 2
+
+const priceSchema = z.number().min(0, "must not be negative")
+
+const materialPriceSchema = z.object({
+  unit: z.enum(["m2", "sheet"]),
+  price: priceSchema,
+})
+
+// Fittings added after the first catalogs were saved fall back to the default price
+const hardwarePriceSchema = (kind: HardwareKind) => priceSchema.default(DEFAULT_COST_CATALOG.hardware[kind])
+
+const catalogSchema: z.ZodType<CostCatalog, z.ZodTypeDef, unknown> = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/, "must be a three letter currency code such as EUR"),
+  materials: z.object({
+    wood: materialPriceSchema,
+    white: materialPriceSchema,
+    black: materialPriceSchema,
+    walnut: materialPriceSchema,
+    oak: materialPriceSchema,
+  }),
+  edgeBandingPerMetre: priceSchema,
+  hardware: z.object({
+    connector: priceSchema,
+    dowel: hardwarePriceSchema("dowel"),
+    "cam-lock": hardwarePriceSchema("cam-lock"),
+    "shelf-pin": hardwarePriceSchema("shelf-pin"),
+    "back-screw": priceSchema,
+    foot: priceSchema,
+    hinge: hardwarePriceSchema("hinge"),
+    "drawer-slide": hardwarePriceSchema("drawer-slide"),
+    "flap-stay": hardwarePriceSchema("flap-stay"),
+    handle: hardwarePriceSchema("handle"),
+  }),
+  labourPerCut: priceSchema,
+})
+
+const catalogDocumentSchema = z.object({
+  format: z.literal(COST_CATALOG_FORMAT),
+  version: z.literal(COST_CATALOG_VERSION),
+  catalog: catalogSchema,
+})
+
+export type ParseCostCatalogResult = { success: true; catalog: CostCatalog } | { success: false; errors: string[] }
+
+// Round money to cents
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// Price the panels, edge banding, hardware and cutting of a unit
+export function estimateCost({ panels, nesting, hardware }: CostInput, catalog: CostCatalog): CostEstimate {
+  const items: CostLineItem[] = []
+  const addItem = (item: Omit<CostLineItem, "total">) => {
+    if (item.quantity > 0) items.push({ ...item, total: roundMoney(item.quantity * item.unitPrice) })
+  }
+
+  // Board, by area of the panels or by the sheets the nesting needs
+  for (const material of Object.keys(MATERIAL_INFO) as MaterialName[]) {
+    const { unit, price } = catalog.materials[material]
+    const materialPanels = panels.filter((panel) => panel.material === material)
+    if (materialPanels.length === 0) continue
+
+    const quantity =
+      unit === "sheet"
+        ? nesting.sheets.filter((sheet) => sheet.material === material).length
+        : materialPanels.reduce((sum, panel) => sum + (panel.length * panel.width * panel.quantity) / 1_000_000, 0)
+
+    addItem({
+      category: "material",
+      description: MATERIAL_INFO[material].label,
+      quantity: unit === "sheet" ? quantity : Math.round(quantity * 100) / 100,
+      unit: unit === "sheet" ? "sheets" : "m²",
+      unitPrice: price,
+    })
+  }
+
+  // Edge banding on every banded edge
+  const bandedLength = panels.reduce((sum, panel) => sum + getBandedLength(panel) / 1000, 0)
+  addItem({
+    category: "edge-banding",
+    description: "Edge banding",
+    quantity: Math.round(bandedLength * 100) / 100,
+    unit: "m",
+    unitPrice: catalog.edgeBandingPerMetre,
+  })
+
+  // Fittings
+  for (const item of hardware) {
+    addItem({
+      category: "hardware",
+      description: item.name,
+      quantity: item.quantity,
+      unit: "pcs",
+      unitPrice: catalog.hardware[item.kind],
+    })
+  }
+
+  // Saw cuts
+  addItem({
+    category: "labour",
+    description: "Cutting",
+    quantity: panels.reduce((sum, panel) => sum + panel.quantity, 0) * CUTS_PER_PIECE,
+    unit: "cuts",
+    unitPrice: catalog.labourPerCut,
+  })
+
+  return {
+    currency: catalog.currency,
+    items,
+    total: roundMoney(items.reduce((sum, item) => sum + item.total, 0)),
+  }
+}
+
+// Format an amount in the catalog's currency
+export function formatPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
+
+// Validate the parsed JSON of a catalog file
+export function parseCostCatalogValue(value: unknown): ParseCostCatalogResult {
+  const result = catalogDocumentSchema.safeParse(value)
+  if (!result.success) {
+    return { success: false, errors: formatIssues(result.error) }
+  }
+
+  return { success: true, catalog: result.data.catalog }
+}
+
+// Parse the text of a catalog file
+export function parseCostCatalog(text: string): ParseCostCatalogResult {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    return { success: false, errors: ["The file is not valid JSON"] }
+  }
+
+  return parseCostCatalogValue(value)
+}
+
+// Serialize a catalog as a versioned JSON document
+export function serializeCostCatalog(catalog: CostCatalog): string {
+  return JSON.stringify({ format: COST_CATALOG_FORMAT, version: COST_CATALOG_VERSION, catalog }, null, 2)
+}
+
+// Save the catalog to localStorage
+export function saveCostCatalogToStorage(catalog: CostCatalog): void {
+  try {
+    window.localStorage.setItem(COST_CATALOG_STORAGE_KEY, serializeCostCatalog(catalog))
+  } catch (e) {
+    console.error(`Error saving cost catalog: ${(e as Error).message}`)
+  }
+}
+
+// Load the catalog from localStorage, or null when nothing valid is stored
+export function loadCostCatalogFromStorage(): CostCatalog | null {
+  let text: string | null = null
+  try {
+    text = window.localStorage.getItem(COST_CATALOG_STORAGE_KEY)
+  } catch (e) {
+    console.error(`Error loading cost catalog: ${(e as Error).message}`)
+  }
+
+  if (text === null) return null
+  const result = parseCostCatalog(text)
+  return result.success ? result.catalog : null
+}
@@ -0,0 +1,131 @@
+/**
+ * Sections
+ * Section cuts through a shelving unit for the technical drawings
+ *
+ * A shelf is cut across its span by a vertical plane seen from the right, like
+ * the side view, which shows how the shelf, the back panel, the top and bottom
+ * and any fronts meet. A column is cut along its height by a horizontal plane
+ * seen from above, which shows the column between the sides and the back.
+ * Planes go through the middle of the widest opening along the member, clear
+ * of the members crossing it. Without a chosen shelf or column the unit is cut
+ * across its width like a shelf. Parts the plane passes through are cut and
+ * hatched, parts beyond it are seen in outline.
+ */
+
+import { layoutCompartments } from "./compartments"
+import { getPanelBoxes, type PanelGeometryInput } from "./panel-geometry"
+import { toMM } from "./shelving-unit"
+
+type Point = [number, number]
+
+// "side" cuts are vertical planes across the width, "plan" cuts are horizontal planes across the height
+export type SectionDirection = "side" | "plan"
+
+export type SectionPlane = {
+  direction: SectionDirection
+  at: number // x of a side cut or y of a plan cut, in abstract units centred on the unit
+  memberId: string | null // Shelf or column the plane is cut through
+}
+
+export type SectionPart = {
+  id: string
+  label: string
+  cut: boolean
+  min: Point // mm from the lower left corner of the section
+  max: Point
+}
+
+export type Section = {
+  plane: SectionPlane
+  width: number // mm, depth of a side section or width of a plan section
+  height: number // mm, height of a side section or depth of a plan section
+  parts: SectionPart[]
+}
+
+export type SectionInput = PanelGeometryInput
+
+// Letter of the section line, shown at both of its ends and in the section's title
+export const SECTION_LABEL = "A"
+
+// Middle of the widest stretch of a span clear of the members crossing it, so the plane doesn't run along one
+function clearMiddle(start: number, end: number, crossings: number[], thickness: number): number {
+  const edges = [start, ...crossings.filter((center) => center > start && center < end).sort((a, b) => a - b), end]
+  let best = { from: start, to: end, width: -Infinity }
+  for (let i = 1; i < edges.length; i++) {
+    const from = i === 1 ? edges[0] : edges[i - 1] + thickness / 2
+    const to = i === edges.length - 1 ? edges[i] : edges[i] - thickness / 2
+    if (to - from > best.width) best = { from, to, width: to - from }
+  }
+  return (best.from + best.to) / 2
+}
+
+// Plane through a shelf across its span or a column halfway up, or through the middle of the unit
+export function getSectionPlane(unit: SectionInput, memberId: string | null): SectionPlane {
+  const { members } = layoutCompartments(unit)
+  const member = members.find((candidate) => candidate.id === memberId)
+  if (!member) {
+    const columns = members.filter((candidate) => candidate.kind === "column").map((column) => column.center)
+    return {
+      direction: "side",
+      at: clearMiddle(-unit.width / 2, unit.width / 2, columns, unit.thickness),
+      memberId: null,
+    }
+  }
+
+  // Shelves are cut between columns, columns between shelves
+  const crossings = members.filter((candidate) => candidate.kind !== member.kind).map((candidate) => candidate.center)
+  return {
+    direction: member.kind === "shelf" ? "side" : "plan",
+    at: clearMiddle(member.start, member.start + member.span, crossings, unit.thickness),
+    memberId: member.id,
+  }
+}
+
+// Cut the unit along a plane, keeping the parts the plane passes through and those beyond it
+export function createSection(unit: SectionInput, plane: SectionPlane): Section {
+  const W = toMM(unit.width)
+  const H = toMM(unit.height)
+  const D = toMM(unit.depth)
+  const at = toMM(plane.at)
+  const side = plane.direction === "side"
+
+  // A side cut is seen from the right, so only what is left of the plane shows, and a plan cut only shows what is below it
+  const axis = side ? 0 : 1
+  const parts = getPanelBoxes(unit).flatMap((box): SectionPart[] => {
+    if (box.min[axis] >= at) return []
+
+    // The front is on the left of a side section and at the bottom of a plan section, as in the drawings
+    const across: Point = [D / 2 - box.max[2], D / 2 - box.min[2]]
+    return [
+      {
+        id: box.id,
+        label: box.label,
+        cut: box.max[axis] > at,
+        min: side ? [across[0], box.min[1] + H / 2] : [box.min[0] + W / 2, across[0]],
+        max: side ? [across[1], box.max[1] + H / 2] : [box.max[0] + W / 2, across[1]],
+      },
+    ]
+  })
+
+  return { plane, width: side ? D : W, height: side ? H : D, parts }
+}
+
+// 45° hatching across a rectangle, with lines on a common grid so neighbouring cut parts line up
+export function hatchRectangle(min: Point, max: Point, spacing: number): Array<[Point, Point]> {
+  const [x0, y0] = min
+  const [x1, y1] = max
+  const lines: Array<[Point, Point]> = []
+
+  // Lines run along y = x - c
+  for (let c = Math.ceil((x0 - y1) / spacing) * spacing; c < x1 - y0; c += spacing) {
+    const start = Math.max(x0, y0 + c)
+    const end = Math.min(x1, y1 + c)
+    if (end > start)
+      lines.push([
+        [start, start - c],
+        [end, end - c],
+      ])
+  }
+
+  return lines
+}
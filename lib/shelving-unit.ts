@@ -0,0 +1,72 @@
+/**
+ * Shelving Unit
+ * Shared types and constants describing a shelving unit design
+ */
+
+import type { Compartment } from "./compartments"
+import type { PanelRole } from "./cut-list"
+
+// Conversion factor from abstract units to millimeters
+// This makes 1 unit = 1000mm (1 meter)
+export const UNIT_TO_MM = 1000
+
+export type MaterialName = "wood" | "white" | "black" | "walnut" | "oak"
+
+// "inset" fits between the sides, top and bottom, "full" covers the whole back of the carcass
+export type BackPanel = "none" | "full" | "inset"
+
+// Carcass corners, the ends of shelves and columns, and the edges of an inset back, see joinery.ts
+export type JointFamily = "carcass" | "members" | "back"
+
+export type JointType = "butt" | "dado" | "rabbet" | "dowel" | "cam-lock"
+
+// How many of a panel's long and short edges are covered with edge banding
+export type EdgeBanding = { long: 0 | 1 | 2; short: 0 | 1 | 2 }
+
+// Carcass panels in the cut list, the two sides being cut alike
+export type CarcassPanel = "top" | "bottom" | "sides" | "back"
+
+// Types for our shelving unit
+export type ShelvingUnitState = {
+  width: number
+  height: number
+  depth: number
+  thickness: number
+  layout: Compartment // Root of the compartment tree filling the inside of the carcass
+  backPanel: BackPanel
+  joinery: Record<JointFamily, JointType> // How each family of joints is made
+  edgeBanding: Partial<Record<CarcassPanel, EdgeBanding>> // Carcass panels banded other than the usual way, see cut-list.ts
+  showWireframe: boolean
+  showDimensions: boolean
+  showDrilling: boolean // Holes for shelf pins and fittings in the 3D view
+  dimensionStyle: "overall" | "chain" | "clear" // Overall size only, or with chain or clear opening dimensions too
+  viewMode: "3d" | "orthographic"
+  sectionMemberId: string | null // Shelf or column the section view is cut through, null for the middle of the unit
+  unitSystem: "mm" | "cm" | "in" // How lengths are shown and typed, designs are always stored the same way
+  material: MaterialName
+  roleMaterials: Partial<Record<PanelRole, MaterialName>> // Panel roles made from another board than the unit's material
+}
+
+// Human readable material names, display colors, whether the board has a visible grain,
+// and the stiffness and weight of the board behind the finish, used for shelf sag estimates
+export type MaterialInfo = {
+  label: string
+  color: string
+  hasGrain: boolean
+  modulus: number // N/mm², modulus of elasticity in bending
+  density: number // kg/m³
+}
+
+// Veneers are assumed to be on plywood (wood) or MDF (walnut, oak), melamine on chipboard
+export const MATERIAL_INFO: Record<MaterialName, MaterialInfo> = {
+  wood: { label: "Wood veneer", color: "#A67C52", hasGrain: true, modulus: 7000, density: 600 },
+  white: { label: "White melamine", color: "#F5F5F5", hasGrain: false, modulus: 3000, density: 650 },
+  black: { label: "Black melamine", color: "#333333", hasGrain: false, modulus: 3000, density: 650 },
+  walnut: { label: "Walnut veneer", color: "#5D4037", hasGrain: true, modulus: 3500, density: 750 },
+  oak: { label: "Oak veneer", color: "#D7CCA1", hasGrain: true, modulus: 3500, density: 750 },
+}
+
+// Convert abstract units to millimeters, rounded to a tenth of a millimeter
+export function toMM(value: number): number {
+  return Math.round(value * UNIT_TO_MM * 10) / 10
+}
@@ -0,0 +1,468 @@
+/**
+ * Technical Drawing
+ * Orthographic views of a shelving unit as 2D lines, text and dimensions in millimeters
+ *
+ * Every view has its own coordinates with the origin at the lower left corner
+ * of the unit's outline. The front view looks at the front of the unit, the top
+ * view looks down with the front edge at the bottom, and the side view looks at
+ * the right side with the front edge on the left. Edges behind other panels are
+ * drawn as hidden lines. Doors and flaps show which way they open with dashed
+ * lines meeting at their hinged edge. Grooves and holes for the joinery are
+ * hidden lines, the back's in the side view and the rest in the front view,
+ * which notes the joint types below it. Holes drilled across the unit, for
+ * shelf pins and fittings, are hidden circles in the side view. The section
+ * view is cut along the section line drawn on the front view, with arrows
+ * showing the way it looks.
+ */
+
+import { layoutCompartments } from "./compartments"
+import { getDrilledHoles, getSideHoleCircles } from "./drilling"
+import { layoutFronts } from "./fronts"
+import { describeJoinery, getJointFeatures, getJointOutlines } from "./joinery"
+import { SECTION_LABEL, createSection, getSectionPlane, hatchRectangle } from "./sections"
+import { toMM, type ShelvingUnitState } from "./shelving-unit"
+import { formatLengthValue, type UnitSystem } from "./units"
+
+export type DrawingLayer = "outline" | "hidden" | "hatch" | "dimension" | "text"
+
+export type Point = [number, number]
+
+export type DrawingLine = {
+  type: "line"
+  layer: DrawingLayer
+  start: Point
+  end: Point
+}
+
+export type DrawingText = {
+  type: "text"
+  layer: DrawingLayer
+  position: Point // Centre of the text
+  height: number
+  value: string
+  rotation: number // degrees counterclockwise
+}
+
+// A linear dimension between two points, drawn `offset` mm to the left of the direction from start to end
+export type DrawingDimension = {
+  type: "dimension"
+  start: Point
+  end: Point
+  offset: number
+  textHeight: number // Arrowheads and gaps are sized from the text
+}
+
+export type DrawingEntity = DrawingLine | DrawingText | DrawingDimension
+
+export type ViewName = "front" | "top" | "side" | "section"
+
+// Where the top and side views go around the front view
+export type Projection = "first-angle" | "third-angle"
+
+export type DrawingView = {
+  name: ViewName
+  title: string
+  width: number // mm, extent of the unit's outline in the view
+  height: number // mm
+  entities: DrawingEntity[]
+}
+
+export type DrawingBounds = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export type DrawingInput = Pick<
+  ShelvingUnitState,
+  "width" | "height" | "depth" | "thickness" | "layout" | "backPanel" | "joinery" | "sectionMemberId"
+>
+
+// Sizes of annotations in mm at full size, readable when printed at 1:10
+// Drawings for other scales multiply them by an annotation scale
+export const TEXT_HEIGHT = 25
+export const TITLE_HEIGHT = 40
+const DIMENSION_OFFSET = 80
+const HATCH_SPACING = 15
+const CIRCLE_SEGMENTS = 12
+const SECTION_LINE_OVERHANG = 60 // How far the section line runs past the unit
+
+// Space left between arranged views
+export const VIEW_GAP = 400
+
+const line = (layer: DrawingLayer, start: Point, end: Point): DrawingLine => ({ type: "line", layer, start, end })
+
+// Four edges of a rectangle
+function rectangle(layer: DrawingLayer, x1: number, y1: number, x2: number, y2: number): DrawingLine[] {
+  return [
+    line(layer, [x1, y1], [x2, y1]),
+    line(layer, [x2, y1], [x2, y2]),
+    line(layer, [x2, y2], [x1, y2]),
+    line(layer, [x1, y2], [x1, y1]),
+  ]
+}
+
+// A circle as a polygon of short lines
+function circle(layer: DrawingLayer, [cx, cy]: Point, radius: number): DrawingLine[] {
+  const point = (i: number): Point => [
+    cx + radius * Math.cos((i / CIRCLE_SEGMENTS) * Math.PI * 2),
+    cy + radius * Math.sin((i / CIRCLE_SEGMENTS) * Math.PI * 2),
+  ]
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => line(layer, point(i), point(i + 1)))
+}
+
+// Draw the front, top, side and section views of a unit
+// `annotationScale` sizes text and dimensions, e.g. 2 for a drawing printed at 1:20
+export function createDrawingViews(unit: DrawingInput, annotationScale = 1): DrawingView[] {
+  const W = toMM(unit.width)
+  const H = toMM(unit.height)
+  const D = toMM(unit.depth)
+  const T = toMM(unit.thickness)
+
+  const dimension = (start: Point, end: Point, offset = DIMENSION_OFFSET): DrawingDimension => ({
+    type: "dimension",
+    start,
+    end,
+    offset: offset * annotationScale,
+    textHeight: TEXT_HEIGHT * annotationScale,
+  })
+
+  // Title centred above a view, clear of its dimensions
+  const title = (value: string, width: number, height: number): DrawingText => ({
+    type: "text",
+    layer: "text",
+    position: [width / 2, height + (DIMENSION_OFFSET * 2 + TITLE_HEIGHT) * annotationScale],
+    height: TITLE_HEIGHT * annotationScale,
+    value,
+    rotation: 0,
+  })
+
+  // Convert from abstract units centred on the unit to mm from its lower left corner
+  const x = (value: number) => toMM(value + unit.width / 2)
+  const y = (value: number) => toMM(value + unit.height / 2)
+
+  const { members } = layoutCompartments(unit)
+  const shelves = members.filter((member) => member.kind === "shelf")
+  const columns = members.filter((member) => member.kind === "column")
+
+  // Outline of every front, with lines from the free corners to the middle of the hinged edge
+  const fronts = layoutFronts(unit).flatMap((front) => {
+    const left = x(front.box.left)
+    const right = x(front.box.right)
+    const bottom = y(front.box.bottom)
+    const top = y(front.box.top)
+    const middleX = (left + right) / 2
+    const middleY = (bottom + top) / 2
+
+    const swing =
+      front.hinge === "left"
+        ? [line("hidden", [right, bottom], [left, middleY]), line("hidden", [right, top], [left, middleY])]
+        : front.hinge === "right"
+          ? [line("hidden", [left, bottom], [right, middleY]), line("hidden", [left, top], [right, middleY])]
+          : front.hinge === "bottom"
+            ? [line("hidden", [left, top], [middleX, bottom]), line("hidden", [right, top], [middleX, bottom])]
+            : []
+
+    return [...rectangle("outline", left, bottom, right, top), ...swing]
+  })
+
+  // Section line across the front view, with arrows at both ends pointing the way the section looks
+  const section = createSection(unit, getSectionPlane(unit, unit.sectionMemberId))
+  const sectionLine = ((): DrawingEntity[] => {
+    const overhang = SECTION_LINE_OVERHANG * annotationScale
+    const arrowLength = TEXT_HEIGHT * 1.5 * annotationScale
+    const arrowHead = TEXT_HEIGHT * 0.4 * annotationScale
+
+    // Ends of the line, and the direction the section looks in
+    const vertical = section.plane.direction === "side"
+    const ends: Point[] = vertical
+      ? [
+          [x(section.plane.at), -overhang],
+          [x(section.plane.at), H + overhang],
+        ]
+      : [
+          [-overhang, y(section.plane.at)],
+          [W + overhang, y(section.plane.at)],
+        ]
+    const [dx, dy] = vertical ? [-1, 0] : [0, -1]
+
+    return [
+      line("hidden", ends[0], ends[1]),
+      ...ends.flatMap(([px, py]): DrawingEntity[] => {
+        const tip: Point = [px + dx * arrowLength, py + dy * arrowLength]
+        return [
+          line("outline", [px, py], tip),
+          line("outline", tip, [tip[0] - dx * arrowHead + dy * arrowHead, tip[1] - dy * arrowHead + dx * arrowHead]),
+          line("outline", tip, [tip[0] - dx * arrowHead - dy * arrowHead, tip[1] - dy * arrowHead - dx * arrowHead]),
+          {
+            type: "text",
+            layer: "text",
+            position: [px - dx * TEXT_HEIGHT * annotationScale, py - dy * TEXT_HEIGHT * annotationScale],
+            height: TEXT_HEIGHT * annotationScale,
+            value: SECTION_LABEL,
+            rotation: 0,
+          },
+        ]
+      }),
+    ]
+  })()
+
+  // Grooves and holes for the joinery, from mm centred on the unit to mm from the view's lower left corner
+  const features = getJointFeatures(unit)
+  const frontJoinery = getJointOutlines(features, "front").flatMap(({ min, max }) =>
+    rectangle("hidden", min[0] + W / 2, min[1] + H / 2, max[0] + W / 2, max[1] + H / 2),
+  )
+  const sideJoinery = getJointOutlines(features, "side").flatMap(({ min, max }) =>
+    rectangle("hidden", min[0] + D / 2, min[1] + H / 2, max[0] + D / 2, max[1] + H / 2),
+  )
+  const sideHoles = getSideHoleCircles(getDrilledHoles(unit)).flatMap(({ center, radius }) =>
+    circle("hidden", [center[0] + D / 2, center[1] + H / 2], radius),
+  )
+
+  // A full back covers the back edges of the carcass, which is one thickness shallower
+  const carcassDepth = unit.backPanel === "full" ? D - T : D
+
+  // Front view: top and bottom run the full width, sides sit between them
+  const front: DrawingEntity[] = [
+    ...rectangle("outline", 0, 0, W, H),
+    line("outline", [0, T], [W, T]),
+    line("outline", [0, H - T], [W, H - T]),
+    line("outline", [T, T], [T, H - T]),
+    line("outline", [W - T, T], [W - T, H - T]),
+    ...shelves.flatMap((shelf) =>
+      rectangle(
+        "outline",
+        x(shelf.start),
+        y(shelf.center) - T / 2,
+        x(shelf.start + shelf.span),
+        y(shelf.center) + T / 2,
+      ),
+    ),
+    ...columns.flatMap((column) =>
+      rectangle(
+        "outline",
+        x(column.center) - T / 2,
+        y(column.start),
+        x(column.center) + T / 2,
+        y(column.start + column.span),
+      ),
+    ),
+    ...fronts,
+    ...frontJoinery,
+    ...sectionLine,
+    dimension([W, 0], [0, 0]),
+    dimension([W, H], [W, 0]),
+    dimension([0, 0], [0, T], DIMENSION_OFFSET / 2),
+    title("FRONT VIEW", W, H),
+    {
+      type: "text",
+      layer: "text",
+      position: [W / 2, -(DIMENSION_OFFSET * 2 + TEXT_HEIGHT) * annotationScale],
+      height: TEXT_HEIGHT * annotationScale,
+      value: `Joinery: ${describeJoinery(unit)}`,
+      rotation: 0,
+    },
+  ]
+
+  // Top view: the top hides the sides, an inset back and columns below it
+  const top: DrawingEntity[] = [
+    ...rectangle("outline", 0, 0, W, D),
+    line("hidden", [T, 0], [T, carcassDepth]),
+    line("hidden", [W - T, 0], [W - T, carcassDepth]),
+    ...(unit.backPanel === "inset" ? [line("hidden", [T, D - T], [W - T, D - T])] : []),
+    ...(unit.backPanel === "full" ? [line("outline", [0, D - T], [W, D - T])] : []),
+    ...columns.flatMap((column) => rectangle("hidden", x(column.center) - T / 2, T, x(column.center) + T / 2, D - T)),
+    dimension([0, D], [W, D]),
+    dimension([W, D], [W, 0]),
+    title("TOP VIEW", W, D),
+  ]
+
+  // Side view from the right: the right side hides the shelves and an inset back
+  const side: DrawingEntity[] = [
+    ...rectangle("outline", 0, 0, D, H),
+    line("outline", [0, T], [carcassDepth, T]),
+    line("outline", [0, H - T], [carcassDepth, H - T]),
+    ...(unit.backPanel === "inset" ? [line("hidden", [D - T, T], [D - T, H - T])] : []),
+    ...(unit.backPanel === "full" ? [line("outline", [D - T, 0], [D - T, H])] : []),
+    ...shelves.flatMap((shelf) => rectangle("hidden", T, y(shelf.center) - T / 2, D - T, y(shelf.center) + T / 2)),
+    ...sideJoinery,
+    ...sideHoles,
+    dimension([D, 0], [0, 0]),
+    dimension([D, H], [D, 0]),
+    title("SIDE VIEW", D, H),
+  ]
+
+  // Section: parts beyond the plane in outline, then the cut parts hatched on top
+  const sectionView: DrawingEntity[] = [
+    ...section.parts.flatMap((part) => [
+      ...rectangle("outline", part.min[0], part.min[1], part.max[0], part.max[1]),
+      ...(part.cut
+        ? hatchRectangle(part.min, part.max, HATCH_SPACING * annotationScale).map(([start, end]) =>
+            line("hatch", start, end),
+          )
+        : []),
+    ]),
+    dimension([section.width, 0], [0, 0]),
+    dimension([section.width, section.height], [section.width, 0]),
+    title(`SECTION ${SECTION_LABEL}-${SECTION_LABEL}`, section.width, section.height),
+  ]
+
+  return [
+    { name: "front", title: "Front View", width: W, height: H, entities: front },
+    { name: "top", title: "Top View", width: W, height: D, entities: top },
+    { name: "side", title: "Side View", width: D, height: H, entities: side },
+    {
+      name: "section",
+      title: `Section ${SECTION_LABEL}-${SECTION_LABEL}`,
+      width: section.width,
+      height: section.height,
+      entities: sectionView,
+    },
+  ]
+}
+
+// Break a dimension into its extension lines, dimension line, arrowheads and measurement text,
+// with the measurement written in the unit system
+export function expandDimension(
+  dimension: DrawingDimension,
+  unitSystem: UnitSystem = "mm",
+): Array<DrawingLine | DrawingText> {
+  const [x1, y1] = dimension.start
+  const [x2, y2] = dimension.end
+  const length = Math.hypot(x2 - x1, y2 - y1)
+  if (length === 0) return []
+
+  // Unit vectors along the dimension and towards the side it is drawn on
+  const ux = (x2 - x1) / length
+  const uy = (y2 - y1) / length
+  const nx = -uy
+  const ny = ux
+  const offset = dimension.offset
+  const side = Math.sign(offset) || 1
+  const textHeight = dimension.textHeight
+  const arrowSize = textHeight * 0.6
+  const gap = textHeight * 0.4
+
+  const at = (px: number, py: number, along: number, across: number): Point => [
+    px + ux * along + nx * across,
+    py + uy * along + ny * across,
+  ]
+
+  const a = at(x1, y1, 0, offset)
+  const b = at(x2, y2, 0, offset)
+  const arrow = (tip: Point, direction: number): DrawingLine[] => {
+    const spread = arrowSize / 3
+    return [
+      line("dimension", tip, at(tip[0], tip[1], arrowSize * direction, spread)),
+      line("dimension", tip, at(tip[0], tip[1], arrowSize * direction, -spread)),
+    ]
+  }
+
+  // Keep the text upright: read it from the bottom or from the right
+  let rotation = (Math.atan2(uy, ux) * 180) / Math.PI
+  if (rotation > 90.001 || rotation <= -90) rotation += rotation > 0 ? -180 : 180
+
+  return [
+    line("dimension", at(x1, y1, 0, gap * side), at(x1, y1, 0, offset + gap * side)),
+    line("dimension", at(x2, y2, 0, gap * side), at(x2, y2, 0, offset + gap * side)),
+    line("dimension", a, b),
+    ...arrow(a, 1),
+    ...arrow(b, -1),
+    {
+      type: "text",
+      layer: "dimension",
+      position: at((x1 + x2) / 2, (y1 + y2) / 2, 0, offset + textHeight * side),
+      height: textHeight,
+      value: formatLengthValue(length, unitSystem),
+      rotation,
+    },
+  ]
+}
+
+// Replace every dimension with the lines and text that draw it
+export function expandDimensions(
+  entities: DrawingEntity[],
+  unitSystem: UnitSystem = "mm",
+): Array<DrawingLine | DrawingText> {
+  return entities.flatMap((entity) => (entity.type === "dimension" ? expandDimension(entity, unitSystem) : [entity]))
+}
+
+// Move entities by an offset
+export function translateEntities<T extends DrawingEntity>(entities: T[], dx: number, dy: number): T[] {
+  const move = ([px, py]: Point): Point => [px + dx, py + dy]
+
+  return entities.map((entity) => {
+    if (entity.type === "text") return { ...entity, position: move(entity.position) }
+    return { ...entity, start: move(entity.start), end: move(entity.end) }
+  })
+}
+
+// Smallest box around a set of points
+export function getPointBounds(points: Point[]): DrawingBounds {
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) }
+}
+
+// Extent of a set of expanded entities, counting text by its approximate box
+export function getDrawingBounds(entities: Array<DrawingLine | DrawingText>): DrawingBounds {
+  return getPointBounds(
+    entities.flatMap((entity): Point[] => {
+      if (entity.type === "line") return [entity.start, entity.end]
+
+      // Text is roughly 0.6 of its height wide per character
+      const half = Math.max(entity.value.length * entity.height * 0.3, entity.height / 2)
+      const [x, y] = entity.position
+      return [
+        [x - half, y - half],
+        [x + half, y + half],
+      ]
+    }),
+  )
+}
+
+// Lower left corner of every view relative to the front view's. In third-angle projection the top view is
+// above the front view and the right side view to its right, in first-angle projection the top view is below
+// and the right side view to its left. The section goes to the right of the rest.
+export function getViewOffsets(
+  views: Array<Pick<DrawingView, "name" | "width" | "height">>,
+  gap: number,
+  projection: Projection,
+): Record<ViewName, Point> {
+  const size = (name: ViewName) => views.find((view) => view.name === name) ?? { width: 0, height: 0 }
+  const front = size("front")
+  const top = size("top")
+  const side = size("side")
+
+  if (projection === "first-angle") {
+    return {
+      front: [0, 0],
+      top: [0, -gap - top.height],
+      side: [-gap - side.width, 0],
+      section: [front.width + gap, 0],
+    }
+  }
+
+  return {
+    front: [0, 0],
+    top: [0, front.height + gap],
+    side: [front.width + gap, 0],
+    section: [front.width + side.width + gap * 2, 0],
+  }
+}
+
+// Lay out the views around the front view for a projection
+export function arrangeViews(
+  views: DrawingView[],
+  gap = VIEW_GAP,
+  unitSystem: UnitSystem = "mm",
+  projection: Projection = "third-angle",
+): Array<DrawingLine | DrawingText> {
+  const offsets = getViewOffsets(views, gap, projection)
+
+  return views.flatMap((view) => {
+    const [dx, dy] = offsets[view.name]
+    return translateEntities(expandDimensions(view.entities, unitSystem), dx, dy)
+  })
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { formatFeedRate, formatLength, getDragStep, parseLength, toUnitSystem } from "./units"
+
+describe("formatLength", () => {
+  it("shows millimeters and centimeters to the tenth of a millimeter", () => {
+    expect(formatLength(600, "mm")).toBe("600 mm")
+    expect(formatLength(18.04, "mm")).toBe("18 mm")
+    expect(formatLength(595.5, "cm")).toBe("59.55 cm")
+  })
+
+  it("shows inches to the nearest sixteenth as a reduced fraction", () => {
+    expect(formatLength(600, "in")).toBe('23 5/8"')
+    expect(formatLength(25.4 * 40, "in")).toBe('40"')
+    expect(formatLength(3.175, "in")).toBe('1/8"')
+    expect(formatLength(-12.7, "in")).toBe('-1/2"')
+  })
+})
+
+describe("parseLength", () => {
+  it("reads plain numbers in the unit system as millimeters", () => {
+    expect(parseLength("600", "mm")).toBe(600)
+    expect(parseLength(" 59.5 cm ", "cm")).toBe(595)
+    expect(parseLength("2", "in")).toBeCloseTo(50.8)
+  })
+
+  it("reads inches with a fraction, written with a space or a dash, or on its own", () => {
+    expect(parseLength('23 5/8"', "in")).toBeCloseTo(600.075)
+    expect(parseLength("23-5/8", "in")).toBeCloseTo(600.075)
+    expect(parseLength("7/16", "in")).toBeCloseTo(11.1125)
+  })
+
+  it("turns down text that isn't a length", () => {
+    expect(parseLength("", "mm")).toBeNull()
+    expect(parseLength("abc", "mm")).toBeNull()
+    expect(parseLength("1/0", "in")).toBeNull()
+  })
+
+  it("reads back what formatLength writes", () => {
+    for (const system of ["mm", "cm", "in"] as const) {
+      const mm = 25.4 * 23.625
+      expect(parseLength(formatLength(mm, system), system)).toBeCloseTo(mm, 0)
+    }
+  })
+})
+
+describe("toUnitSystem", () => {
+  it("converts millimeters to plain numbers for CSV files", () => {
+    expect(toUnitSystem(600, "mm")).toBe(600)
+    expect(toUnitSystem(600, "cm")).toBe(60)
+    expect(toUnitSystem(600, "in")).toBe(23.622)
+  })
+})
+
+describe("getDragStep and formatFeedRate", () => {
+  it("step by a millimeter, or a sixteenth of an inch, and show feeds per minute", () => {
+    expect(getDragStep("mm")).toBe(1)
+    expect(getDragStep("in")).toBeCloseTo(1.5875)
+    expect(formatFeedRate(4000, "mm")).toBe("4000 mm/min")
+    expect(formatFeedRate(4000, "in")).toBe("157 in/min")
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Units
+ * Length units for showing and entering the sizes of a shelving unit
+ *
+ * Designs are always stored in abstract units and converted to millimeters for
+ * manufacturing. The unit system only changes how lengths are shown and typed:
+ * millimeters or centimeters to the tenth of a millimeter designs are measured
+ * to, or inches to the nearest sixteenth written as a fraction, the way a US
+ * tape measure reads (23 7/16").
+ */
+
+import type { ShelvingUnitState } from "./shelving-unit"
+
+export type UnitSystem = ShelvingUnitState["unitSystem"]
+
+export const MM_PER_INCH = 25.4
+
+// Smallest fraction of an inch shown, as the denominator
+const INCH_FRACTION = 16
+
+export const UNIT_SYSTEMS: Record<UnitSystem, { label: string; suffix: string; mmPerUnit: number }> = {
+  mm: { label: "Millimeters", suffix: "mm", mmPerUnit: 1 },
+  cm: { label: "Centimeters", suffix: "cm", mmPerUnit: 10 },
+  in: { label: "Inches", suffix: "in", mmPerUnit: MM_PER_INCH },
+}
+
+// Greatest common divisor, to reduce fractions
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b))
+
+// Inches to the nearest sixteenth as a whole number and a reduced fraction, such as 23 7/16
+function formatInches(mm: number): string {
+  const sign = mm < 0 ? "-" : ""
+  const sixteenths = Math.round((Math.abs(mm) / MM_PER_INCH) * INCH_FRACTION)
+  const whole = Math.floor(sixteenths / INCH_FRACTION)
+  const remainder = sixteenths % INCH_FRACTION
+  if (remainder === 0) return `${sign}${whole}`
+
+  const divisor = gcd(remainder, INCH_FRACTION)
+  const fraction = `${remainder / divisor}/${INCH_FRACTION / divisor}`
+  return whole === 0 ? `${sign}${fraction}` : `${sign}${whole} ${fraction}`
+}
+
+// A length in millimeters as a number in the unit system, without the unit
+export function formatLengthValue(mm: number, system: UnitSystem): string {
+  if (system === "in") return formatInches(mm)
+  if (system === "cm") return `${Math.round(mm * 10) / 100}`
+  return `${Math.round(mm * 10) / 10}`
+}
+
+// A length in millimeters with its unit, such as 600 mm, 60 cm or 23 5/8"
+export function formatLength(mm: number, system: UnitSystem): string {
+  const value = formatLengthValue(mm, system)
+  return system === "in" ? `${value}"` : `${value} ${UNIT_SYSTEMS[system].suffix}`
+}
+
+// Smallest step a dragged length moves by, in millimeters: a millimeter, or the sixteenth of an inch lengths are
+// shown to in inches
+export function getDragStep(system: UnitSystem): number {
+  return system === "in" ? MM_PER_INCH / INCH_FRACTION : 1
+}
+
+// A router feed in millimeters a minute, as a plain number of inches a minute with inches, such as 157 in/min,
+// and of millimeters a minute otherwise, the way metric machines are set
+export function formatFeedRate(mmPerMinute: number, system: UnitSystem): string {
+  if (system === "in") return `${Math.round(mmPerMinute / MM_PER_INCH)} in/min`
+  return `${Math.round(mmPerMinute)} mm/min`
+}
+
+// Convert millimeters to a plain number in the unit system, for CSV files and number fields
+export function toUnitSystem(mm: number, system: UnitSystem): number {
+  const value = mm / UNIT_SYSTEMS[system].mmPerUnit
+  return system === "mm" ? Math.round(value * 10) / 10 : Math.round(value * 1000) / 1000
+}
+
+// Read a length typed in the unit system, returning millimeters, or null if it isn't a length.
+// Inches may be written with a fraction, as 23 7/16, 23-7/16 or 7/16, and a trailing " is ignored.
+export function parseLength(text: string, system: UnitSystem): number | null {
+  const trimmed = text
+    .trim()
+    .replace(/("|in|cm|mm)$/i, "")
+    .trim()
+  if (trimmed === "") return null
+
+  const fraction = trimmed.match(/^(-?)(?:(\d+(?:\.\d+)?)[\s-]+)?(\d+)\/(\d+)$/)
+  let value: number
+  if (fraction) {
+    const [, sign, whole, numerator, denominator] = fraction
+    if (Number(denominator) === 0) return null
+    value = (Number(whole ?? 0) + Number(numerator) / Number(denominator)) * (sign ? -1 : 1)
+  } else {
+    value = Number(trimmed)
+  }
+
+  return Number.isFinite(value) ? value * UNIT_SYSTEMS[system].mmPerUnit : null
+}
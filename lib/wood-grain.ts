@@ -0,0 +1,210 @@
+/**
+ * Wood Grain
+ * Procedural wood grain and plywood edge textures, and the texture coordinates
+ * that lay them on a panel
+ *
+ * Textures are generated from seeded noise, so they look the same on every
+ * load and nothing has to be downloaded. The grain runs along the u axis of a
+ * texture, which tiles seamlessly both ways and covers GRAIN_TILE_LENGTH mm
+ * along the grain and GRAIN_TILE_WIDTH mm across it, so the figure keeps its
+ * real size on panels of any size.
+ *
+ * On a panel the grain runs along its length as the cut list measures it, see
+ * getPanelAxes in drilling.ts, on both faces. Edges are veneered along their
+ * length, except on plywood, which shows its plies across the thickness of the
+ * board instead.
+ */
+
+import { MATERIAL_INFO, UNIT_TO_MM, type MaterialName } from "./shelving-unit"
+
+// How the figure of a veneer is drawn
+type GrainFigure = {
+  rings: number // Growth rings across a texture, a whole number so it tiles
+  warp: number // How far the rings wander, in rings
+  contrast: number // Darkening of the latewood at the end of each ring, 0-1
+  pores: number // Darkening of the open pores, 0-1
+  flecks: number // Lightening of the ray flecks of quartered oak, 0-1
+  roughness: number // Of the finished surface, latewood and pores are a little rougher
+  seed: number
+}
+
+// Birch on the plywood, open pored oak with ray flecks, and dark wavy walnut
+const GRAIN_FIGURES: Partial<Record<MaterialName, GrainFigure>> = {
+  wood: { rings: 5, warp: 0.35, contrast: 0.1, pores: 0.03, flecks: 0, roughness: 0.7, seed: 1 },
+  oak: { rings: 9, warp: 0.25, contrast: 0.16, pores: 0.14, flecks: 0.08, roughness: 0.75, seed: 2 },
+  walnut: { rings: 7, warp: 0.55, contrast: 0.24, pores: 0.08, flecks: 0, roughness: 0.6, seed: 3 },
+}
+
+export const GRAIN_TILE_LENGTH = 800 // mm along the grain
+export const GRAIN_TILE_WIDTH = 200 // mm across it
+export const GRAIN_TEXTURE_SIZE = 256 // pixels along each side of a grain texture
+
+const PLY_COUNT = 9 // Plies across the thickness of a plywood board
+const PLY_TEXTURE_SIZE: [number, number] = [256, 64] // pixels along the edge and across the thickness
+
+export type GrainTexture = {
+  width: number
+  height: number
+  color: Uint8Array // RGBA, rows from v = 0
+  roughness: Uint8Array // RGBA with the roughness in the green channel, as three.js reads it
+}
+
+// Axes of a panel box along its length, width and thickness
+export type GrainAxes = { length: number; width: number; thickness: number }
+
+// Whether a board is drawn with a grain texture
+export function hasGrainTexture(material: MaterialName): boolean {
+  return Boolean(GRAIN_FIGURES[material])
+}
+
+// Whether the edges of a board show its plies rather than a veneer, only the plywood under the wood veneer
+export function hasPlyEdges(material: MaterialName): boolean {
+  return material === "wood"
+}
+
+// Seeded random numbers between 0 and 1
+function createRandom(seed: number): () => number {
+  let state = seed * 0x9e3779b9
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Smooth noise between 0 and 1 that repeats every `periodX` by `periodY` units
+function createNoise(seed: number, periodX: number, periodY: number): (x: number, y: number) => number {
+  const random = createRandom(seed)
+  const lattice = Float32Array.from({ length: periodX * periodY }, random)
+  const at = (i: number, j: number) =>
+    lattice[(((j % periodY) + periodY) % periodY) * periodX + (((i % periodX) + periodX) % periodX)]
+  const smooth = (t: number) => t * t * (3 - 2 * t)
+
+  return (x, y) => {
+    const i = Math.floor(x)
+    const j = Math.floor(y)
+    const fx = smooth(x - i)
+    const fy = smooth(y - j)
+    const bottom = at(i, j) + (at(i + 1, j) - at(i, j)) * fx
+    const top = at(i, j + 1) + (at(i + 1, j + 1) - at(i, j + 1)) * fx
+    return bottom + (top - bottom) * fy
+  }
+}
+
+// Red, green and blue of a #rrggbb color, 0-255
+function parseColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// Write a shaded pixel of a base color and its roughness
+function setPixel(texture: GrainTexture, index: number, base: number[], shade: number, roughness: number) {
+  for (let c = 0; c < 3; c++) texture.color[index * 4 + c] = Math.max(0, Math.min(255, Math.round(base[c] * shade)))
+  texture.color[index * 4 + 3] = 255
+  const rough = Math.max(0, Math.min(255, Math.round(roughness * 255)))
+  texture.roughness.set([rough, rough, rough, 255], index * 4)
+}
+
+// Veneer of a board with a grain, with the grain along u, or null for boards without one
+export function createGrainTexture(material: MaterialName, size = GRAIN_TEXTURE_SIZE): GrainTexture | null {
+  const figure = GRAIN_FIGURES[material]
+  if (!figure) return null
+
+  const base = parseColor(MATERIAL_INFO[material].color)
+  const texture: GrainTexture = {
+    width: size,
+    height: size,
+    color: new Uint8Array(size * size * 4),
+    roughness: new Uint8Array(size * size * 4),
+  }
+
+  // Each noise is stretched along the grain, and repeats a whole number of times across the texture
+  const wander = createNoise(figure.seed, 3, 2)
+  const ripple = createNoise(figure.seed + 10, 8, 16)
+  const fibres = createNoise(figure.seed + 20, 2, 96)
+  const pores = createNoise(figure.seed + 30, 24, 160)
+  const flecks = createNoise(figure.seed + 40, 40, 10)
+
+  for (let j = 0; j < size; j++) {
+    const v = j / size
+    for (let i = 0; i < size; i++) {
+      const u = i / size
+
+      // Rings across the grain, wandering along it, darkest in the latewood at the end of each ring
+      const phase =
+        v * figure.rings + (wander(u * 3, v * 2) - 0.5) * figure.warp * 2 + (ripple(u * 8, v * 16) - 0.5) * 0.15
+      const latewood = (phase - Math.floor(phase)) ** 3
+      const pore = Math.max(0, pores(u * 24, v * 160) - 0.75) * 4
+      const fleck = Math.max(0, flecks(u * 40, v * 10) - 0.8) * 5
+
+      const shade =
+        1 +
+        figure.contrast * (0.25 - latewood) +
+        0.06 * (fibres(u * 2, v * 96) - 0.5) -
+        figure.pores * pore +
+        figure.flecks * fleck
+      setPixel(texture, j * size + i, base, shade, figure.roughness + 0.1 * latewood + 0.15 * pore)
+    }
+  }
+
+  return texture
+}
+
+// Edge of a plywood board: plies with the grain along and across the edge in turn, glued together,
+// with u along the edge and v across the thickness, once over
+export function createPlyTexture(material: MaterialName, [width, height] = PLY_TEXTURE_SIZE): GrainTexture {
+  const base = parseColor(MATERIAL_INFO[material].color)
+  const texture: GrainTexture = {
+    width,
+    height,
+    color: new Uint8Array(width * height * 4),
+    roughness: new Uint8Array(width * height * 4),
+  }
+  const streaks = createNoise(7, 4, PLY_COUNT * 8)
+  const endGrain = createNoise(8, 96, PLY_COUNT * 4)
+
+  for (let j = 0; j < height; j++) {
+    const ply = ((j + 0.5) / height) * PLY_COUNT
+    const within = ply - Math.floor(ply)
+    const across = Math.floor(ply) % 2 === 1
+    const glue = within < 0.08 || within > 0.92
+    for (let i = 0; i < width; i++) {
+      const u = i / width
+      const v = j / height
+      const grain = across ? endGrain(u * 96, v * PLY_COUNT * 4) : streaks(u * 4, v * PLY_COUNT * 8)
+      const shade = glue ? 0.55 : (across ? 0.88 : 1.04) + 0.1 * (grain - 0.5)
+      setPixel(texture, j * width + i, base, shade, glue ? 0.5 : 0.85)
+    }
+  }
+
+  return texture
+}
+
+// Texture coordinates of the vertices of a box centred on the origin, from their positions and normals in abstract
+// units: the grain along the length of both faces, and along each edge, with plywood plies once across the thickness
+export function getGrainUVs(
+  positions: ArrayLike<number>,
+  normals: ArrayLike<number>,
+  size: [number, number, number],
+  axes: GrainAxes,
+  plies: boolean,
+): Float32Array {
+  const uvs = new Float32Array((positions.length / 3) * 2)
+  const fromEdge = (k: number, axis: number) => (positions[k * 3 + axis] + size[axis] / 2) * UNIT_TO_MM
+
+  for (let k = 0; k < positions.length / 3; k++) {
+    const normal = [0, 1, 2].find((axis) => Math.abs(normals[k * 3 + axis]) > 0.5) ?? axes.thickness
+    if (normal === axes.thickness) {
+      uvs[k * 2] = fromEdge(k, axes.length) / GRAIN_TILE_LENGTH
+      uvs[k * 2 + 1] = fromEdge(k, axes.width) / GRAIN_TILE_WIDTH
+    } else {
+      const along = 3 - normal - axes.thickness
+      const thickness = fromEdge(k, axes.thickness)
+      uvs[k * 2] = fromEdge(k, along) / GRAIN_TILE_LENGTH
+      uvs[k * 2 + 1] = plies ? thickness / (size[axes.thickness] * UNIT_TO_MM) : thickness / GRAIN_TILE_WIDTH
+    }
+  }
+
+  return uvs
+}